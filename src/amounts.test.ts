@@ -0,0 +1,98 @@
+import { BigNumber } from "bignumber.js";
+import {
+  convertAssetAmount,
+  fromBaseUnits,
+  getBridgePrecision,
+  toAssetAmount,
+  toBaseUnits,
+  validateBridgeAmount,
+} from "./amounts";
+import { BridgeConfig, ChainType } from "./types";
+
+/**
+ * Build a configuration with the given token decimals on each chain
+ */
+function config(algorandDecimals: number, targetDecimals: number) {
+  return {
+    algorand: { decimals: algorandDecimals },
+    targetChain: { chainType: ChainType.ETHEREUM, decimals: targetDecimals },
+  } as unknown as BridgeConfig;
+}
+
+describe("toBaseUnits", () => {
+  it("converts whole tokens to base units exactly", () => {
+    expect(toBaseUnits(1, 0)).toBe(1n);
+    expect(toBaseUnits("1.5", 6)).toBe(1500000n);
+    expect(toBaseUnits(new BigNumber("123456789.000000000000000001"), 18)).toBe(
+      123456789000000000000000001n
+    );
+  });
+
+  it("rejects amounts finer than the token's decimals", () => {
+    expect(() => toBaseUnits("1.5", 0)).toThrow(
+      "Amount 1.5 has more than 0 decimal places"
+    );
+  });
+
+  it("rejects negative and non-finite amounts", () => {
+    expect(() => toBaseUnits(-1, 6)).toThrow("Invalid amount: -1");
+    expect(() => toBaseUnits(Infinity, 6)).toThrow("Invalid amount");
+  });
+});
+
+describe("fromBaseUnits", () => {
+  it("converts base units back to whole tokens", () => {
+    expect(fromBaseUnits(1500000n, 6).toFixed()).toBe("1.5");
+    expect(fromBaseUnits("1000000000000000000", 18).toFixed()).toBe("1");
+  });
+});
+
+describe("convertAssetAmount", () => {
+  it.each([
+    [0, 18],
+    [6, 18],
+    [18, 6],
+    [2, 0],
+  ])(
+    "bridges 1 credit from %i to %i decimals as exactly 1 credit",
+    (fromDecimals, toDecimals) => {
+      const converted = convertAssetAmount(
+        toAssetAmount(1, fromDecimals),
+        toDecimals
+      );
+
+      expect(converted.decimals).toBe(toDecimals);
+      expect(fromBaseUnits(converted.baseUnits, toDecimals).toFixed()).toBe(
+        "1"
+      );
+    }
+  );
+
+  it("rejects amounts the less precise chain cannot represent", () => {
+    expect(() =>
+      convertAssetAmount({ baseUnits: "1500001", decimals: 6 }, 2)
+    ).toThrow("Amount 1500001 cannot be represented with 2 decimals");
+  });
+});
+
+describe("validateBridgeAmount", () => {
+  it("limits amounts to the precision of the less precise chain", () => {
+    expect(getBridgePrecision(config(6, 18))).toBe(6);
+    expect(validateBridgeAmount("1.000001", config(6, 18))).toBeNull();
+    expect(validateBridgeAmount("1.0000001", config(6, 18))).toBe(
+      "Amount cannot have more than 6 decimal places"
+    );
+    expect(validateBridgeAmount("1.5", config(0, 18))).toBe(
+      "Amount cannot have more than 0 decimal places"
+    );
+  });
+
+  it("rejects amounts that are not positive", () => {
+    expect(validateBridgeAmount(0, config(6, 18))).toBe(
+      "Amount must be a positive number"
+    );
+    expect(validateBridgeAmount("abc", config(6, 18))).toBe(
+      "Amount must be a positive number"
+    );
+  });
+});
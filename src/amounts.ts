@@ -0,0 +1,219 @@
+import { Algodv2 } from "algosdk";
+import { ethers } from "ethers";
+import { BigNumber } from "bignumber.js";
+import { AssetAmount, BridgeConfig, ChainType } from "./types";
+import { getTokenContractABI } from "./chains/ethereum/contracts";
+import { convertAmount } from "./utils";
+
+/**
+ * Pending or completed decimal lookups, per configuration
+ */
+const decimalLookups = new WeakMap<BridgeConfig, Promise<void>>();
+
+/**
+ * Get the decimals of the carbon credit token on a chain
+ *
+ * @param chain Chain type
+ * @param config Bridge configuration
+ * @returns ASA decimals on Algorand, ERC-20 decimals on the target chain
+ */
+export function getChainDecimals(
+  chain: ChainType,
+  config: BridgeConfig
+): number {
+  return chain === ChainType.ALGORAND
+    ? (config.algorand.decimals ?? 0)
+    : (config.targetChain.decimals ?? 18);
+}
+
+/**
+ * Get the number of decimals an amount can have to be bridged exactly
+ *
+ * @param config Bridge configuration
+ * @returns Decimals of the less precise chain
+ */
+export function getBridgePrecision(config: BridgeConfig): number {
+  return Math.min(
+    getChainDecimals(ChainType.ALGORAND, config),
+    getChainDecimals(config.targetChain.chainType, config)
+  );
+}
+
+/**
+ * Convert a token amount to base units
+ *
+ * @param amount Amount in whole tokens
+ * @param decimals Token decimals
+ * @returns Amount in base units
+ * @throws Error if the amount has more decimal places than the token
+ */
+export function toBaseUnits(
+  amount: BigNumber | string | number,
+  decimals: number
+): bigint {
+  const value = new BigNumber(amount);
+  if (!value.isFinite() || value.isNegative()) {
+    throw new Error(`Invalid amount: ${value.toFixed()}`);
+  }
+
+  const baseUnits = value.shiftedBy(decimals);
+  if (!baseUnits.isInteger()) {
+    throw new Error(
+      `Amount ${value.toFixed()} has more than ${decimals} decimal places`
+    );
+  }
+
+  return BigInt(baseUnits.toFixed());
+}
+
+/**
+ * Convert base units to a token amount
+ *
+ * @param baseUnits Amount in base units
+ * @param decimals Token decimals
+ * @returns Amount in whole tokens
+ */
+export function fromBaseUnits(
+  baseUnits: bigint | string | number,
+  decimals: number
+): BigNumber {
+  return new BigNumber(baseUnits.toString()).shiftedBy(-decimals);
+}
+
+/**
+ * Build an asset amount from a token amount
+ *
+ * @param amount Amount in whole tokens
+ * @param decimals Token decimals
+ * @returns Asset amount
+ */
+export function toAssetAmount(
+  amount: BigNumber | string | number,
+  decimals: number
+): AssetAmount {
+  return {
+    baseUnits: toBaseUnits(amount, decimals).toString(),
+    decimals,
+  };
+}
+
+/**
+ * Convert an asset amount to base units of a token with other decimals
+ *
+ * @param amount Asset amount
+ * @param decimals Decimals to convert to
+ * @returns Asset amount counted in the new decimals
+ * @throws Error if the amount cannot be represented exactly
+ */
+export function convertAssetAmount(
+  amount: AssetAmount,
+  decimals: number
+): AssetAmount {
+  return {
+    baseUnits: convertAmount(
+      amount.baseUnits,
+      amount.decimals,
+      decimals
+    ).toFixed(),
+    decimals,
+  };
+}
+
+/**
+ * Check that an amount can be bridged without losing precision
+ *
+ * @param amount Amount in whole tokens
+ * @param config Bridge configuration
+ * @returns Error message, or null if the amount is valid
+ */
+export function validateBridgeAmount(
+  amount: BigNumber | string | number,
+  config: BridgeConfig
+): string | null {
+  const value = new BigNumber(amount);
+  if (value.isNaN() || !value.isPositive() || value.isZero()) {
+    return "Amount must be a positive number";
+  }
+
+  const precision = getBridgePrecision(config);
+  if ((value.decimalPlaces() ?? 0) > precision) {
+    return `Amount cannot have more than ${precision} decimal places`;
+  }
+
+  return null;
+}
+
+/**
+ * Read the token decimals of both chains into the configuration
+ *
+ * The ASA decimals come from the asset params and the ERC-20 decimals from
+ * the token's `decimals()`. Configured values are checked against the
+ * chain. Each configuration is read once; a failed read is retried on the
+ * next call.
+ *
+ * @param config Bridge configuration
+ * @throws Error if a read fails or a configured value does not match
+ */
+export function resolveAssetDecimals(config: BridgeConfig): Promise<void> {
+  let lookup = decimalLookups.get(config);
+  if (!lookup) {
+    lookup = readAssetDecimals(config).catch((error) => {
+      decimalLookups.delete(config);
+      throw error;
+    });
+    decimalLookups.set(config, lookup);
+  }
+
+  return lookup;
+}
+
+/**
+ * Read and check the token decimals of both chains
+ *
+ * @param config Bridge configuration
+ */
+async function readAssetDecimals(config: BridgeConfig): Promise<void> {
+  const algodClient = new Algodv2(
+    config.algorand.token ?? "",
+    config.algorand.nodeUrl,
+    config.algorand.port
+  );
+  const asset = await algodClient
+    .getAssetByID(config.algorand.carbonAssetId)
+    .do();
+  const algorandDecimals = Number(asset.params.decimals);
+
+  const provider = new ethers.JsonRpcProvider(config.targetChain.rpcUrl);
+  let targetDecimals: number;
+  try {
+    const tokenContract = new ethers.Contract(
+      config.targetChain.tokenContractAddress,
+      getTokenContractABI(),
+      provider
+    );
+    targetDecimals = Number(await tokenContract.decimals());
+  } finally {
+    provider.destroy();
+  }
+
+  if (
+    config.algorand.decimals !== undefined &&
+    config.algorand.decimals !== algorandDecimals
+  ) {
+    throw new Error(
+      `Configured ASA decimals (${config.algorand.decimals}) do not match asset ${config.algorand.carbonAssetId} (${algorandDecimals})`
+    );
+  }
+
+  if (
+    config.targetChain.decimals !== undefined &&
+    config.targetChain.decimals !== targetDecimals
+  ) {
+    throw new Error(
+      `Configured token decimals (${config.targetChain.decimals}) do not match ${config.targetChain.tokenContractAddress} (${targetDecimals})`
+    );
+  }
+
+  config.algorand.decimals = algorandDecimals;
+  config.targetChain.decimals = targetDecimals;
+}
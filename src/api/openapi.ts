@@ -0,0 +1,617 @@
+import {
+  BridgeDirection,
+  BridgeStatus,
+  ChainType,
+  ReplacementType,
+  SerialRangeStatus,
+} from "../types";
+
+const bridgeRequestSchema = (senderChain: string, receiverChain: string) => ({
+  type: "object",
+  required: ["sender", "receiver", "amount"],
+  properties: {
+    sender: { type: "string", description: `${senderChain} sender address` },
+    receiver: {
+      type: "string",
+      description: `${receiverChain} receiver address`,
+    },
+    amount: {
+      oneOf: [{ type: "string" }, { type: "number" }],
+      description: "Amount of carbon credits",
+    },
+    options: { $ref: "#/components/schemas/BridgeOptions" },
+  },
+});
+
+/**
+ * OpenAPI document describing the bridge REST API
+ */
+export const openApiDocument = {
+  openapi: "3.0.3",
+  info: {
+    title: "Algorand Carbon Bridge API",
+    version: "0.1.0",
+    description:
+      "HTTP interface for bridging Algorand carbon credits to and from other chains",
+  },
+  paths: {
+    "/health": {
+      get: {
+        summary: "Health check",
+        responses: {
+          "200": {
+            description: "Service is running",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: { status: { type: "string", example: "ok" } },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/bridge/to-target": {
+      post: {
+        summary: "Lock carbon credits on Algorand and mint on the target chain",
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                allOf: [
+                  bridgeRequestSchema("Algorand", "Target chain"),
+                  {
+                    type: "object",
+                    properties: {
+                      metadata: {
+                        $ref: "#/components/schemas/CarbonCreditMetadata",
+                      },
+                    },
+                  },
+                ],
+              },
+            },
+          },
+        },
+        responses: {
+          "200": { $ref: "#/components/responses/BridgeResult" },
+          "400": { $ref: "#/components/responses/BridgeError" },
+        },
+      },
+    },
+    "/bridge/to-algorand": {
+      post: {
+        summary: "Burn wrapped carbon credits and release them on Algorand",
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: bridgeRequestSchema("Target chain", "Algorand"),
+            },
+          },
+        },
+        responses: {
+          "200": { $ref: "#/components/responses/BridgeResult" },
+          "400": { $ref: "#/components/responses/BridgeError" },
+        },
+      },
+    },
+    "/retire": {
+      post: {
+        summary:
+          "Retire wrapped carbon credits and retire the escrowed units on Algorand",
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["sender", "amount", "beneficiary", "reason"],
+                properties: {
+                  sender: {
+                    type: "string",
+                    description: "Target chain address holding the credits",
+                  },
+                  amount: {
+                    oneOf: [{ type: "string" }, { type: "number" }],
+                    description: "Amount of wrapped carbon credits",
+                  },
+                  beneficiary: { type: "string" },
+                  reason: { type: "string" },
+                  targetChain: {
+                    type: "string",
+                    enum: Object.values(ChainType),
+                    description:
+                      "Chain the credits are wrapped on (defaults to the primary target chain)",
+                  },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          "200": { $ref: "#/components/responses/BridgeResult" },
+          "400": { $ref: "#/components/responses/BridgeError" },
+        },
+      },
+    },
+    "/quote": {
+      get: {
+        summary: "Quote the fees for bridging an amount",
+        parameters: [
+          {
+            name: "direction",
+            in: "query",
+            required: true,
+            schema: { type: "string", enum: Object.values(BridgeDirection) },
+          },
+          {
+            name: "amount",
+            in: "query",
+            required: true,
+            schema: { type: "string" },
+            description: "Gross amount to lock or burn",
+          },
+          {
+            name: "targetChain",
+            in: "query",
+            required: false,
+            schema: { type: "string", enum: Object.values(ChainType) },
+            description:
+              "Chain the credits are minted or burned on (defaults to the primary target chain)",
+          },
+        ],
+        responses: {
+          "200": {
+            description: "Bridge quote",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/BridgeQuote" },
+              },
+            },
+          },
+          "400": {
+            description: "Invalid direction or amount",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/Error" },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/transactions": {
+      get: {
+        summary: "List bridge transactions",
+        parameters: [
+          {
+            name: "status",
+            in: "query",
+            required: false,
+            schema: { type: "string", enum: Object.values(BridgeStatus) },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "Bridge transactions",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "array",
+                  items: { $ref: "#/components/schemas/BridgeTransaction" },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/transactions/{bridgeId}": {
+      get: {
+        summary: "Get a bridge transaction",
+        parameters: [{ $ref: "#/components/parameters/BridgeId" }],
+        responses: {
+          "200": {
+            description: "Bridge transaction",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/BridgeTransaction" },
+              },
+            },
+          },
+          "404": { $ref: "#/components/responses/NotFound" },
+        },
+      },
+    },
+    "/transactions/{bridgeId}/history": {
+      get: {
+        summary: "Get the status history of a bridge transaction",
+        parameters: [{ $ref: "#/components/parameters/BridgeId" }],
+        responses: {
+          "200": {
+            description: "Status transitions, oldest first",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "array",
+                  items: { $ref: "#/components/schemas/StatusTransition" },
+                },
+              },
+            },
+          },
+          "404": { $ref: "#/components/responses/NotFound" },
+        },
+      },
+    },
+    "/transactions/{bridgeId}/claim": {
+      post: {
+        summary:
+          "Claim carbon credits held in the escrow until the receiver opts in",
+        description:
+          "Returns the unsigned opt-in and claim transactions while the receiver has not opted into the carbon asset",
+        parameters: [{ $ref: "#/components/parameters/BridgeId" }],
+        responses: {
+          "200": { $ref: "#/components/responses/BridgeResult" },
+          "400": { $ref: "#/components/responses/BridgeError" },
+          "404": { $ref: "#/components/responses/NotFound" },
+        },
+      },
+    },
+    "/transactions/{bridgeId}/status": {
+      get: {
+        summary: "Get the current status of a bridge transaction",
+        parameters: [{ $ref: "#/components/parameters/BridgeId" }],
+        responses: {
+          "200": {
+            description: "Bridge transaction status",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    bridgeId: { type: "string" },
+                    status: {
+                      type: "string",
+                      enum: Object.values(BridgeStatus),
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/serials": {
+      get: {
+        summary: "List the serial ranges of bridged credits",
+        parameters: [
+          {
+            name: "block",
+            in: "query",
+            required: false,
+            schema: { type: "string" },
+            description: "Registry serial block",
+          },
+          {
+            name: "status",
+            in: "query",
+            required: false,
+            schema: { type: "string", enum: Object.values(SerialRangeStatus) },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "Serial ranges in serial order",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "array",
+                  items: { $ref: "#/components/schemas/SerialRangeRecord" },
+                },
+              },
+            },
+          },
+          "400": {
+            description: "Unknown status",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/Error" },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/serials/locate": {
+      get: {
+        summary: "Find where a registry serial number is",
+        parameters: [
+          {
+            name: "block",
+            in: "query",
+            required: true,
+            schema: { type: "string" },
+            description: "Registry serial block",
+          },
+          {
+            name: "serial",
+            in: "query",
+            required: true,
+            schema: { type: "integer" },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "Serial range containing the serial",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/SerialRangeRecord" },
+              },
+            },
+          },
+          "400": {
+            description: "Missing block or invalid serial",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/Error" },
+              },
+            },
+          },
+          "404": {
+            description: "Serial has not been bridged",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/Error" },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  components: {
+    parameters: {
+      BridgeId: {
+        name: "bridgeId",
+        in: "path",
+        required: true,
+        schema: { type: "string" },
+      },
+    },
+    responses: {
+      BridgeResult: {
+        description: "Bridge operation result",
+        content: {
+          "application/json": {
+            schema: { $ref: "#/components/schemas/BridgeResult" },
+          },
+        },
+      },
+      BridgeError: {
+        description: "Invalid request or failed bridge operation",
+        content: {
+          "application/json": {
+            schema: { $ref: "#/components/schemas/BridgeResult" },
+          },
+        },
+      },
+      NotFound: {
+        description: "Resource not found",
+        content: {
+          "application/json": {
+            schema: { $ref: "#/components/schemas/Error" },
+          },
+        },
+      },
+    },
+    schemas: {
+      Error: {
+        type: "object",
+        properties: { error: { type: "string" } },
+      },
+      BridgeOptions: {
+        type: "object",
+        properties: {
+          waitForConfirmation: { type: "boolean" },
+          timeoutMs: { type: "integer" },
+          callbackUrl: { type: "string" },
+          targetChain: {
+            type: "string",
+            enum: Object.values(ChainType),
+            description:
+              "Chain the credits are minted or burned on (defaults to the primary target chain)",
+          },
+          permit: { $ref: "#/components/schemas/PermitSignature" },
+        },
+      },
+      PermitSignature: {
+        type: "object",
+        description:
+          "EIP-2612 permit for the bridge contract to burn the sender's wrapped credits",
+        required: ["deadline", "signature"],
+        properties: {
+          deadline: {
+            type: "integer",
+            description: "Unix timestamp in seconds",
+          },
+          signature: {
+            type: "string",
+            description: "Signature over the permit typed data",
+          },
+        },
+      },
+      CarbonCreditMetadata: {
+        type: "object",
+        required: ["projectId", "vintage", "standard", "serialNumber"],
+        properties: {
+          projectId: { type: "string" },
+          vintage: { type: "integer" },
+          standard: { type: "string" },
+          creditType: { type: "string" },
+          serialNumber: {
+            type: "string",
+            description: "Registry serial block the credits are drawn from",
+          },
+          serialRange: {
+            type: "object",
+            required: ["start", "end"],
+            properties: {
+              start: { type: "integer" },
+              end: { type: "integer" },
+            },
+            description: "Serials in the block, inclusive",
+          },
+          issuanceDate: { type: "integer" },
+          retirementStatus: { type: "boolean" },
+          additionalAttributes: { type: "object" },
+        },
+      },
+      BridgeResult: {
+        type: "object",
+        properties: {
+          success: { type: "boolean" },
+          transactionId: { type: "string" },
+          bridgeId: { type: "string" },
+          status: { type: "string", enum: Object.values(BridgeStatus) },
+          error: { type: "string" },
+          receipt: {
+            type: "object",
+            description:
+              "Chain-specific receipt, e.g. unsigned transactions to sign",
+          },
+        },
+      },
+      BridgeTransaction: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          sourceChain: { type: "string", enum: Object.values(ChainType) },
+          targetChain: { type: "string", enum: Object.values(ChainType) },
+          sourceAssetId: { type: "string" },
+          targetAssetId: { type: "string" },
+          amount: { type: "string", description: "Decimal amount" },
+          protocolFee: { type: "string", description: "Decimal amount" },
+          sourceAmount: { $ref: "#/components/schemas/AssetAmount" },
+          targetAmount: { $ref: "#/components/schemas/AssetAmount" },
+          sender: { type: "string" },
+          receiver: { type: "string" },
+          status: { type: "string", enum: Object.values(BridgeStatus) },
+          sourceTransactionId: { type: "string" },
+          targetTransactionId: { type: "string" },
+          refundTransactionId: { type: "string" },
+          timestamp: { type: "integer" },
+          nonce: { type: "integer" },
+          history: {
+            type: "array",
+            items: { $ref: "#/components/schemas/StatusTransition" },
+          },
+          metadata: { $ref: "#/components/schemas/CarbonCreditMetadata" },
+          metadataHash: {
+            type: "string",
+            description: "keccak256 of the canonical metadata JSON",
+          },
+          retirement: { $ref: "#/components/schemas/RetirementDetails" },
+          serialRanges: {
+            type: "array",
+            items: { $ref: "#/components/schemas/SerialRange" },
+            description: "Serials assigned to the lock, or taken by the burn",
+          },
+          replacements: {
+            type: "array",
+            items: { $ref: "#/components/schemas/TransactionReplacement" },
+            description: "Stuck mint transactions that were replaced",
+          },
+        },
+      },
+      TransactionReplacement: {
+        type: "object",
+        properties: {
+          type: { type: "string", enum: Object.values(ReplacementType) },
+          replacedTransactionId: { type: "string" },
+          transactionId: { type: "string" },
+          timestamp: { type: "integer" },
+        },
+      },
+      SerialRange: {
+        type: "object",
+        required: ["block", "start", "end"],
+        properties: {
+          block: { type: "string" },
+          start: { type: "integer" },
+          end: { type: "integer" },
+        },
+      },
+      SerialRangeRecord: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          block: { type: "string" },
+          start: { type: "integer" },
+          end: { type: "integer" },
+          status: { type: "string", enum: Object.values(SerialRangeStatus) },
+          lockBridgeId: { type: "string" },
+          bridgeId: {
+            type: "string",
+            description: "Bridge transaction that last moved the range",
+          },
+          updatedAt: { type: "integer" },
+        },
+      },
+      RetirementDetails: {
+        type: "object",
+        required: ["beneficiary", "reason"],
+        properties: {
+          beneficiary: { type: "string" },
+          reason: { type: "string" },
+        },
+      },
+      BridgeQuote: {
+        type: "object",
+        properties: {
+          direction: { type: "string", enum: Object.values(BridgeDirection) },
+          grossAmount: { type: "string", description: "Decimal amount" },
+          feeRate: { type: "number" },
+          protocolFee: { type: "string", description: "Decimal amount" },
+          netAmount: { type: "string", description: "Decimal amount" },
+          networkFees: {
+            type: "object",
+            properties: {
+              algorand: { type: "string", description: "Estimated ALGO" },
+              ethereum: {
+                type: "string",
+                description: "Estimated gas token of the target chain",
+              },
+            },
+          },
+        },
+      },
+      AssetAmount: {
+        type: "object",
+        required: ["baseUnits", "decimals"],
+        properties: {
+          baseUnits: {
+            type: "string",
+            description: "Whole number of base units",
+          },
+          decimals: { type: "integer" },
+        },
+      },
+      StatusTransition: {
+        type: "object",
+        required: ["to", "timestamp"],
+        properties: {
+          from: { type: "string", enum: Object.values(BridgeStatus) },
+          to: { type: "string", enum: Object.values(BridgeStatus) },
+          timestamp: { type: "integer" },
+          reason: { type: "string" },
+          chainTransactionId: { type: "string" },
+        },
+      },
+    },
+  },
+};
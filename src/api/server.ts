@@ -0,0 +1,359 @@
+import express, { NextFunction, Request, Response } from "express";
+import cors from "cors";
+import swaggerUi from "swagger-ui-express";
+import { CarbonCreditBridge } from "../bridge";
+import {
+  BridgeDirection,
+  BridgeStatus,
+  ChainType,
+  SerialRangeStatus,
+} from "../types";
+import { openApiDocument } from "./openapi";
+
+/**
+ * Wrap an async route handler so rejections reach the error middleware
+ *
+ * @param handler Async route handler
+ * @returns Express route handler
+ */
+function asyncHandler(
+  handler: (req: Request, res: Response) => Promise<void>
+): (req: Request, res: Response, next: NextFunction) => void {
+  return (req, res, next) => {
+    handler(req, res).catch(next);
+  };
+}
+
+/**
+ * Validate the common body of a bridge request
+ *
+ * @param body Request body
+ * @returns Error message or null if valid
+ */
+function validateBridgeRequest(body: any): string | null {
+  if (!body || typeof body !== "object") {
+    return "Request body must be a JSON object";
+  }
+
+  if (typeof body.sender !== "string" || !body.sender) {
+    return "sender is required";
+  }
+
+  if (typeof body.receiver !== "string" || !body.receiver) {
+    return "receiver is required";
+  }
+
+  if (
+    (typeof body.amount !== "string" && typeof body.amount !== "number") ||
+    body.amount === ""
+  ) {
+    return "amount is required";
+  }
+
+  return null;
+}
+
+/**
+ * Validate the body of a retire request
+ *
+ * @param body Request body
+ * @returns Error message or null if valid
+ */
+function validateRetireRequest(body: any): string | null {
+  if (!body || typeof body !== "object") {
+    return "Request body must be a JSON object";
+  }
+
+  if (typeof body.sender !== "string" || !body.sender) {
+    return "sender is required";
+  }
+
+  if (
+    (typeof body.amount !== "string" && typeof body.amount !== "number") ||
+    body.amount === ""
+  ) {
+    return "amount is required";
+  }
+
+  if (typeof body.beneficiary !== "string" || !body.beneficiary) {
+    return "beneficiary is required";
+  }
+
+  if (typeof body.reason !== "string" || !body.reason) {
+    return "reason is required";
+  }
+
+  return null;
+}
+
+/**
+ * Create the REST API application for a bridge instance
+ *
+ * @param bridge Carbon credit bridge
+ * @returns Express application
+ */
+export function createApiServer(bridge: CarbonCreditBridge): express.Express {
+  const app = express();
+
+  app.use(cors());
+  app.use(express.json());
+
+  app.get("/health", (_req, res) => {
+    res.json({ status: "ok" });
+  });
+
+  app.get("/openapi.json", (_req, res) => {
+    res.json(openApiDocument);
+  });
+
+  // swagger-ui-express may resolve its own copy of the express typings
+  const docsHandlers = [
+    ...swaggerUi.serve,
+    swaggerUi.setup(openApiDocument),
+  ] as unknown as express.RequestHandler[];
+  app.use("/docs", docsHandlers);
+
+  app.post(
+    "/bridge/to-target",
+    asyncHandler(async (req, res) => {
+      const validationError = validateBridgeRequest(req.body);
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+
+      const { sender, receiver, amount, metadata, options } = req.body;
+      const result = await bridge.bridgeToTargetChain(
+        sender,
+        receiver,
+        amount,
+        metadata,
+        options
+      );
+
+      res.status(result.success ? 200 : 400).json(result);
+    })
+  );
+
+  app.post(
+    "/bridge/to-algorand",
+    asyncHandler(async (req, res) => {
+      const validationError = validateBridgeRequest(req.body);
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+
+      const { sender, receiver, amount, options } = req.body;
+      const result = await bridge.bridgeToAlgorand(
+        sender,
+        receiver,
+        amount,
+        options
+      );
+
+      res.status(result.success ? 200 : 400).json(result);
+    })
+  );
+
+  app.post(
+    "/retire",
+    asyncHandler(async (req, res) => {
+      const validationError = validateRetireRequest(req.body);
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+
+      const { sender, amount, beneficiary, reason, targetChain } = req.body;
+      const result = await bridge.retireCredits(
+        sender,
+        amount,
+        { beneficiary, reason },
+        targetChain
+      );
+
+      res.status(result.success ? 200 : 400).json(result);
+    })
+  );
+
+  app.get(
+    "/quote",
+    asyncHandler(async (req, res) => {
+      const { direction, amount, targetChain } = req.query;
+
+      if (!(Object.values(BridgeDirection) as any[]).includes(direction)) {
+        res.status(400).json({ error: `Unknown direction: ${direction}` });
+        return;
+      }
+
+      if (typeof amount !== "string" || !amount) {
+        res.status(400).json({ error: "amount is required" });
+        return;
+      }
+
+      try {
+        const quote = await bridge.quoteBridge(
+          direction as BridgeDirection,
+          amount,
+          typeof targetChain === "string"
+            ? (targetChain as ChainType)
+            : undefined
+        );
+        res.json(quote);
+      } catch (error: any) {
+        res.status(400).json({ error: error.message });
+      }
+    })
+  );
+
+  app.get("/transactions", (req, res) => {
+    const status = req.query.status;
+
+    if (
+      status !== undefined &&
+      !(Object.values(BridgeStatus) as any[]).includes(status)
+    ) {
+      res.status(400).json({ error: `Unknown status: ${status}` });
+      return;
+    }
+
+    const transactions = bridge
+      .listTransactions()
+      .filter((tx) => status === undefined || tx.status === status);
+
+    res.json(transactions);
+  });
+
+  app.get("/transactions/:bridgeId", (req, res) => {
+    const transaction = bridge.getTransaction(req.params.bridgeId);
+
+    if (!transaction) {
+      res.status(404).json({ error: "Bridge transaction not found" });
+      return;
+    }
+
+    res.json(transaction);
+  });
+
+  app.get("/transactions/:bridgeId/history", (req, res) => {
+    const history = bridge.getTransactionHistory(req.params.bridgeId);
+
+    if (!history) {
+      res.status(404).json({ error: "Bridge transaction not found" });
+      return;
+    }
+
+    res.json(history);
+  });
+
+  app.post(
+    "/transactions/:bridgeId/claim",
+    asyncHandler(async (req, res) => {
+      if (!bridge.getTransaction(req.params.bridgeId)) {
+        res.status(404).json({ error: "Bridge transaction not found" });
+        return;
+      }
+
+      const result = await bridge.claimReleasedCredits(req.params.bridgeId);
+      res.status(result.success ? 200 : 400).json(result);
+    })
+  );
+
+  app.get(
+    "/transactions/:bridgeId/status",
+    asyncHandler(async (req, res) => {
+      const status = await bridge.getTransactionStatus(req.params.bridgeId);
+      res.json({ bridgeId: req.params.bridgeId, status });
+    })
+  );
+
+  app.get(
+    "/serials",
+    asyncHandler(async (req, res) => {
+      const { block, status } = req.query;
+
+      if (block !== undefined && typeof block !== "string") {
+        res.status(400).json({ error: "block must be a string" });
+        return;
+      }
+
+      if (
+        status !== undefined &&
+        !(Object.values(SerialRangeStatus) as any[]).includes(status)
+      ) {
+        res.status(400).json({ error: `Unknown status: ${status}` });
+        return;
+      }
+
+      const ranges = await bridge.listSerialRanges(
+        block,
+        status as SerialRangeStatus | undefined
+      );
+      res.json(ranges);
+    })
+  );
+
+  app.get(
+    "/serials/locate",
+    asyncHandler(async (req, res) => {
+      const { block, serial } = req.query;
+
+      if (typeof block !== "string" || !block) {
+        res.status(400).json({ error: "block is required" });
+        return;
+      }
+
+      if (typeof serial !== "string" || !/^\d+$/.test(serial)) {
+        res.status(400).json({ error: "serial must be a whole number" });
+        return;
+      }
+
+      const record = await bridge.locateSerial(block, Number(serial));
+      if (!record) {
+        res.status(404).json({ error: "Serial has not been bridged" });
+        return;
+      }
+
+      res.json(record);
+    })
+  );
+
+  // Error handler for malformed JSON and unexpected failures
+  app.use((error: any, _req: Request, res: Response, _next: NextFunction) => {
+    if (error.type === "entity.parse.failed") {
+      res.status(400).json({ error: "Malformed JSON body" });
+      return;
+    }
+
+    console.error("Unhandled API error:", error);
+    res.status(500).json({ error: error.message || "Internal server error" });
+  });
+
+  return app;
+}
+
+/**
+ * Start the API server using configuration from the environment
+ *
+ * @param port Port to listen on
+ */
+export async function startApiServer(
+  port: number = parseInt(process.env.PORT || "3000")
+): Promise<void> {
+  const bridge = new CarbonCreditBridge();
+  await bridge.ready;
+  bridge.startWatching();
+
+  const app = createApiServer(bridge);
+  app.listen(port, () => {
+    console.log(`Carbon bridge API listening on port ${port}`);
+  });
+}
+
+if (require.main === module) {
+  startApiServer().catch((error) => {
+    console.error("Failed to start API server:", error);
+    process.exit(1);
+  });
+}
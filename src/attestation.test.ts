@@ -0,0 +1,181 @@
+import { ethers } from "ethers";
+import { BigNumber } from "bignumber.js";
+import {
+  attestationsEqual,
+  BridgeAttestation,
+  createAttestation,
+  encodeAlgorandAttestation,
+  getAttestationDomain,
+} from "./attestation";
+import {
+  BridgeConfig,
+  BridgeStatus,
+  BridgeTransaction,
+  ChainType,
+} from "./types";
+
+const config = {
+  algorand: {
+    nodeUrl: "http://localhost:4001",
+    indexerUrl: "http://localhost:8980",
+    escrowAppId: 1234,
+    carbonAssetId: 5678,
+    decimals: 0,
+    genesisId: "testnet-v1.0",
+  },
+  targetChain: {
+    chainType: ChainType.ETHEREUM,
+    rpcUrl: "http://localhost:8545",
+    bridgeContractAddress: "0x000000000000000000000000000000000000abcd",
+    tokenContractAddress: "0x0000000000000000000000000000000000000003",
+    decimals: 18,
+  },
+  verifiers: [],
+  minVerifierSignatures: 0,
+  bridgeFee: 0,
+  timeoutBlocks: 150,
+} as unknown as BridgeConfig;
+
+const lock: BridgeTransaction = {
+  id: "bridge-1",
+  sourceChain: ChainType.ALGORAND,
+  targetChain: ChainType.ETHEREUM,
+  sourceAssetId: "5678",
+  targetAssetId: "0x0000000000000000000000000000000000000003",
+  amount: new BigNumber(10),
+  sender: "SENDER",
+  receiver: "0x000000000000000000000000000000000000dEaD",
+  status: BridgeStatus.LOCKED,
+  sourceTransactionId: "LOCKTXID",
+  timestamp: 1700000000000,
+  nonce: 100,
+};
+
+/**
+ * Encode a string field: uint16 byte length and UTF-8 bytes
+ */
+function string(value: string): Buffer {
+  const bytes = Buffer.from(value, "utf8");
+  const length = Buffer.alloc(2);
+  length.writeUInt16BE(bytes.length);
+  return Buffer.concat([length, bytes]);
+}
+
+describe("createAttestation", () => {
+  it("binds the attestation to the configured chains", () => {
+    expect(createAttestation(lock, config)).toEqual({
+      bridgeId: "bridge-1",
+      sourceChain: "algorand",
+      sourceChainId: "testnet-v1.0",
+      targetChain: "ethereum",
+      targetChainId: "1",
+      sourceAssetId: "5678",
+      targetAssetId: "0x0000000000000000000000000000000000000003",
+      escrowAppId: 1234,
+      bridgeContract: "0x000000000000000000000000000000000000ABcD",
+      sourceTransactionId: "LOCKTXID",
+      receiver: "0x000000000000000000000000000000000000dEaD",
+      amount: "10000000000000000000",
+      metadataHash: ethers.ZeroHash,
+    });
+  });
+
+  it("uses the configured EVM chain ID", () => {
+    const sepolia = {
+      ...config,
+      targetChain: { ...config.targetChain, chainId: 11155111 },
+    };
+
+    expect(createAttestation(lock, sepolia).targetChainId).toBe("11155111");
+    expect(getAttestationDomain(sepolia).chainId).toBe(11155111);
+  });
+
+  it("requires the Algorand genesis ID", () => {
+    const unnamed = {
+      ...config,
+      algorand: { ...config.algorand, genesisId: undefined },
+    };
+
+    expect(() => createAttestation(lock, unnamed)).toThrow(
+      "algorand.genesisId must be set to attest bridges"
+    );
+  });
+
+  it("requires the chain ID of a chain type without a default", () => {
+    const unknown = {
+      ...config,
+      targetChain: { ...config.targetChain, chainType: "zksync" as ChainType },
+    };
+
+    expect(() => getAttestationDomain(unknown)).toThrow(
+      "targetChain.chainId must be set to attest zksync bridges"
+    );
+  });
+});
+
+describe("encodeAlgorandAttestation", () => {
+  const attestation = createAttestation(lock, config);
+
+  it("encodes the tag and fields in type order", () => {
+    const amount = Buffer.alloc(32);
+    amount.writeBigUInt64BE(10000000000000000000n, 24);
+    const escrowAppId = Buffer.alloc(8);
+    escrowAppId.writeBigUInt64BE(1234n);
+
+    expect(Buffer.from(encodeAlgorandAttestation(attestation))).toEqual(
+      Buffer.concat([
+        string("algorand-carbon-bridge/attestation/v2"),
+        string("bridge-1"),
+        string("algorand"),
+        string("testnet-v1.0"),
+        string("ethereum"),
+        string("1"),
+        string("5678"),
+        string("0x0000000000000000000000000000000000000003"),
+        escrowAppId,
+        Buffer.from("000000000000000000000000000000000000abcd", "hex"),
+        string("LOCKTXID"),
+        string("0x000000000000000000000000000000000000dEaD"),
+        amount,
+        Buffer.alloc(32),
+      ])
+    );
+  });
+
+  it("rejects a metadata hash that is not 32 bytes", () => {
+    expect(() =>
+      encodeAlgorandAttestation({ ...attestation, metadataHash: "0x1234" })
+    ).toThrow("Attestation field metadataHash must be 32 bytes");
+  });
+});
+
+describe("attestationsEqual", () => {
+  const attestation = createAttestation(lock, config);
+
+  it("matches attestations that encode identically", () => {
+    const copy: BridgeAttestation = {
+      ...attestation,
+      bridgeContract: attestation.bridgeContract.toLowerCase(),
+    };
+
+    expect(attestationsEqual(attestation, copy)).toBe(true);
+  });
+
+  it("tells apart attestations for another chain or amount", () => {
+    expect(
+      attestationsEqual(attestation, {
+        ...attestation,
+        sourceChainId: "mainnet-v1.0",
+      })
+    ).toBe(false);
+    expect(
+      attestationsEqual(attestation, { ...attestation, amount: "1" })
+    ).toBe(false);
+  });
+
+  it("does not match malformed attestations", () => {
+    expect(
+      attestationsEqual(attestation, { ...attestation, metadataHash: "0x" })
+    ).toBe(false);
+  });
+});
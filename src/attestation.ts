@@ -0,0 +1,226 @@
+import { ethers } from "ethers";
+import { BridgeConfig, BridgeTransaction, ChainType } from "./types";
+import { getNetAssetAmount } from "./fees";
+import { getMetadataHash } from "./metadata";
+import { getExpectedChainId } from "./chains/ethereum/networks";
+
+/**
+ * Version of the attestation format signed by verifiers
+ *
+ * Bump when fields are added, removed or reordered so signatures made for
+ * one format can never be accepted as another.
+ */
+export const ATTESTATION_VERSION = 2;
+
+/**
+ * Domain tag prepended to the Algorand attestation encoding
+ */
+const ALGORAND_ATTESTATION_TAG = `algorand-carbon-bridge/attestation/v${ATTESTATION_VERSION}`;
+
+/**
+ * Statement a verifier signs to authorize a mint or release
+ *
+ * Every field is either a mint/release argument or a deployment constant,
+ * so the contract that checks the signatures can rebuild it.
+ */
+export interface BridgeAttestation {
+  bridgeId: string;
+  sourceChain: string;
+  sourceChainId: string; // Algorand genesis ID or EVM chain ID
+  targetChain: string;
+  targetChainId: string; // Algorand genesis ID or EVM chain ID
+  sourceAssetId: string;
+  targetAssetId: string;
+  escrowAppId: number; // Algorand escrow application
+  bridgeContract: string; // EVM bridge contract address
+  sourceTransactionId: string;
+  receiver: string;
+  amount: string; // Net amount in target chain base units, as a decimal string
+  metadataHash: string; // Carbon credit metadata hash committed in the lock
+}
+
+/**
+ * EIP-712 types for the attestation
+ */
+export const ATTESTATION_TYPES: Record<string, ethers.TypedDataField[]> = {
+  BridgeAttestation: [
+    { name: "bridgeId", type: "string" },
+    { name: "sourceChain", type: "string" },
+    { name: "sourceChainId", type: "string" },
+    { name: "targetChain", type: "string" },
+    { name: "targetChainId", type: "string" },
+    { name: "sourceAssetId", type: "string" },
+    { name: "targetAssetId", type: "string" },
+    { name: "escrowAppId", type: "uint64" },
+    { name: "bridgeContract", type: "address" },
+    { name: "sourceTransactionId", type: "string" },
+    { name: "receiver", type: "string" },
+    { name: "amount", type: "uint256" },
+    { name: "metadataHash", type: "bytes32" },
+  ],
+};
+
+/**
+ * Get the EVM chain ID attestations are bound to
+ *
+ * @param config Bridge configuration
+ * @returns EVM chain ID
+ * @throws Error if the target chain ID is not configured
+ */
+function getTargetChainId(config: BridgeConfig): number {
+  const chainId = getExpectedChainId(config);
+  if (chainId === undefined) {
+    throw new Error(
+      `targetChain.chainId must be set to attest ${config.targetChain.chainType} bridges`
+    );
+  }
+  return chainId;
+}
+
+/**
+ * Get the identifier of a chain in this deployment
+ *
+ * @param chain Chain type
+ * @param config Bridge configuration
+ * @returns Algorand genesis ID or EVM chain ID
+ * @throws Error if the identifier is not configured
+ */
+function getChainId(chain: ChainType, config: BridgeConfig): string {
+  if (chain !== ChainType.ALGORAND) {
+    return getTargetChainId(config).toString();
+  }
+
+  if (!config.algorand.genesisId) {
+    throw new Error("algorand.genesisId must be set to attest bridges");
+  }
+  return config.algorand.genesisId;
+}
+
+/**
+ * Build the attestation for a bridge transaction
+ *
+ * @param transaction Bridge transaction
+ * @param config Bridge configuration
+ * @returns Attestation
+ * @throws Error if the Algorand genesis ID or target chain ID is not
+ * configured
+ */
+export function createAttestation(
+  transaction: BridgeTransaction,
+  config: BridgeConfig
+): BridgeAttestation {
+  return {
+    bridgeId: transaction.id,
+    sourceChain: transaction.sourceChain,
+    sourceChainId: getChainId(transaction.sourceChain, config),
+    targetChain: transaction.targetChain,
+    targetChainId: getChainId(transaction.targetChain, config),
+    sourceAssetId: transaction.sourceAssetId,
+    targetAssetId: transaction.targetAssetId,
+    escrowAppId: config.algorand.escrowAppId,
+    bridgeContract: ethers.getAddress(config.targetChain.bridgeContractAddress),
+    sourceTransactionId: transaction.sourceTransactionId || "",
+    receiver: transaction.receiver,
+    amount: getNetAssetAmount(transaction, config).baseUnits,
+    metadataHash: getMetadataHash(transaction),
+  };
+}
+
+/**
+ * Get the EIP-712 domain for attestations
+ *
+ * @param config Bridge configuration
+ * @returns Typed data domain
+ * @throws Error if the target chain ID is not configured
+ */
+export function getAttestationDomain(
+  config: BridgeConfig
+): ethers.TypedDataDomain {
+  return {
+    name: "AlgorandCarbonBridge",
+    version: ATTESTATION_VERSION.toString(),
+    chainId: getTargetChainId(config),
+    verifyingContract: ethers.getAddress(
+      config.targetChain.bridgeContractAddress
+    ),
+  };
+}
+
+/**
+ * Encode an attestation for Algorand `signBytes`
+ *
+ * The encoding is the domain tag followed by each field in EIP-712 type
+ * order: strings as a big-endian uint16 byte length and UTF-8 bytes,
+ * integers as big-endian uint64 (uint256 for the amount), the metadata hash
+ * as its 32 bytes, and the bridge contract as its 20 address bytes.
+ *
+ * @param attestation Attestation
+ * @returns Canonical bytes
+ */
+export function encodeAlgorandAttestation(
+  attestation: BridgeAttestation
+): Uint8Array {
+  const encodeString = (value: string) => {
+    const bytes = Buffer.from(value, "utf8");
+    if (bytes.length > 0xffff) {
+      throw new Error("Attestation field too long");
+    }
+    const length = Buffer.alloc(2);
+    length.writeUInt16BE(bytes.length);
+    return Buffer.concat([length, bytes]);
+  };
+
+  const parts: Buffer[] = [encodeString(ALGORAND_ATTESTATION_TAG)];
+
+  for (const { name, type } of ATTESTATION_TYPES.BridgeAttestation) {
+    const value = attestation[name as keyof BridgeAttestation];
+    switch (type) {
+      case "string":
+        parts.push(encodeString(String(value)));
+        break;
+      case "uint64":
+        parts.push(Buffer.from(ethers.getBytes(ethers.toBeHex(value, 8))));
+        break;
+      case "uint256":
+        parts.push(Buffer.from(ethers.getBytes(ethers.toBeHex(value, 32))));
+        break;
+      case "bytes32": {
+        const bytes = ethers.getBytes(String(value));
+        if (bytes.length !== 32) {
+          throw new Error(`Attestation field ${name} must be 32 bytes`);
+        }
+        parts.push(Buffer.from(bytes));
+        break;
+      }
+      case "address":
+        parts.push(
+          Buffer.from(ethers.getBytes(ethers.getAddress(String(value))))
+        );
+        break;
+      default:
+        throw new Error(`Unsupported attestation field type: ${type}`);
+    }
+  }
+
+  return new Uint8Array(Buffer.concat(parts));
+}
+
+/**
+ * Check whether two attestations describe the same statement
+ *
+ * @param a First attestation
+ * @param b Second attestation
+ * @returns True if both encode identically
+ */
+export function attestationsEqual(
+  a: BridgeAttestation,
+  b: BridgeAttestation
+): boolean {
+  try {
+    return Buffer.from(encodeAlgorandAttestation(a)).equals(
+      Buffer.from(encodeAlgorandAttestation(b))
+    );
+  } catch (error) {
+    return false;
+  }
+}
@@ -0,0 +1,121 @@
+import { join } from "path";
+import algosdk from "algosdk";
+import { CarbonCreditBridge } from "./bridge";
+import { AlgorandChainHandler } from "./chains/algorand";
+import { MockCarbonRegistryAdapter } from "./registry";
+import { BridgeEventType } from "./events";
+import { BridgeStatus, CarbonCreditMetadata, ChainType } from "./types";
+
+jest.mock("./amounts", () => ({
+  ...jest.requireActual("./amounts"),
+  resolveAssetDecimals: jest.fn().mockResolvedValue(undefined),
+}));
+
+/**
+ * Build lock metadata for serials of the fixture's 2019 block
+ */
+function metadata(start: number, end: number): CarbonCreditMetadata {
+  return {
+    projectId: "VCS-1234",
+    vintage: 2019,
+    standard: "Verra",
+    creditType: "VCU",
+    serialNumber: "VCS-1234-2019",
+    serialRange: { start, end },
+    issuanceDate: 1577836800,
+    retirementStatus: false,
+  };
+}
+
+describe("CarbonCreditBridge registry checks", () => {
+  const sender = algosdk.generateAccount().addr;
+  const receiver = "0x000000000000000000000000000000000000dEaD";
+  let bridge: CarbonCreditBridge;
+  let lock: jest.SpyInstance;
+  const onError = jest.fn();
+
+  beforeEach(async () => {
+    bridge = new CarbonCreditBridge({
+      algorand: {
+        token: "",
+        port: undefined,
+        escrowAddress: undefined,
+        nodeUrl: "http://localhost:4001",
+        indexerUrl: "http://localhost:8980",
+        escrowAppId: 1234,
+        carbonAssetId: 5678,
+        decimals: 0,
+      },
+      targetChain: {
+        chainType: ChainType.ETHEREUM,
+        rpcUrl: "http://localhost:8545",
+        bridgeContractAddress: "0x0000000000000000000000000000000000000002",
+        tokenContractAddress: "0x0000000000000000000000000000000000000003",
+        decimals: 18,
+      },
+      verifiers: [],
+      minVerifierSignatures: 0,
+      registries: [
+        MockCarbonRegistryAdapter.fromFile(
+          join(__dirname, "registry", "__fixtures__", "verra.json")
+        ),
+      ],
+      resumePending: false,
+    });
+    await bridge.ready;
+    bridge.on(BridgeEventType.ERROR, onError);
+
+    lock = jest
+      .spyOn(AlgorandChainHandler.prototype, "lockCarbonCredits")
+      .mockResolvedValue({
+        success: true,
+        transactionId: "",
+        bridgeId: "bridge-1",
+        status: BridgeStatus.PENDING,
+      });
+  });
+
+  afterEach(() => {
+    bridge.off(BridgeEventType.ERROR, onError);
+    jest.restoreAllMocks();
+  });
+
+  it("locks credits the registry lists as active", async () => {
+    const result = await bridge.bridgeToTargetChain(
+      sender,
+      receiver,
+      10,
+      metadata(1, 10)
+    );
+
+    expect(result.success).toBe(true);
+    expect(lock).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not lock credits the registry lists as retired", async () => {
+    const result = await bridge.bridgeToTargetChain(
+      sender,
+      receiver,
+      10,
+      metadata(101, 110)
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe("Serials 101-150 of VCS-1234-2019 are retired");
+    expect(lock).not.toHaveBeenCalled();
+    expect(onError).toHaveBeenCalled();
+  });
+
+  it("does not lock credits of a standard no registry issues", async () => {
+    const result = await bridge.bridgeToTargetChain(sender, receiver, 10, {
+      ...metadata(1, 10),
+      standard: "Gold Standard",
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe(
+      "No registry configured for Gold Standard credits"
+    );
+    expect(lock).not.toHaveBeenCalled();
+  });
+});
@@ -1,18 +1,61 @@
 import {
   BridgeConfig,
+  BridgeDirection,
   BridgeOptions,
+  BridgeQuote,
   BridgeResult,
   BridgeStatus,
+  BridgeStorageAdapter,
   BridgeTransaction,
+  ChainHandler,
   ChainType,
+  ChainWatcher,
   CarbonCreditMetadata,
+  RetirementDetails,
+  SerialRange,
+  SerialRangeRecord,
+  SerialRangeStatus,
+  StatusTransition,
+  VerifierSignature,
 } from "./types";
 import { AlgorandChainHandler } from "./chains/algorand";
-import { EthereumChainHandler } from "./chains/ethereum";
+import { AlgorandSigner } from "./chains/algorand/signers";
+import {
+  AlgorandLockWatcher,
+  AlgorandLockWatcherOptions,
+} from "./chains/algorand/watcher";
+import { EthereumBurnWatcherOptions } from "./chains/ethereum/watcher";
+import { createChainHandler } from "./chains/registry";
 import { bridgeEvents, BridgeEventType } from "./events";
-import { createBridgeConfig, loadConfigFromEnv } from "./config";
+import {
+  createBridgeConfig,
+  getChainConfig,
+  getTargetChainConfigs,
+  getTransactionConfig,
+  loadConfigFromEnv,
+} from "./config";
 import { generateBridgeId, formatAddress, validateCarbonMetadata } from "./utils";
-import { verifyTransaction, signTransaction } from "./verification";
+import { verifyRefund, verifyTransaction } from "./verification";
+import { InMemoryStorageAdapter } from "./storage";
+import { ReplayRegistry } from "./replay";
+import { SerialLedger } from "./serials";
+import { findRegistry, validateRegistryCredits } from "./registry";
+import {
+  getCompletedStatus,
+  transitionTransaction,
+  withInitialHistory,
+} from "./lifecycle";
+import { createQuote, getNetAssetAmount, getProtocolFee } from "./fees";
+import { resolveAssetDecimals, validateBridgeAmount } from "./amounts";
+import { getMetadataHash } from "./metadata";
+import {
+  TimeoutScheduler,
+  TimeoutSchedulerOptions,
+  getTimeoutBlocks,
+  isAwaitingCompletion,
+  isRefundable,
+  isRefundedOnSourceChain,
+} from "./timeouts";
 import { BigNumber } from "bignumber.js";
 
 /**
@@ -21,8 +64,20 @@ import { BigNumber } from "bignumber.js";
 export class CarbonCreditBridge {
   private config: BridgeConfig;
   private algorand: AlgorandChainHandler;
-  private targetChain: EthereumChainHandler;
+  private targetChains: Map<ChainType, ChainHandler> = new Map();
   private transactions: Map<string, BridgeTransaction> = new Map();
+  private storage: BridgeStorageAdapter;
+  private lockWatcher: AlgorandLockWatcher | null = null;
+  private burnWatchers: ChainWatcher[] = [];
+  private timeoutScheduler: TimeoutScheduler | null = null;
+  private replayRegistry: ReplayRegistry;
+  private serialLedger: SerialLedger;
+
+  /**
+   * Resolves once persisted transactions have been loaded and
+   * interrupted bridges have been resumed
+   */
+  public readonly ready: Promise<void>;
 
   /**
    * Constructor
@@ -39,20 +94,159 @@ export class CarbonCreditBridge {
       ...config,
     });
 
-    // Initialize chain handlers
+    // Initialize chain handlers, one per target chain
     this.algorand = new AlgorandChainHandler(this.config);
-
-    // Currently only supporting Ethereum as target chain
-    if (this.config.targetChain.chainType === ChainType.ETHEREUM) {
-      this.targetChain = new EthereumChainHandler(this.config);
-    } else {
-      throw new Error(
-        `Unsupported target chain: ${this.config.targetChain.chainType}`
+    for (const { chainType } of getTargetChainConfigs(this.config)) {
+      this.targetChains.set(
+        chainType,
+        createChainHandler(chainType, this.config)
       );
     }
 
+    this.storage = this.config.storage || new InMemoryStorageAdapter();
+    this.replayRegistry = new ReplayRegistry(this.storage);
+    this.serialLedger = new SerialLedger(this.storage, this.config);
+
     // Set up event listeners
     this.setupEventListeners();
+
+    // Reload persisted transactions and resume interrupted bridges
+    this.ready = this.restoreTransactions();
+  }
+
+  /**
+   * Get the handler of a target chain
+   *
+   * @param chain Target chain
+   * @returns Chain handler
+   * @throws Error if the chain is not configured
+   */
+  private getTargetHandler(chain: ChainType): ChainHandler {
+    const handler = this.targetChains.get(chain);
+    if (!handler) {
+      throw new Error(`Unsupported target chain: ${chain}`);
+    }
+    return handler;
+  }
+
+  /**
+   * Load persisted transactions into the cache and resume pending work
+   */
+  private async restoreTransactions(): Promise<void> {
+    let stored: BridgeTransaction[];
+    try {
+      stored = await this.storage.listTransactions();
+    } catch (error) {
+      console.error("Error loading persisted bridge transactions:", error);
+      return;
+    }
+
+    for (const tx of stored) {
+      this.transactions.set(tx.id, tx);
+    }
+
+    if (this.config.resumePending === false) {
+      return;
+    }
+
+    for (const tx of stored) {
+      if (
+        tx.sourceChain === ChainType.ALGORAND &&
+        (tx.status === BridgeStatus.PENDING ||
+          tx.status === BridgeStatus.LOCKED ||
+          tx.status === BridgeStatus.VERIFYING) &&
+        tx.sourceTransactionId
+      ) {
+        // Lock was recorded but nothing was minted yet
+        await this.handleLockEvent({ transaction: tx });
+      } else if (
+        tx.targetChain === ChainType.ALGORAND &&
+        (tx.status === BridgeStatus.BURNED ||
+          tx.status === BridgeStatus.VERIFYING)
+      ) {
+        // Burn was recorded but nothing was released or retired yet
+        await this.handleBurnEvent({ transaction: tx });
+      }
+    }
+  }
+
+  /**
+   * Store a transaction in the cache and persist it
+   *
+   * @param transaction Bridge transaction
+   */
+  private async saveTransaction(
+    transaction: BridgeTransaction
+  ): Promise<void> {
+    this.transactions.set(transaction.id, transaction);
+    try {
+      await this.storage.saveTransaction(transaction);
+    } catch (error) {
+      console.error(`Error persisting bridge transaction ${transaction.id}:`, error);
+    }
+  }
+
+  /**
+   * Move a transaction to a new status and persist it
+   *
+   * Fields of `transaction` are merged into the stored transaction, and the
+   * status change is checked against the lifecycle state machine and
+   * appended to the transaction's history. The serial ledger is updated
+   * for the new status.
+   *
+   * @param transaction Bridge transaction with updated fields
+   * @param status New status (defaults to the status of `transaction`)
+   * @param details Reason and on-chain transaction for the history entry
+   * @returns Updated transaction
+   * @throws Error if the status change is not allowed
+   */
+  private async updateStatus(
+    transaction: BridgeTransaction,
+    status: BridgeStatus = transaction.status,
+    details: Pick<StatusTransition, "reason" | "chainTransactionId"> = {}
+  ): Promise<BridgeTransaction> {
+    const existing = this.transactions.get(transaction.id);
+    const current = existing
+      ? {
+          ...existing,
+          ...transaction,
+          status: existing.status,
+          history: existing.history,
+        }
+      : withInitialHistory(transaction, details.reason);
+
+    const updated = transitionTransaction(current, status, details);
+    await this.saveTransaction(updated);
+    return this.recordSerials(updated);
+  }
+
+  /**
+   * Update the serial ledger for a transaction
+   *
+   * Ledger errors are logged rather than thrown, so bookkeeping never
+   * blocks a bridge.
+   *
+   * @param transaction Bridge transaction
+   * @returns Transaction with the serials assigned to or taken by it
+   */
+  private async recordSerials(
+    transaction: BridgeTransaction
+  ): Promise<BridgeTransaction> {
+    try {
+      const serialRanges = await this.serialLedger.record(transaction);
+      if (serialRanges && serialRanges.length > 0) {
+        const updated = { ...transaction, serialRanges };
+        await this.saveTransaction(updated);
+        return updated;
+      }
+    } catch (error) {
+      console.error(
+        `Error updating serial ledger for bridge ${transaction.id}:`,
+        error
+      );
+    }
+
+    return transaction;
   }
 
   /**
@@ -67,6 +261,10 @@ export class CarbonCreditBridge {
       BridgeEventType.BURN,
       this.handleBurnEvent.bind(this)
     );
+    bridgeEvents.onBridgeEvent(
+      BridgeEventType.RETIRE,
+      this.handleRetireEvent.bind(this)
+    );
     bridgeEvents.onBridgeEvent(
       BridgeEventType.VERIFICATION,
       this.handleVerificationEvent.bind(this)
@@ -83,19 +281,66 @@ export class CarbonCreditBridge {
    * @param event Bridge event with transaction details
    */
   private async handleLockEvent(event: any) {
-    const tx = event.transaction;
+    let tx: BridgeTransaction = event.transaction;
+    let claimed = false;
 
     try {
+      // Skip locks that were already minted for or are being processed
+      claimed = await this.replayRegistry.claim(tx);
+      if (!claimed) {
+        console.log(`Skipping already processed lock for bridge ${tx.id}`);
+        return;
+      }
+
       // Store transaction
-      this.transactions.set(tx.id, tx);
+      tx = await this.updateStatus(tx, tx.status, {
+        reason: "Lock confirmed on Algorand",
+        chainTransactionId: tx.sourceTransactionId,
+      });
+
+      // The mint may have happened in an earlier run
+      if (await this.getOnChainCompletion(tx)) {
+        await this.updateStatus(
+          { ...tx, pendingTransactionIds: undefined },
+          BridgeStatus.MINTED,
+          { reason: "Mint found on target chain" }
+        );
+        await this.replayRegistry.complete(tx);
+        return;
+      }
+
+      // A mint left pending in an earlier run keeps the claim until one of
+      // its transactions is mined
+      if (tx.pendingTransactionIds?.length) {
+        if (!(await this.resumePendingCompletion(tx))) {
+          return;
+        }
+        tx = this.transactions.get(tx.id) ?? tx;
+      }
 
       // Initiate verification
+      tx = await this.updateStatus(tx, BridgeStatus.VERIFYING, {
+        reason: "Collecting verifier signatures",
+      });
       const verification = await verifyTransaction(tx, this.config);
 
-      // If verified, mint tokens on target chain
+      // If verified, mint tokens on target chain with the verifier signatures
+      // A mint still pending keeps the claim, so the lock can be neither
+      // minted again nor refunded while it may still be mined
       if (verification.isValid) {
-        await this.mintOnTargetChain(tx);
+        const targetTransactionId = await this.mintOnTargetChain(
+          tx,
+          verification.signedBy || []
+        );
+        if (targetTransactionId) {
+          await this.replayRegistry.complete(tx, targetTransactionId);
+        }
       } else {
+        tx = await this.updateStatus(tx, BridgeStatus.LOCKED, {
+          reason: verification.error || "Verification failed",
+        });
+        await this.replayRegistry.release(tx);
+
         // Emit error event
         bridgeEvents.emitBridgeEvent(BridgeEventType.ERROR, tx, {
           error: "Verification failed",
@@ -105,6 +350,12 @@ export class CarbonCreditBridge {
     } catch (error: any) {
       console.error("Error handling lock event:", error);
 
+      // Allow a retry once the cause is resolved
+      if (claimed) {
+        await this.revertVerification(tx, BridgeStatus.LOCKED, error.message);
+        await this.replayRegistry.release(tx).catch(() => undefined);
+      }
+
       // Emit error event
       bridgeEvents.emitBridgeEvent(BridgeEventType.ERROR, tx, {
         error: error.message,
@@ -115,22 +366,78 @@ export class CarbonCreditBridge {
   /**
    * Handle burn event
    *
+   * Retirements follow the same path, but retire the escrowed units on
+   * Algorand instead of releasing them.
+   *
    * @param event Bridge event with transaction details
    */
   private async handleBurnEvent(event: any) {
-    const tx = event.transaction;
+    let tx: BridgeTransaction = event.transaction;
+    let claimed = false;
+    const retirement = Boolean(tx.retirement);
 
     try {
+      // Skip burns that were already released for or are being processed
+      claimed = await this.replayRegistry.claim(tx);
+      if (!claimed) {
+        console.log(`Skipping already processed burn for bridge ${tx.id}`);
+        return;
+      }
+
       // Store transaction
-      this.transactions.set(tx.id, tx);
+      tx = await this.updateStatus(tx, tx.status, {
+        reason: retirement
+          ? "Retirement confirmed on target chain"
+          : "Burn confirmed on target chain",
+        chainTransactionId: tx.sourceTransactionId,
+      });
+
+      // The release or retirement may have happened in an earlier run
+      const completed = await this.getOnChainCompletion(tx);
+      if (completed) {
+        await this.updateStatus(
+          { ...tx, pendingTransactionIds: undefined },
+          completed,
+          {
+            reason: retirement
+              ? "Retirement found on Algorand"
+              : "Release found on Algorand",
+          }
+        );
+        await this.replayRegistry.complete(tx);
+        return;
+      }
+
+      // A release or retirement left pending in an earlier run keeps the
+      // claim until its transaction is confirmed or dropped
+      if (tx.pendingTransactionIds?.length) {
+        if (!(await this.resumePendingCompletion(tx))) {
+          return;
+        }
+        tx = this.transactions.get(tx.id) ?? tx;
+      }
 
       // Initiate verification
+      tx = await this.updateStatus(tx, BridgeStatus.VERIFYING, {
+        reason: "Collecting verifier signatures",
+      });
       const verification = await verifyTransaction(tx, this.config);
 
-      // If verified, release tokens on Algorand
+      // If verified, release or retire tokens on Algorand. One still
+      // pending keeps the claim.
       if (verification.isValid) {
-        await this.releaseOnAlgorand(tx);
+        const targetTransactionId = retirement
+          ? await this.retireOnAlgorand(tx)
+          : await this.releaseOnAlgorand(tx);
+        if (targetTransactionId) {
+          await this.replayRegistry.complete(tx, targetTransactionId);
+        }
       } else {
+        tx = await this.updateStatus(tx, BridgeStatus.BURNED, {
+          reason: verification.error || "Verification failed",
+        });
+        await this.replayRegistry.release(tx);
+
         // Emit error event
         bridgeEvents.emitBridgeEvent(BridgeEventType.ERROR, tx, {
           error: "Verification failed",
@@ -140,6 +447,12 @@ export class CarbonCreditBridge {
     } catch (error: any) {
       console.error("Error handling burn event:", error);
 
+      // Allow a retry once the cause is resolved
+      if (claimed) {
+        await this.revertVerification(tx, BridgeStatus.BURNED, error.message);
+        await this.replayRegistry.release(tx).catch(() => undefined);
+      }
+
       // Emit error event
       bridgeEvents.emitBridgeEvent(BridgeEventType.ERROR, tx, {
         error: error.message,
@@ -147,6 +460,84 @@ export class CarbonCreditBridge {
     }
   }
 
+  /**
+   * Handle retire event
+   *
+   * RETIRE is emitted when a retirement is confirmed on the target chain
+   * and again once it is retired on Algorand; only the first needs work.
+   *
+   * @param event Bridge event with transaction details
+   */
+  private async handleRetireEvent(event: any) {
+    if (event.transaction.status !== BridgeStatus.BURNED) {
+      return;
+    }
+
+    await this.handleBurnEvent(event);
+  }
+
+  /**
+   * Return a transaction that failed during verification or minting to its
+   * confirmed status so it can be retried
+   *
+   * @param transaction Bridge transaction
+   * @param status Confirmed status of the source transaction
+   * @param reason Why the attempt failed
+   */
+  private async revertVerification(
+    transaction: BridgeTransaction,
+    status: BridgeStatus,
+    reason: string
+  ): Promise<void> {
+    const current = this.transactions.get(transaction.id);
+    if (current?.status !== BridgeStatus.VERIFYING) {
+      return;
+    }
+
+    try {
+      await this.updateStatus(transaction, status, { reason });
+    } catch (error) {
+      console.error(`Error reverting bridge transaction ${transaction.id}:`, error);
+    }
+  }
+
+  /**
+   * Check whether the mint, release or retirement for a transaction already
+   * happened
+   *
+   * @param transaction Bridge transaction
+   * @returns Status the target chain reports it completed with, or undefined
+   * if it has not happened. A release held for the receiver's opt-in is
+   * CLAIMABLE.
+   * @throws Error if the on-chain status cannot be determined
+   */
+  private async getOnChainCompletion(
+    transaction: BridgeTransaction
+  ): Promise<BridgeStatus | undefined> {
+    const releasesOnAlgorand = transaction.targetChain === ChainType.ALGORAND;
+    const status = releasesOnAlgorand
+      ? await this.algorand.getBridgeTransactionStatus(transaction.id)
+      : await this.getTargetHandler(
+          transaction.targetChain
+        ).getBridgeTransactionStatus(transaction.id);
+
+    if (status === BridgeStatus.FAILED) {
+      throw new Error(
+        `Unable to read on-chain status of bridge ${transaction.id}`
+      );
+    }
+
+    const completed = getCompletedStatus(transaction);
+    if (
+      status === completed ||
+      (completed === BridgeStatus.RELEASED &&
+        status === BridgeStatus.CLAIMABLE)
+    ) {
+      return status;
+    }
+    return undefined;
+  }
+
   /**
    * Handle verification event
    *
@@ -156,9 +547,12 @@ export class CarbonCreditBridge {
     // Update transaction with verification details
     const tx = this.transactions.get(event.transaction.id);
     if (tx) {
-      this.transactions.set(tx.id, {
+      // Status changes only go through updateStatus
+      await this.saveTransaction({
         ...tx,
         ...event.transaction,
+        status: tx.status,
+        history: tx.history,
       });
     }
   }
@@ -166,59 +560,194 @@ export class CarbonCreditBridge {
   /**
    * Handle timeout event
    *
+   * Refunds the sender on the source chain unless the mint or release
+   * landed after all.
+   *
    * @param event Bridge event with transaction details
    */
   private async handleTimeoutEvent(event: any) {
-    const tx = event.transaction;
+    let tx: BridgeTransaction =
+      this.transactions.get(event.transaction.id) ?? event.transaction;
+    let claimed = false;
 
-    // If transaction timed out, try to revert if possible
     try {
-      if (
-        tx.sourceChain === ChainType.ALGORAND &&
-        tx.status === BridgeStatus.LOCKED
-      ) {
-        // Release locked tokens back to sender
-        await this.algorand.releaseCarbonCredits(
-          tx.id,
-          tx.sender,
-          tx.amount.toNumber(),
-          { timeoutMs: 30000 }
-        );
+      if (!isAwaitingCompletion(tx)) {
+        return;
       }
 
-      // Update transaction status
-      tx.status = BridgeStatus.FAILED;
-      this.transactions.set(tx.id, tx);
+      // A pending mint, release or retirement holds the claim until one of
+      // its transactions is confirmed; it is only refunded once it will not
+      // land
+      if (tx.pendingTransactionIds?.length) {
+        if (await this.resumePendingCompletion(tx)) {
+          await this.replayRegistry.release(tx);
+
+          // Retirements are never refunded, so a dropped one is retried
+          if (tx.retirement) {
+            await this.handleBurnEvent({
+              transaction: this.transactions.get(tx.id) ?? tx,
+            });
+          }
+        }
+        return;
+      }
+
+      // The refund takes the same claim as the mint or release, so the two
+      // can never both go through
+      claimed = await this.replayRegistry.claim(tx);
+      if (!claimed) {
+        console.log(`Skipping timeout for already processed bridge ${tx.id}`);
+        return;
+      }
+
+      const completed = await this.getOnChainCompletion(tx);
+      if (completed) {
+        await this.updateStatus(tx, completed, {
+          reason: "Completed on-chain after the timeout",
+        });
+        await this.replayRegistry.complete(tx);
+        return;
+      }
+
+      // The refund may have happened in an earlier run
+      const refunded = await isRefundedOnSourceChain(tx, this.config);
+      if (!refunded && !(await isRefundable(tx, this.config))) {
+        await this.replayRegistry.release(tx);
+        return;
+      }
+
+      tx = await this.updateStatus(tx, BridgeStatus.EXPIRED, {
+        reason: `Not completed within ${getTimeoutBlocks(this.config)} blocks`,
+      });
+
+      if (refunded) {
+        await this.updateStatus(tx, BridgeStatus.REFUNDED, {
+          reason: "Refund found on-chain",
+        });
+        await this.replayRegistry.complete(tx);
+        return;
+      }
+
+      const refundTransactionId = await this.refundOnSourceChain(tx);
+      await this.replayRegistry.complete(tx, refundTransactionId);
     } catch (error: any) {
       console.error("Error handling timeout:", error);
+
+      // Allow a retry on the next timeout check
+      if (claimed) {
+        await this.replayRegistry.release(tx).catch(() => undefined);
+      }
+
+      bridgeEvents.emitBridgeEvent(BridgeEventType.ERROR, tx, {
+        error: error.message,
+      });
     }
   }
 
+  /**
+   * Refund a timed out transaction to its sender on the source chain
+   *
+   * @param transaction Timed out bridge transaction
+   * @returns Refund transaction ID
+   */
+  private async refundOnSourceChain(
+    transaction: BridgeTransaction
+  ): Promise<string> {
+    let result: BridgeResult;
+
+    if (transaction.sourceChain === ChainType.ALGORAND) {
+      // Return the locked credits from the escrow
+      result = await this.algorand.refundLockedCredits(
+        transaction.id,
+        transaction.sender,
+        transaction.amount,
+        {
+          waitForConfirmation: true,
+          targetChain: transaction.targetChain,
+        }
+      );
+    } else {
+      // Re-mint the burned tokens, authorized by the verifiers
+      const verification = await verifyRefund(transaction, this.config);
+      if (!verification.isValid) {
+        throw new Error(verification.error || "Refund verification failed");
+      }
+
+      result = await this.getTargetHandler(
+        transaction.sourceChain
+      ).refundWrappedCarbonCredits(
+        transaction.id,
+        transaction.sender,
+        transaction.amount,
+        verification.signedBy || []
+      );
+      await this.recordReplacements(transaction, result);
+    }
+
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+
+    await this.updateStatus(
+      { ...transaction, refundTransactionId: result.transactionId },
+      BridgeStatus.REFUNDED,
+      {
+        reason: "Refunded to sender",
+        chainTransactionId: result.transactionId,
+      }
+    );
+    return result.transactionId;
+  }
+
   /**
    * Mint tokens on target chain
    *
    * @param transaction Bridge transaction
+   * @param verifierSignatures Verifier signatures authorizing the mint
+   * @returns Mint transaction hash, or undefined if the mint is still
+   * pending and stays VERIFYING
    */
   private async mintOnTargetChain(
-    transaction: BridgeTransaction
-  ): Promise<void> {
+    transaction: BridgeTransaction,
+    verifierSignatures: VerifierSignature[]
+  ): Promise<string | undefined> {
     try {
       // Execute mint operation on target chain
-      const result = await this.targetChain.mintWrappedCarbonCredits(
+      const result = await this.getTargetHandler(
+        transaction.targetChain
+      ).mintWrappedCarbonCredits(
         transaction.id,
         transaction.receiver,
-        transaction.amount.toString(),
+        transaction.amount,
         transaction.sourceTransactionId || "",
-        { waitForConfirmation: true }
+        { waitForConfirmation: true },
+        verifierSignatures,
+        getMetadataHash(transaction)
       );
+      await this.recordReplacements(transaction, result);
+
+      if (await this.trackPendingCompletion(transaction, result)) {
+        return undefined;
+      }
 
       // Update transaction with target chain details
       if (result.success) {
-        this.transactions.set(transaction.id, {
-          ...transaction,
-          status: BridgeStatus.MINTED,
-          targetTransactionId: result.transactionId,
-        });
+        await this.updateStatus(
+          {
+            ...transaction,
+            targetTransactionId: result.transactionId,
+            targetAmount: getNetAssetAmount(
+              transaction,
+              getTransactionConfig(this.config, transaction)
+            ),
+          },
+          BridgeStatus.MINTED,
+          {
+            reason: "Minted on target chain",
+            chainTransactionId: result.transactionId,
+          }
+        );
+        return result.transactionId;
       } else {
         throw new Error(result.error);
       }
@@ -228,30 +757,185 @@ export class CarbonCreditBridge {
     }
   }
 
+  /**
+   * Track a mint, release or retirement that was submitted but not
+   * confirmed until one of its transactions lands
+   *
+   * @param transaction Bridge transaction
+   * @param result Result of the mint, release or retirement
+   * @returns True if the result is still pending
+   */
+  private async trackPendingCompletion(
+    transaction: BridgeTransaction,
+    result: BridgeResult
+  ): Promise<boolean> {
+    if (!result.success || result.status !== BridgeStatus.PENDING) {
+      return false;
+    }
+
+    await this.updateStatus({
+      ...transaction,
+      targetTransactionId: result.transactionId,
+      pendingTransactionIds: result.pendingTransactionIds ?? [
+        result.transactionId,
+      ],
+    });
+    console.error(
+      `Bridge ${transaction.id} still pending on ${transaction.targetChain}` +
+        (result.error ? `: ${result.error}` : "")
+    );
+    return true;
+  }
+
+  /**
+   * Settle a pending transaction and complete its claim once it landed
+   *
+   * @param transaction Bridge transaction with pending transactions
+   * @returns True if it will not land and can be tried again, false if it
+   * landed or is still pending
+   */
+  private async resumePendingCompletion(
+    transaction: BridgeTransaction
+  ): Promise<boolean> {
+    const outcome = await this.settlePendingCompletion(transaction);
+    if (outcome === BridgeStatus.FAILED) {
+      return true;
+    }
+    if (outcome !== BridgeStatus.PENDING) {
+      await this.replayRegistry.complete(transaction);
+    }
+    return false;
+  }
+
+  /**
+   * Settle a mint, release or retirement left pending
+   *
+   * Once one of its transactions is confirmed, the transaction moves to the
+   * status it completed with. If the mint was cancelled or reverted, or the
+   * release or retirement was dropped, it returns to its confirmed source
+   * status so it can be retried or refunded.
+   *
+   * @param transaction Bridge transaction with pending transactions
+   * @returns Completed status, FAILED if it will not land, or PENDING
+   */
+  private async settlePendingCompletion(
+    transaction: BridgeTransaction
+  ): Promise<BridgeStatus> {
+    const transactionIds = transaction.pendingTransactionIds ?? [];
+    const releasesOnAlgorand = transaction.targetChain === ChainType.ALGORAND;
+    const { status, transactionId } = releasesOnAlgorand
+      ? await this.algorand.getPendingReleaseStatus(
+          transaction.id,
+          transactionIds
+        )
+      : await this.getTargetHandler(
+          transaction.targetChain
+        ).getPendingMintStatus(transactionIds);
+
+    if (status === BridgeStatus.FAILED) {
+      await this.updateStatus(
+        { ...transaction, pendingTransactionIds: undefined },
+        releasesOnAlgorand ? BridgeStatus.BURNED : BridgeStatus.LOCKED,
+        {
+          reason: releasesOnAlgorand
+            ? "Pending transaction was dropped by Algorand"
+            : "Pending mint was cancelled or reverted",
+          chainTransactionId: transactionId,
+        }
+      );
+    } else if (status !== BridgeStatus.PENDING) {
+      await this.updateStatus(
+        {
+          ...transaction,
+          targetTransactionId: transactionId ?? transaction.targetTransactionId,
+          pendingTransactionIds: undefined,
+          targetAmount: getNetAssetAmount(
+            transaction,
+            getTransactionConfig(this.config, transaction)
+          ),
+        },
+        status,
+        {
+          reason: "Pending transaction confirmed on target chain",
+          chainTransactionId: transactionId,
+        }
+      );
+    }
+
+    return status;
+  }
+
+  /**
+   * Record the stuck mint transactions the target chain handler replaced
+   *
+   * @param transaction Bridge transaction
+   * @param result Mint result
+   */
+  private async recordReplacements(
+    transaction: BridgeTransaction,
+    result: BridgeResult
+  ): Promise<void> {
+    if (!result.replacements?.length) {
+      return;
+    }
+
+    const current = this.transactions.get(transaction.id) ?? transaction;
+    await this.updateStatus(
+      {
+        ...current,
+        replacements: [...(current.replacements ?? []), ...result.replacements],
+      },
+      current.status
+    );
+  }
+
   /**
    * Release tokens on Algorand
    *
+   * Releases to a receiver that has not opted into the carbon asset are
+   * held in the escrow, and the transaction becomes CLAIMABLE.
+   *
    * @param transaction Bridge transaction
+   * @returns Release transaction ID, or undefined if the release is still
+   * pending and stays VERIFYING
    */
   private async releaseOnAlgorand(
     transaction: BridgeTransaction
-  ): Promise<void> {
+  ): Promise<string | undefined> {
     try {
       // Execute release operation on Algorand
       const result = await this.algorand.releaseCarbonCredits(
         transaction.id,
         transaction.receiver,
-        transaction.amount.toNumber(),
-        { waitForConfirmation: true }
+        transaction.amount,
+        { waitForConfirmation: true, targetChain: transaction.sourceChain }
       );
 
+      if (await this.trackPendingCompletion(transaction, result)) {
+        return undefined;
+      }
+
       // Update transaction with Algorand details
       if (result.success) {
-        this.transactions.set(transaction.id, {
-          ...transaction,
-          status: BridgeStatus.RELEASED,
-          targetTransactionId: result.transactionId,
-        });
+        const claimable = result.status === BridgeStatus.CLAIMABLE;
+        await this.updateStatus(
+          {
+            ...transaction,
+            targetTransactionId: result.transactionId,
+            targetAmount: getNetAssetAmount(
+              transaction,
+              getTransactionConfig(this.config, transaction)
+            ),
+          },
+          claimable ? BridgeStatus.CLAIMABLE : BridgeStatus.RELEASED,
+          {
+            reason: claimable
+              ? "Held in escrow until the receiver opts in"
+              : "Released on Algorand",
+            chainTransactionId: result.transactionId,
+          }
+        );
+        return result.transactionId;
       } else {
         throw new Error(result.error);
       }
@@ -261,14 +945,96 @@ export class CarbonCreditBridge {
     }
   }
 
+  /**
+   * Retire the escrowed units of a retirement on Algorand
+   *
+   * @param transaction Bridge transaction of the retirement
+   * @returns Retire transaction ID, or undefined if the retirement is still
+   * pending and stays VERIFYING
+   */
+  private async retireOnAlgorand(
+    transaction: BridgeTransaction
+  ): Promise<string | undefined> {
+    try {
+      const result = await this.algorand.retireEscrowedCredits(
+        transaction.id,
+        transaction.amount,
+        transaction.retirement!,
+        { waitForConfirmation: true, targetChain: transaction.sourceChain }
+      );
+
+      if (await this.trackPendingCompletion(transaction, result)) {
+        return undefined;
+      }
+
+      if (result.success) {
+        await this.updateStatus(
+          {
+            ...transaction,
+            targetTransactionId: result.transactionId,
+            targetAmount: getNetAssetAmount(
+              transaction,
+              getTransactionConfig(this.config, transaction)
+            ),
+          },
+          BridgeStatus.RETIRED,
+          {
+            reason: "Retired on Algorand",
+            chainTransactionId: result.transactionId,
+          }
+        );
+        return result.transactionId;
+      } else {
+        throw new Error(result.error);
+      }
+    } catch (error: any) {
+      console.error("Error retiring on Algorand:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Confirm credits with the registry of their standard before a lock
+   *
+   * Skipped when no registries are configured.
+   *
+   * @param metadata Carbon credit metadata of the lock
+   * @param serials Serials the lock will be assigned
+   * @throws Error if no registry issues the standard or the registry
+   * rejects the credits
+   */
+  private async checkRegistry(
+    metadata: CarbonCreditMetadata,
+    serials: SerialRange[]
+  ): Promise<void> {
+    const registries = this.config.registries;
+    if (!registries?.length) {
+      return;
+    }
+
+    const registry = findRegistry(registries, metadata.standard);
+    if (!registry) {
+      throw new Error(`No registry configured for ${metadata.standard} credits`);
+    }
+
+    const error = await validateRegistryCredits(registry, metadata, serials);
+    if (error) {
+      throw new Error(error);
+    }
+  }
+
   /**
    * Bridge carbon credits from Algorand to target chain
    *
+   * The credits are minted on `options.targetChain`, or on the primary
+   * target chain if it is not set.
+   *
    * @param sender Algorand sender address
    * @param receiver Target chain receiver address
    * @param amount Amount of carbon credits to bridge
    * @param metadata Carbon credit metadata
    * @param options Bridge options
+   * @param signer Signer for the sender; without one the unsigned lock group is returned
    * @returns Bridge operation result
    */
   public async bridgeToTargetChain(
@@ -276,29 +1042,40 @@ export class CarbonCreditBridge {
     receiver: string,
     amount: number | string | BigNumber,
     metadata?: CarbonCreditMetadata,
-    options?: BridgeOptions
+    options?: BridgeOptions,
+    signer?: AlgorandSigner
   ): Promise<BridgeResult> {
+    const targetChain =
+      options?.targetChain ?? this.config.targetChain.chainType;
+
     try {
       // Input validation
       if (!sender) throw new Error("Sender address is required");
       if (!receiver) throw new Error("Receiver address is required");
       if (!amount) throw new Error("Amount is required");
       
-      // Validate amount is positive
-      const bnAmount = new BigNumber(amount);
-      if (bnAmount.isNaN() || !bnAmount.isPositive()) {
-        throw new Error("Amount must be a positive number");
+      const config = getChainConfig(this.config, targetChain);
+
+      // Validate the amount can be bridged exactly with both chains' decimals
+      await resolveAssetDecimals(config);
+      const amountError = validateBridgeAmount(amount, config);
+      if (amountError) {
+        throw new Error(amountError);
       }
 
       // Format addresses
       const formattedSender = formatAddress(sender, ChainType.ALGORAND);
       const formattedReceiver = formatAddress(
         receiver,
-        this.config.targetChain.chainType
+        config.targetChain.chainType
       );
 
-      // Convert amount to number (for Algorand)
-      const amountValue = bnAmount.toNumber();
+      // Credits can only be checked with a registry if they are described
+      if (!metadata && this.config.registries?.length) {
+        throw new Error(
+          "Metadata is required to check credits with the registry"
+        );
+      }
 
       // Validate metadata if provided
       if (metadata) {
@@ -306,19 +1083,41 @@ export class CarbonCreditBridge {
         if (metadataError) {
           throw new Error(`Invalid metadata: ${metadataError}`);
         }
+
+        if (metadata.retirementStatus) {
+          throw new Error("Retired carbon credits cannot be bridged");
+        }
+
+        // Reject locks whose serials are already wrapped or retired
+        const serials = await this.serialLedger.checkAvailable(
+          metadata,
+          amount
+        );
+
+        // Confirm the project and serials with the registry
+        await this.checkRegistry(metadata, serials);
       }
 
       // Lock carbon credits on Algorand
       const result = await this.algorand.lockCarbonCredits(
         formattedSender,
         formattedReceiver,
-        amountValue,
+        amount,
         {
           ...options,
-          metadata
-        }
+          metadata,
+          targetChain,
+        },
+        signer
       );
 
+      // Record the pending bridge until the lock is confirmed on-chain
+      if (result.success && result.receipt?.transaction) {
+        await this.updateStatus(result.receipt.transaction, undefined, {
+          reason: "Lock created",
+        });
+      }
+
       return result;
     } catch (error: any) {
       console.error("Error bridging to target chain:", error);
@@ -345,9 +1144,12 @@ export class CarbonCreditBridge {
         {
           id: generateBridgeId(),
           sourceChain: ChainType.ALGORAND,
-          targetChain: this.config.targetChain.chainType,
+          targetChain,
           sourceAssetId: this.config.algorand.carbonAssetId.toString(),
-          targetAssetId: this.config.targetChain.tokenContractAddress,
+          targetAssetId:
+            getTargetChainConfigs(this.config).find(
+              (candidate) => candidate.chainType === targetChain
+            )?.tokenContractAddress ?? "",
           amount: new BigNumber(0),
           sender: sender || "unknown",
           receiver: receiver || "unknown",
@@ -368,6 +1170,9 @@ export class CarbonCreditBridge {
   /**
    * Bridge wrapped carbon credits from target chain back to Algorand
    *
+   * The credits are burned on `options.targetChain`, or on the primary
+   * target chain if it is not set.
+   *
    * @param sender Target chain sender address
    * @param receiver Algorand receiver address
    * @param amount Amount of wrapped carbon credits to bridge back
@@ -381,24 +1186,38 @@ export class CarbonCreditBridge {
     options?: BridgeOptions
   ): Promise<BridgeResult> {
     try {
+      const targetChain =
+        options?.targetChain ?? this.config.targetChain.chainType;
+      const config = getChainConfig(this.config, targetChain);
+
       // Format addresses
-      const formattedSender = formatAddress(
-        sender,
-        this.config.targetChain.chainType
-      );
+      const formattedSender = formatAddress(sender, targetChain);
       const formattedReceiver = formatAddress(receiver, ChainType.ALGORAND);
 
-      // Convert amount to string (for Ethereum)
-      const amountValue = new BigNumber(amount).toString();
+      // Validate the amount can be bridged exactly with both chains' decimals
+      await resolveAssetDecimals(config);
+      const amountError = validateBridgeAmount(amount, config);
+      if (amountError) {
+        throw new Error(amountError);
+      }
 
       // Burn wrapped tokens on target chain
-      const result = await this.targetChain.burnWrappedCarbonCredits(
+      const result = await this.getTargetHandler(
+        targetChain
+      ).burnWrappedCarbonCredits(
         formattedSender,
         formattedReceiver,
-        amountValue,
+        amount,
         options
       );
 
+      // Record the pending bridge until the burn is confirmed on-chain
+      if (result.success && result.receipt?.transaction) {
+        await this.updateStatus(result.receipt.transaction, undefined, {
+          reason: "Burn created",
+        });
+      }
+
       return result;
     } catch (error: any) {
       console.error("Error bridging to Algorand:", error);
@@ -412,6 +1231,262 @@ export class CarbonCreditBridge {
     }
   }
 
+  /**
+   * Retire wrapped carbon credits
+   *
+   * The wrapped tokens are burned on the target chain with the beneficiary
+   * and reason. Once the burn is confirmed and verified, the matching units
+   * are permanently retired in the Algorand escrow and can no longer be
+   * released. Retirements are not charged a protocol fee and are never
+   * refunded.
+   *
+   * @param sender Target chain address holding the wrapped credits
+   * @param amount Amount of wrapped carbon credits to retire
+   * @param retirement Beneficiary and reason of the retirement
+   * @param targetChain Chain the credits are wrapped on (defaults to the
+   * primary target chain)
+   * @returns Bridge operation result with the unsigned retire transaction
+   */
+  public async retireCredits(
+    sender: string,
+    amount: number | string | BigNumber,
+    retirement: RetirementDetails,
+    targetChain: ChainType = this.config.targetChain.chainType
+  ): Promise<BridgeResult> {
+    try {
+      if (!retirement?.beneficiary) {
+        throw new Error("Retirement beneficiary is required");
+      }
+      if (!retirement.reason) {
+        throw new Error("Retirement reason is required");
+      }
+
+      const config = getChainConfig(this.config, targetChain);
+      const formattedSender = formatAddress(sender, targetChain);
+
+      // Validate the amount can be retired exactly with both chains' decimals
+      await resolveAssetDecimals(config);
+      const amountError = validateBridgeAmount(amount, config);
+      if (amountError) {
+        throw new Error(amountError);
+      }
+
+      // Burn wrapped tokens on target chain for retirement
+      const result = await this.getTargetHandler(
+        targetChain
+      ).retireWrappedCarbonCredits(
+        formattedSender,
+        amount,
+        {
+          beneficiary: retirement.beneficiary,
+          reason: retirement.reason,
+        }
+      );
+
+      // Record the pending retirement until it is confirmed on-chain
+      if (result.success && result.receipt?.transaction) {
+        await this.updateStatus(result.receipt.transaction, undefined, {
+          reason: "Retirement created",
+        });
+      }
+
+      return result;
+    } catch (error: any) {
+      console.error("Error retiring carbon credits:", error);
+      return {
+        success: false,
+        transactionId: "",
+        bridgeId: "",
+        status: BridgeStatus.FAILED,
+        error: error.message || "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Claim carbon credits held in the escrow for their receiver
+   *
+   * A release to a receiver that had not opted into the carbon asset is
+   * held in the escrow and the transaction stays CLAIMABLE. Once the
+   * receiver has opted in, the operator submits the claim. Until then, the
+   * result carries the unsigned opt-in and claim group for the receiver to
+   * sign, unless the receiver's signer is given.
+   *
+   * @param bridgeId Bridge transaction ID of the held release
+   * @param signer Signer for the receiver
+   * @returns Bridge operation result
+   */
+  public async claimReleasedCredits(
+    bridgeId: string,
+    signer?: AlgorandSigner
+  ): Promise<BridgeResult> {
+    try {
+      const tx = this.transactions.get(bridgeId);
+      if (!tx || tx.status !== BridgeStatus.CLAIMABLE) {
+        throw new Error(`Bridge ${bridgeId} has no claimable release`);
+      }
+
+      // The receiver may have claimed directly on-chain
+      const onChainStatus =
+        await this.algorand.getBridgeTransactionStatus(bridgeId);
+      if (onChainStatus === BridgeStatus.RELEASED) {
+        await this.updateStatus(tx, BridgeStatus.RELEASED, {
+          reason: "Claim found on Algorand",
+        });
+        return {
+          success: true,
+          transactionId: "",
+          bridgeId,
+          status: BridgeStatus.RELEASED,
+        };
+      }
+
+      const result = await this.algorand.claimReleasedCredits(
+        bridgeId,
+        tx.receiver,
+        { waitForConfirmation: true },
+        signer
+      );
+
+      if (result.success && result.status === BridgeStatus.RELEASED) {
+        await this.updateStatus(tx, BridgeStatus.RELEASED, {
+          reason: "Claimed by the receiver",
+          chainTransactionId: result.transactionId,
+        });
+      }
+
+      return result;
+    } catch (error: any) {
+      console.error("Error claiming carbon credits:", error);
+      return {
+        success: false,
+        transactionId: "",
+        bridgeId,
+        status: BridgeStatus.FAILED,
+        error: error.message || "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Quote the fees for bridging an amount
+   *
+   * Both directions take two Algorand transactions (the lock group, or the
+   * release call and its inner transfer) and one bridge contract call.
+   *
+   * @param direction Bridge direction
+   * @param amount Gross amount to lock or burn on the source chain
+   * @param targetChain Chain the credits are minted or burned on (defaults
+   * to the primary target chain)
+   * @returns Gross amount, protocol fee, estimated network fees and net amount
+   */
+  public async quoteBridge(
+    direction: BridgeDirection,
+    amount: number | string | BigNumber,
+    targetChain: ChainType = this.config.targetChain.chainType
+  ): Promise<BridgeQuote> {
+    const config = getChainConfig(this.config, targetChain);
+    await resolveAssetDecimals(config);
+
+    // Network fees are estimates; a quote is still returned without them
+    const [algorand, ethereum] = await Promise.all([
+      this.algorand.estimateNetworkFee(2).catch((error) => {
+        console.error("Error estimating Algorand network fee:", error);
+        return undefined;
+      }),
+      this.getTargetHandler(targetChain).estimateNetworkFee().catch((error) => {
+        console.error("Error estimating target chain network fee:", error);
+        return undefined;
+      }),
+    ]);
+
+    return createQuote(direction, amount, config, { algorand, ethereum });
+  }
+
+  /**
+   * Get the protocol fees accrued by completed transactions
+   *
+   * @returns Total protocol fee of minted and released (or claimable)
+   * transactions
+   */
+  public getAccruedFees(): BigNumber {
+    return this.listTransactions()
+      .filter(
+        (tx) =>
+          tx.status === BridgeStatus.MINTED ||
+          tx.status === BridgeStatus.RELEASED ||
+          tx.status === BridgeStatus.CLAIMABLE
+      )
+      .reduce(
+        (total, tx) =>
+          total.plus(
+            tx.protocolFee ??
+              getProtocolFee(tx, getTransactionConfig(this.config, tx))
+          ),
+        new BigNumber(0)
+      );
+  }
+
+  /**
+   * Start watching the source chains for confirmed bridge transactions
+   *
+   * Every target chain is watched for burns. `targetChain` options apply
+   * to all of them, and `targetChains` overrides them per chain.
+   *
+   * Also starts the timeout scheduler, which refunds transactions that are
+   * not completed within `timeoutBlocks` of their source transaction.
+   *
+   * @param options Watcher options per chain and timeout scheduler options
+   * @returns The bridge instance for chaining
+   */
+  public startWatching(
+    options: {
+      algorand?: AlgorandLockWatcherOptions;
+      targetChain?: EthereumBurnWatcherOptions;
+      targetChains?: Partial<Record<ChainType, EthereumBurnWatcherOptions>>;
+      timeouts?: TimeoutSchedulerOptions;
+    } = {}
+  ): this {
+    if (!this.lockWatcher) {
+      this.lockWatcher = new AlgorandLockWatcher(
+        this.config,
+        this.storage,
+        options.algorand
+      );
+    }
+    if (this.burnWatchers.length === 0) {
+      this.burnWatchers = [...this.targetChains].map(([chainType, handler]) =>
+        handler.createWatcher(this.storage, {
+          ...options.targetChain,
+          ...options.targetChains?.[chainType],
+        })
+      );
+    }
+    if (!this.timeoutScheduler) {
+      this.timeoutScheduler = new TimeoutScheduler(
+        this.config,
+        this.storage,
+        options.timeouts
+      );
+    }
+    this.lockWatcher.start();
+    this.burnWatchers.forEach((watcher) => watcher.start());
+    this.timeoutScheduler.start();
+    return this;
+  }
+
+  /**
+   * Stop watching the source chains
+   *
+   * @returns The bridge instance for chaining
+   */
+  public stopWatching(): this {
+    this.lockWatcher?.stop();
+    this.burnWatchers.forEach((watcher) => watcher.stop());
+    this.timeoutScheduler?.stop();
+    return this;
+  }
+
   /**
    * Get transaction by ID
    *
@@ -431,6 +1506,19 @@ export class CarbonCreditBridge {
     return Array.from(this.transactions.values());
   }
 
+  /**
+   * Get the status history of a transaction
+   *
+   * @param bridgeId Bridge transaction ID
+   * @returns Status transitions, oldest first, or undefined if not found
+   */
+  public getTransactionHistory(
+    bridgeId: string
+  ): StatusTransition[] | undefined {
+    const tx = this.transactions.get(bridgeId);
+    return tx ? tx.history || [] : undefined;
+  }
+
   /**
    * Get transaction status
    *
@@ -444,7 +1532,7 @@ export class CarbonCreditBridge {
       return tx.status;
     }
 
-    // If not found locally, check both chains
+    // If not found locally, check every chain
     try {
       // Try Algorand first
       const algorandStatus = await this.algorand.getBridgeTransactionStatus(
@@ -454,14 +1542,53 @@ export class CarbonCreditBridge {
         return algorandStatus;
       }
 
-      // If not found or failed, try target chain
-      return await this.targetChain.getBridgeTransactionStatus(bridgeId);
+      // If not found or failed, try the target chains. Unknown bridges
+      // read as pending, so keep looking for one that knows it
+      let status = BridgeStatus.FAILED;
+      for (const handler of this.targetChains.values()) {
+        const chainStatus = await handler.getBridgeTransactionStatus(bridgeId);
+        if (chainStatus === BridgeStatus.PENDING) {
+          status = chainStatus;
+        } else if (chainStatus !== BridgeStatus.FAILED) {
+          return chainStatus;
+        }
+      }
+      return status;
     } catch (error) {
       console.error("Error getting transaction status:", error);
       return BridgeStatus.FAILED;
     }
   }
 
+  /**
+   * Find where a registry serial number currently is
+   *
+   * @param block Registry serial block
+   * @param serial Serial number
+   * @returns Ledger record containing the serial, or undefined if it was
+   * never bridged
+   */
+  public async locateSerial(
+    block: string,
+    serial: number
+  ): Promise<SerialRangeRecord | undefined> {
+    return this.serialLedger.locate(block, serial);
+  }
+
+  /**
+   * List the serial ranges of bridged credits
+   *
+   * @param block Registry serial block (all blocks if omitted)
+   * @param status Only ranges with this status
+   * @returns Serial ledger records in serial order
+   */
+  public async listSerialRanges(
+    block?: string,
+    status?: SerialRangeStatus
+  ): Promise<SerialRangeRecord[]> {
+    return this.serialLedger.listRanges(block, status);
+  }
+
   /**
    * Listen for bridge events
    *
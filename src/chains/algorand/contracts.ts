@@ -111,6 +111,26 @@ handle_noop:
   ==
   bnz handle_verify
   
+  txna ApplicationArgs 0
+  byte "retire"
+  ==
+  bnz handle_retire
+  
+  txna ApplicationArgs 0
+  byte "hold"
+  ==
+  bnz handle_hold
+  
+  txna ApplicationArgs 0
+  byte "claim"
+  ==
+  bnz handle_claim
+  
+  txna ApplicationArgs 0
+  byte "refund"
+  ==
+  bnz handle_refund
+  
   // Unknown operation
   err
 
@@ -177,6 +197,37 @@ handle_lock:
   byte "locked"
   app_local_put
   
+  // Store the carbon credit metadata hash, if committed
+  txn NumAppArgs
+  int 4
+  <
+  bnz lock_log
+  
+  txna ApplicationArgs 3
+  len
+  int 32
+  ==
+  assert
+  
+  dup
+  byte "_metadata"
+  concat
+  txna ApplicationArgs 3
+  app_local_put
+  
+  // Store the target chain, if named
+  txn NumAppArgs
+  int 5
+  <
+  bnz lock_log
+  
+  dup
+  byte "_target_chain"
+  concat
+  txna ApplicationArgs 4
+  app_local_put
+  
+lock_log:
   // Log lock event
   byte "lock_complete:"
   txna ApplicationArgs 1
@@ -235,6 +286,23 @@ handle_release:
   concat
   app_global_get
   
+  // Retired and held units stay in the escrow and are never released
+  global CurrentApplicationAddress
+  byte "carbon_asset_id"
+  app_global_get
+  asset_holding_get AssetBalance
+  assert
+  txna ApplicationArgs 3
+  btoi
+  -
+  byte "retired_amount"
+  app_global_get
+  byte "claimable_amount"
+  app_global_get
+  +
+  >=
+  assert
+  
   // Begin inner transaction to transfer asset
   itxn_begin
   
@@ -278,6 +346,328 @@ handle_release:
 release_error:
   err
 
+// Handle hold operation: a release to a receiver that has not opted into
+// the carbon asset, kept in the escrow until claimed
+handle_hold:
+  // Verify sender is bridge admin
+  txn Sender
+  byte "bridge_admin"
+  app_global_get
+  ==
+  assert
+  
+  // Verify status is "verified"
+  byte "bridge_"
+  txna ApplicationArgs 1
+  concat
+  byte "_status"
+  concat
+  app_global_get
+  byte "verified"
+  ==
+  assert
+  
+  // The receiver is the 32-byte address the claim pays out to
+  txna ApplicationArgs 2
+  len
+  int 32
+  ==
+  assert
+  
+  // Held units are covered by the escrow like released ones
+  global CurrentApplicationAddress
+  byte "carbon_asset_id"
+  app_global_get
+  asset_holding_get AssetBalance
+  assert
+  txna ApplicationArgs 3
+  btoi
+  -
+  byte "retired_amount"
+  app_global_get
+  byte "claimable_amount"
+  app_global_get
+  +
+  >=
+  assert
+  
+  // Record the receiver and amount of the claim
+  byte "bridge_"
+  txna ApplicationArgs 1
+  concat
+  byte "_claim_receiver"
+  concat
+  txna ApplicationArgs 2
+  app_global_put
+  
+  byte "bridge_"
+  txna ApplicationArgs 1
+  concat
+  byte "_claim_amount"
+  concat
+  txna ApplicationArgs 3
+  btoi
+  app_global_put
+  
+  // Add the units to the claimable total
+  byte "claimable_amount"
+  byte "claimable_amount"
+  app_global_get
+  txna ApplicationArgs 3
+  btoi
+  +
+  app_global_put
+  
+  // Mark the bridge as claimable
+  byte "bridge_"
+  txna ApplicationArgs 1
+  concat
+  byte "_status"
+  concat
+  byte "claimable"
+  app_global_put
+  
+  // Log hold event
+  byte "hold_complete:"
+  txna ApplicationArgs 1
+  concat
+  log
+  
+  int 1
+  return
+
+// Handle claim operation: pays held units out once the receiver has opted
+// in. Anyone may submit it, as the units only go to the recorded receiver.
+handle_claim:
+  // Verify status is "claimable"
+  byte "bridge_"
+  txna ApplicationArgs 1
+  concat
+  byte "_status"
+  concat
+  app_global_get
+  byte "claimable"
+  ==
+  assert
+  
+  // Begin inner transaction to transfer asset
+  itxn_begin
+  
+  int axfer
+  itxn_field TypeEnum
+  
+  byte "carbon_asset_id"
+  app_global_get
+  itxn_field XferAsset
+  
+  byte "bridge_"
+  txna ApplicationArgs 1
+  concat
+  byte "_claim_receiver"
+  concat
+  app_global_get
+  itxn_field AssetReceiver
+  
+  byte "bridge_"
+  txna ApplicationArgs 1
+  concat
+  byte "_claim_amount"
+  concat
+  app_global_get
+  itxn_field AssetAmount
+  
+  // Send the transaction
+  itxn_submit
+  
+  // Remove the units from the claimable total
+  byte "claimable_amount"
+  byte "claimable_amount"
+  app_global_get
+  byte "bridge_"
+  txna ApplicationArgs 1
+  concat
+  byte "_claim_amount"
+  concat
+  app_global_get
+  -
+  app_global_put
+  
+  // Update bridge status
+  byte "bridge_"
+  txna ApplicationArgs 1
+  concat
+  byte "_status"
+  concat
+  byte "released"
+  app_global_put
+  
+  // Log release event
+  byte "release_complete:"
+  txna ApplicationArgs 1
+  concat
+  log
+  
+  int 1
+  return
+
+// Handle refund operation: returns a timed out lock to its sender. The
+// lock's own record is marked refunded, so it can no longer be verified,
+// released, held or retired.
+handle_refund:
+  // Verify sender is bridge admin
+  txn Sender
+  byte "bridge_admin"
+  app_global_get
+  ==
+  assert
+  
+  // Verify status is "locked" or "verified"
+  byte "bridge_"
+  txna ApplicationArgs 1
+  concat
+  byte "_status"
+  concat
+  app_global_get
+  dup
+  byte "locked"
+  ==
+  swap
+  byte "verified"
+  ==
+  ||
+  assert
+  
+  // Verify the refund returns the locked amount to the lock's sender
+  byte "bridge_"
+  txna ApplicationArgs 1
+  concat
+  byte "_sender"
+  concat
+  app_global_get
+  txna ApplicationArgs 2
+  ==
+  assert
+  
+  byte "bridge_"
+  txna ApplicationArgs 1
+  concat
+  byte "_amount"
+  concat
+  app_global_get
+  txna ApplicationArgs 3
+  btoi
+  ==
+  assert
+  
+  // Begin inner transaction to transfer asset
+  itxn_begin
+  
+  int axfer
+  itxn_field TypeEnum
+  
+  byte "carbon_asset_id"
+  app_global_get
+  itxn_field XferAsset
+  
+  txna ApplicationArgs 2
+  itxn_field AssetReceiver
+  
+  txna ApplicationArgs 3
+  btoi
+  itxn_field AssetAmount
+  
+  // Send the transaction
+  itxn_submit
+  
+  // Mark the bridge as refunded
+  byte "bridge_"
+  txna ApplicationArgs 1
+  concat
+  byte "_status"
+  concat
+  byte "refunded"
+  app_global_put
+  
+  // Log refund event
+  byte "refund_complete:"
+  txna ApplicationArgs 1
+  concat
+  log
+  
+  int 1
+  return
+
+// Handle retire operation
+handle_retire:
+  // Verify sender is bridge admin
+  txn Sender
+  byte "bridge_admin"
+  app_global_get
+  ==
+  assert
+  
+  // Verify status is "verified", so a bridge is either released, held or
+  // retired, never more than one
+  byte "bridge_"
+  txna ApplicationArgs 1
+  concat
+  byte "_status"
+  concat
+  app_global_get
+  byte "verified"
+  ==
+  assert
+  
+  // Retired units stay in the escrow on top of those already retired or held
+  global CurrentApplicationAddress
+  byte "carbon_asset_id"
+  app_global_get
+  asset_holding_get AssetBalance
+  assert
+  byte "retired_amount"
+  app_global_get
+  byte "claimable_amount"
+  app_global_get
+  +
+  txna ApplicationArgs 2
+  btoi
+  +
+  >=
+  assert
+  
+  // Mark the bridge as retired
+  byte "bridge_"
+  txna ApplicationArgs 1
+  concat
+  byte "_status"
+  concat
+  byte "retired"
+  app_global_put
+  
+  // Add the units to the permanently retired total
+  byte "retired_amount"
+  byte "retired_amount"
+  app_global_get
+  txna ApplicationArgs 2
+  btoi
+  +
+  app_global_put
+  
+  // Log retire event with the beneficiary and reason
+  byte "retire_complete:"
+  txna ApplicationArgs 1
+  concat
+  log
+  
+  txna ApplicationArgs 3
+  log
+  
+  txna ApplicationArgs 4
+  log
+  
+  int 1
+  return
+
 // Handle verify operation (from verifiers)
 handle_verify:
   // Get bridge ID
@@ -0,0 +1,124 @@
+import algosdk from "algosdk";
+import { AlgorandChainHandler } from ".";
+import { AccountSigner } from "./signers";
+import { BridgeConfig, BridgeStatus, ChainType } from "../../types";
+
+jest.mock("../../amounts", () => ({
+  ...jest.requireActual("../../amounts"),
+  resolveAssetDecimals: jest.fn().mockResolvedValue(undefined),
+}));
+
+const suggestedParams = {
+  fee: 0,
+  minFee: 1000,
+  firstRound: 100,
+  lastRound: 1100,
+  genesisID: "testnet-v1.0",
+  genesisHash: "SGO1GKSzyE7IEPItTxCByw9x8FmnrCDexi9/cOUJOiI=",
+};
+
+/**
+ * Stub an algod request builder resolving to a response
+ */
+function request(response: () => Promise<any>): any {
+  return { do: response };
+}
+
+describe("AlgorandChainHandler", () => {
+  const operator = algosdk.generateAccount();
+  const receiver = algosdk.generateAccount().addr;
+  let optedIn: boolean;
+  let handler: AlgorandChainHandler;
+
+  beforeEach(() => {
+    optedIn = true;
+
+    const config = {
+      algorand: {
+        nodeUrl: "http://localhost:4001",
+        indexerUrl: "http://localhost:8980",
+        escrowAppId: 1234,
+        carbonAssetId: 5678,
+        decimals: 0,
+        signer: new AccountSigner(operator),
+      },
+      targetChain: {
+        chainType: ChainType.ETHEREUM,
+        tokenContractAddress: "0x0000000000000000000000000000000000000001",
+        decimals: 18,
+      },
+    } as unknown as BridgeConfig;
+    handler = new AlgorandChainHandler(config);
+
+    jest
+      .spyOn(algosdk.Algodv2.prototype, "getTransactionParams")
+      .mockReturnValue(request(async () => suggestedParams));
+    jest
+      .spyOn(algosdk.Algodv2.prototype, "sendRawTransaction")
+      .mockReturnValue(request(async () => ({ txId: "RELEASETXID" })));
+    jest
+      .spyOn(algosdk.Algodv2.prototype, "accountAssetInformation")
+      .mockReturnValue(
+        request(async () => {
+          if (!optedIn) {
+            throw Object.assign(new Error("asset info not found"), {
+              status: 404,
+            });
+          }
+          return {};
+        })
+      );
+    jest
+      .spyOn(AlgorandChainHandler.prototype, "waitForConfirmation")
+      .mockResolvedValue({ "confirmed-round": 101 });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("reports a confirmed release as released", async () => {
+    const result = await handler.releaseCarbonCredits(
+      "bridge-1",
+      receiver,
+      10,
+      {
+        waitForConfirmation: true,
+      }
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.status).toBe(BridgeStatus.RELEASED);
+    expect(result.transactionId).toBe("RELEASETXID");
+    expect(result.confirmedRound).toBe(101);
+  });
+
+  it("reports a confirmed release held for the receiver's opt-in as claimable", async () => {
+    optedIn = false;
+
+    const result = await handler.releaseCarbonCredits(
+      "bridge-2",
+      receiver,
+      10,
+      {
+        waitForConfirmation: true,
+      }
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.status).toBe(BridgeStatus.CLAIMABLE);
+    expect(result.receipt.optInTransaction).toEqual(expect.any(String));
+  });
+
+  it("reports a confirmed retirement as retired", async () => {
+    const result = await handler.retireEscrowedCredits(
+      "bridge-3",
+      10,
+      { beneficiary: "Acme Corp", reason: "2024 Scope 1 emissions" },
+      { waitForConfirmation: true }
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.status).toBe(BridgeStatus.RETIRED);
+  });
+});
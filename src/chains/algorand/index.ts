@@ -4,7 +4,6 @@ import algosdk, {
   makeApplicationNoOpTxnFromObject,
   makeAssetTransferTxnWithSuggestedParamsFromObject,
   Transaction,
-  OnApplicationComplete,
   getApplicationAddress,
 } from "algosdk";
 import {
@@ -13,12 +12,35 @@ import {
   BridgeResult,
   BridgeStatus,
   BridgeTransaction,
+  CarbonCreditMetadata,
   ChainType,
+  RetirementDetails,
 } from "../../types";
 import BigNumber from "bignumber.js";
 import { bridgeEvents, BridgeEventType } from "../../events";
 import { generateBridgeId } from "../../utils";
 import { getEscrowSmartContract } from "./contracts";
+import { AlgorandSigner, signAndCheck } from "./signers";
+import { transitionTransaction } from "../../lifecycle";
+import { calculateProtocolFee } from "../../fees";
+import { resolveAssetDecimals, toAssetAmount } from "../../amounts";
+import { EMPTY_METADATA_HASH, hashCarbonMetadata } from "../../metadata";
+import { getChainConfig } from "../../config";
+
+/**
+ * Approximate Algorand block time, used to turn timeouts into rounds
+ */
+const ALGORAND_ROUND_TIME_MS = 3000;
+
+/**
+ * Encode an unsigned transaction for the API and CLI
+ *
+ * @param txn Unsigned transaction
+ * @returns Base64 encoded transaction
+ */
+function encodeUnsigned(txn: Transaction): string {
+  return Buffer.from(algosdk.encodeUnsignedTransaction(txn)).toString("base64");
+}
 
 /**
  * Algorand chain handler
@@ -39,29 +61,64 @@ export class AlgorandChainHandler {
     this.indexerClient = new Indexer("", config.algorand.indexerUrl, "");
   }
 
+  /**
+   * Get the configuration for the target chain of an operation
+   *
+   * @param options Bridge options naming the target chain
+   * @returns Bridge configuration for the chain
+   */
+  private getTargetConfig(options?: BridgeOptions): BridgeConfig {
+    return getChainConfig(
+      this.config,
+      options?.targetChain ?? this.config.targetChain.chainType
+    );
+  }
+
   /**
    * Lock carbon credits in escrow for bridging to target chain
    *
+   * When `options.metadata` is set, its hash is committed as the fourth
+   * argument of the lock call. Locks for a target chain other than the
+   * primary one name it in a fifth argument, with an empty metadata hash
+   * if no metadata is committed.
+   *
+   * A submitted lock whose confirmation wait times out is still returned
+   * with its transaction ID, as PENDING.
+   *
    * @param sender Sender address
    * @param receiver Receiver address on target chain
-   * @param amount Amount of carbon credits to bridge
+   * @param amount Amount of carbon credits to bridge, in whole credits
    * @param options Bridge options
+   * @param signer Signer for the sender; without one the unsigned group is returned
    * @returns Bridge operation result
    */
   async lockCarbonCredits(
     sender: string,
     receiver: string,
-    amount: number,
-    options?: BridgeOptions
+    amount: number | string | BigNumber,
+    options?: BridgeOptions,
+    signer?: AlgorandSigner
   ): Promise<BridgeResult> {
     try {
-      if (!this.config.algorand.bridgeAccount) {
-        throw new Error("Bridge account not configured");
+      if (!this.config.algorand.signer) {
+        throw new Error("Bridge signer not configured");
       }
 
       // Generate unique bridge ID
       const bridgeId = generateBridgeId();
 
+      const config = this.getTargetConfig(options);
+      const targetChain = config.targetChain.chainType;
+      const namesTargetChain = targetChain !== this.config.targetChain.chainType;
+
+      await resolveAssetDecimals(config);
+      const sourceAmount = toAssetAmount(amount, config.algorand.decimals!);
+
+      const metadata: CarbonCreditMetadata | undefined = options?.metadata;
+      const metadataHash = metadata ? hashCarbonMetadata(metadata) : undefined;
+      const committedHash =
+        metadataHash ?? (namesTargetChain ? EMPTY_METADATA_HASH : undefined);
+
       // Get suggested parameters
       const suggestedParams = await this.algodClient
         .getTransactionParams()
@@ -75,7 +132,7 @@ export class AlgorandChainHandler {
         makeAssetTransferTxnWithSuggestedParamsFromObject({
           from: sender,
           to: escrowAddress,
-          amount,
+          amount: BigInt(sourceAmount.baseUnits),
           assetIndex: this.config.algorand.carbonAssetId,
           suggestedParams,
           note: new Uint8Array(Buffer.from(`bridge:${bridgeId}:${receiver}`)),
@@ -89,6 +146,12 @@ export class AlgorandChainHandler {
           new Uint8Array(Buffer.from("lock")),
           new Uint8Array(Buffer.from(bridgeId)),
           new Uint8Array(Buffer.from(receiver)),
+          ...(committedHash
+            ? [new Uint8Array(Buffer.from(committedHash.slice(2), "hex"))]
+            : []),
+          ...(namesTargetChain
+            ? [new Uint8Array(Buffer.from(targetChain))]
+            : []),
         ],
         foreignAssets: [this.config.algorand.carbonAssetId],
         suggestedParams,
@@ -98,40 +161,89 @@ export class AlgorandChainHandler {
       const txnGroup = algosdk.assignGroupID([assetTransferTxn, appCallTxn]);
 
       // Create transaction object
-      const bridgeTransaction: BridgeTransaction = {
+      let bridgeTransaction: BridgeTransaction = {
         id: bridgeId,
         sourceChain: ChainType.ALGORAND,
-        targetChain: this.config.targetChain.chainType,
-        sourceAssetId: this.config.algorand.carbonAssetId.toString(),
-        targetAssetId: this.config.targetChain.tokenContractAddress, // Add targetAssetId
+        targetChain,
+        sourceAssetId: config.algorand.carbonAssetId.toString(),
+        targetAssetId: config.targetChain.tokenContractAddress, // Add targetAssetId
         amount: new BigNumber(amount),
+        protocolFee: calculateProtocolFee(amount, config),
+        sourceAmount,
         sender,
         receiver,
         status: BridgeStatus.PENDING,
         timestamp: Date.now(),
         nonce: suggestedParams.firstRound,
+        metadata,
+        metadataHash,
       };
 
-      // Emit pending event
-      bridgeEvents.emitBridgeEvent(BridgeEventType.LOCK, bridgeTransaction, {
-        transactions: txnGroup.map((txn) =>
-          algosdk.encodeUnsignedTransaction(txn)
-        ),
-      });
+      // Sign and submit the group when a signer is available. The LOCK event
+      // is emitted by AlgorandLockWatcher once the group is confirmed on-chain
+      if (signer) {
+        const signedGroup = await signAndCheck(signer, txnGroup);
+        await this.algodClient.sendRawTransaction(signedGroup).do();
+
+        // The app call identifies the lock on-chain
+        const lockTxId = appCallTxn.txID();
+        bridgeTransaction.sourceTransactionId = lockTxId;
+
+        // The group is submitted, so it may still confirm after the wait
+        // times out; it then stays PENDING for the lock watcher to pick up
+        let confirmedRound: number | undefined;
+        if (options?.waitForConfirmation) {
+          try {
+            const confirmation = await this.waitForConfirmation(
+              lockTxId,
+              options.timeoutMs
+            );
+            confirmedRound = confirmation["confirmed-round"];
+          } catch (error: any) {
+            if (String(error.message).startsWith("Transaction Rejected")) {
+              throw error;
+            }
+            console.error(
+              `Lock ${lockTxId} not confirmed yet, leaving it to the watcher:`,
+              error
+            );
+          }
+        }
+
+        if (confirmedRound !== undefined) {
+          bridgeTransaction.sourceBlock = confirmedRound;
+          bridgeTransaction = transitionTransaction(
+            bridgeTransaction,
+            BridgeStatus.LOCKED,
+            {
+              reason: "Lock confirmed on Algorand",
+              chainTransactionId: lockTxId,
+            }
+          );
+        }
+
+        return {
+          success: true,
+          transactionId: lockTxId,
+          bridgeId,
+          status: bridgeTransaction.status,
+          confirmedRound,
+          receipt: {
+            transaction: bridgeTransaction,
+            groupId: Buffer.from(txnGroup[0].group!).toString("base64"),
+          },
+        };
+      }
 
-      // Return unsigned transactions
-      // Note: In a real implementation, these would be signed and submitted
+      // Return unsigned transactions for the sender to sign and submit
       return {
         success: true,
         transactionId: "", // Will be set after submission
         bridgeId,
         status: BridgeStatus.PENDING,
         receipt: {
-          transactions: txnGroup.map((txn) =>
-            Buffer.from(algosdk.encodeUnsignedTransaction(txn)).toString(
-              "base64"
-            )
-          ),
+          transaction: bridgeTransaction,
+          transactions: txnGroup.map(encodeUnsigned),
           groupId: Buffer.from(txnGroup[0].group!).toString("base64"),
         },
       };
@@ -150,57 +262,80 @@ export class AlgorandChainHandler {
   /**
    * Release carbon credits from escrow back to owner
    *
+   * The protocol fee is deducted from `amount` and stays in the escrow,
+   * unless `options.feeExempt` is set. A receiver that has not opted into
+   * the carbon asset cannot be paid; its credits are held in the escrow
+   * instead, the result is CLAIMABLE and its receipt carries the unsigned
+   * opt-in transaction for the receiver.
+   *
    * @param bridgeId Bridge transaction ID
    * @param receiver Receiver address on Algorand
-   * @param amount Amount of carbon credits to release
+   * @param amount Whole carbon credits burned on the target chain
    * @param options Bridge options
    * @returns Bridge operation result
    */
   async releaseCarbonCredits(
     bridgeId: string,
     receiver: string,
-    amount: number,
+    amount: number | string | BigNumber,
     options?: BridgeOptions
   ): Promise<BridgeResult> {
     try {
-      if (!this.config.algorand.bridgeAccount) {
-        throw new Error("Bridge account not configured");
+      const signer = this.config.algorand.signer;
+      if (!signer) {
+        throw new Error("Bridge signer not configured");
       }
 
+      const operatorAddress = await signer.getAddress();
+      const config = this.getTargetConfig(options);
+
+      const protocolFee = options?.feeExempt
+        ? new BigNumber(0)
+        : calculateProtocolFee(amount, config);
+      await resolveAssetDecimals(this.config);
+      const targetAmount = toAssetAmount(
+        new BigNumber(amount).minus(protocolFee),
+        this.config.algorand.decimals!
+      );
+
+      // Hold the credits for receivers that cannot accept them yet
+      const optedIn = await this.isOptedIn(receiver);
+
       // Get suggested parameters
       const suggestedParams = await this.algodClient
         .getTransactionParams()
         .do();
 
-      // Create application call transaction to release credits
+      // Create application call transaction to release or hold credits
       const appCallTxn = makeApplicationNoOpTxnFromObject({
-        from: this.config.algorand.bridgeAccount.addr,
+        from: operatorAddress,
         appIndex: this.config.algorand.escrowAppId,
         appArgs: [
-          new Uint8Array(Buffer.from("release")),
+          new Uint8Array(Buffer.from(optedIn ? "release" : "hold")),
           new Uint8Array(Buffer.from(bridgeId)),
-          new Uint8Array(Buffer.from(receiver)),
-          algosdk.encodeUint64(amount),
+          optedIn
+            ? new Uint8Array(Buffer.from(receiver))
+            : algosdk.decodeAddress(receiver).publicKey,
+          algosdk.encodeUint64(BigInt(targetAmount.baseUnits)),
         ],
         foreignAssets: [this.config.algorand.carbonAssetId],
         suggestedParams,
       });
 
-      // Sign transaction
-      const signedTxn = algosdk.signTransaction(
-        appCallTxn,
-        this.config.algorand.bridgeAccount.sk
-      );
+      // Sign transaction with the operator signer
+      const [signedTxn] = await signAndCheck(signer, [appCallTxn]);
 
       // Create transaction object
-      const bridgeTransaction: BridgeTransaction = {
+      let bridgeTransaction: BridgeTransaction = {
         id: bridgeId,
-        sourceChain: this.config.targetChain.chainType,
+        sourceChain: config.targetChain.chainType,
         targetChain: ChainType.ALGORAND,
-        sourceAssetId: this.config.targetChain.tokenContractAddress,
+        sourceAssetId: config.targetChain.tokenContractAddress,
         targetAssetId: this.config.algorand.carbonAssetId.toString(),
         amount: new BigNumber(amount),
-        sender: this.config.algorand.bridgeAccount.addr,
+        protocolFee,
+        targetAmount,
+        sender: operatorAddress,
         receiver,
         status: BridgeStatus.PENDING,
         timestamp: Date.now(),
@@ -209,29 +344,57 @@ export class AlgorandChainHandler {
 
       // Emit pending event
       bridgeEvents.emitBridgeEvent(BridgeEventType.RELEASE, bridgeTransaction, {
-        transaction: Buffer.from(signedTxn.blob).toString("base64"),
+        transaction: Buffer.from(signedTxn).toString("base64"),
       });
 
       // Submit transaction
       const txResponse = await this.algodClient
-        .sendRawTransaction(signedTxn.blob)
+        .sendRawTransaction(signedTxn)
         .do();
 
-      // Update transaction status
       bridgeTransaction.sourceTransactionId = txResponse.txId;
-      bridgeTransaction.status = BridgeStatus.RELEASED;
+
+      // The release only counts once it is confirmed. It is submitted, so
+      // it may still confirm after the wait times out; it then stays PENDING
+      const confirmedRound = await this.waitForSubmitted(
+        "Release",
+        txResponse.txId,
+        options
+      );
+      if (confirmedRound !== undefined) {
+        bridgeTransaction = transitionTransaction(
+          bridgeTransaction,
+          optedIn ? BridgeStatus.RELEASED : BridgeStatus.CLAIMABLE,
+          {
+            reason: optedIn
+              ? "Release confirmed on Algorand"
+              : "Release held in escrow until the receiver opts in",
+            chainTransactionId: txResponse.txId,
+          }
+        );
+      }
 
       // Emit release event
       bridgeEvents.emitBridgeEvent(BridgeEventType.RELEASE, bridgeTransaction, {
         transactionId: txResponse.txId,
+        round: confirmedRound,
+        claimable: !optedIn,
       });
 
       return {
         success: true,
         transactionId: txResponse.txId,
         bridgeId,
-        status: BridgeStatus.RELEASED,
-        receipt: txResponse,
+        status: bridgeTransaction.status,
+        confirmedRound,
+        receipt: optedIn
+          ? txResponse
+          : {
+              ...txResponse,
+              optInTransaction: encodeUnsigned(
+                this.makeOptInTransaction(receiver, suggestedParams)
+              ),
+            },
       };
     } catch (error: any) {
       console.error("Error releasing carbon credits:", error);
@@ -245,6 +408,546 @@ export class AlgorandChainHandler {
     }
   }
 
+  /**
+   * Refund locked carbon credits to their sender
+   *
+   * Called for a lock that was not minted within `timeoutBlocks`. The
+   * escrow marks the lock's own record as refunded, so the lock can no
+   * longer be released, held or retired, and pays the locked units back
+   * without a protocol fee.
+   *
+   * @param bridgeId Bridge transaction ID of the lock
+   * @param sender Algorand address that locked the credits
+   * @param amount Whole carbon credits locked
+   * @param options Bridge options
+   * @returns Bridge operation result
+   */
+  async refundLockedCredits(
+    bridgeId: string,
+    sender: string,
+    amount: number | string | BigNumber,
+    options?: BridgeOptions
+  ): Promise<BridgeResult> {
+    try {
+      const signer = this.config.algorand.signer;
+      if (!signer) {
+        throw new Error("Bridge signer not configured");
+      }
+
+      const operatorAddress = await signer.getAddress();
+      const config = this.getTargetConfig(options);
+
+      await resolveAssetDecimals(this.config);
+      const sourceAmount = toAssetAmount(
+        amount,
+        this.config.algorand.decimals!
+      );
+
+      // Get suggested parameters
+      const suggestedParams = await this.algodClient
+        .getTransactionParams()
+        .do();
+
+      // Create application call transaction to refund the lock
+      const appCallTxn = makeApplicationNoOpTxnFromObject({
+        from: operatorAddress,
+        appIndex: this.config.algorand.escrowAppId,
+        appArgs: [
+          new Uint8Array(Buffer.from("refund")),
+          new Uint8Array(Buffer.from(bridgeId)),
+          algosdk.decodeAddress(sender).publicKey,
+          algosdk.encodeUint64(BigInt(sourceAmount.baseUnits)),
+        ],
+        foreignAssets: [this.config.algorand.carbonAssetId],
+        accounts: [sender],
+        suggestedParams,
+      });
+
+      // Sign transaction with the operator signer
+      const [signedTxn] = await signAndCheck(signer, [appCallTxn]);
+
+      // Create transaction object
+      let bridgeTransaction: BridgeTransaction = {
+        id: bridgeId,
+        sourceChain: ChainType.ALGORAND,
+        targetChain: config.targetChain.chainType,
+        sourceAssetId: this.config.algorand.carbonAssetId.toString(),
+        targetAssetId: config.targetChain.tokenContractAddress,
+        amount: new BigNumber(amount),
+        protocolFee: new BigNumber(0),
+        sourceAmount,
+        sender,
+        receiver: sender,
+        status: BridgeStatus.EXPIRED,
+        timestamp: Date.now(),
+        nonce: suggestedParams.firstRound,
+      };
+
+      // Submit transaction
+      const txResponse = await this.algodClient
+        .sendRawTransaction(signedTxn)
+        .do();
+
+      bridgeTransaction.refundTransactionId = txResponse.txId;
+
+      // The refund only counts once it is confirmed
+      let confirmedRound: number | undefined;
+      if (options?.waitForConfirmation) {
+        const confirmation = await this.waitForConfirmation(
+          txResponse.txId,
+          options.timeoutMs
+        );
+        confirmedRound = confirmation["confirmed-round"];
+        bridgeTransaction = transitionTransaction(
+          bridgeTransaction,
+          BridgeStatus.REFUNDED,
+          {
+            reason: "Refund confirmed on Algorand",
+            chainTransactionId: txResponse.txId,
+          }
+        );
+      }
+
+      return {
+        success: true,
+        transactionId: txResponse.txId,
+        bridgeId,
+        status: bridgeTransaction.status,
+        confirmedRound,
+        receipt: txResponse,
+      };
+    } catch (error: any) {
+      console.error("Error refunding carbon credits:", error);
+      return {
+        success: false,
+        transactionId: "",
+        bridgeId,
+        status: BridgeStatus.FAILED,
+        error: error.message || "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Claim carbon credits held in the escrow for their receiver
+   *
+   * The claim pays out a release that was held because the receiver had
+   * not opted into the carbon asset. With the receiver's signer, the
+   * opt-in (if still needed) and the claim are submitted as one group.
+   * Without one, the operator submits the claim for an opted-in receiver;
+   * otherwise the unsigned opt-in and claim group is returned for the
+   * receiver to sign and submit.
+   *
+   * @param bridgeId Bridge transaction ID of the held release
+   * @param receiver Receiver address on Algorand
+   * @param options Bridge options
+   * @param signer Signer for the receiver
+   * @returns Bridge operation result
+   */
+  async claimReleasedCredits(
+    bridgeId: string,
+    receiver: string,
+    options?: BridgeOptions,
+    signer?: AlgorandSigner
+  ): Promise<BridgeResult> {
+    try {
+      const optedIn = await this.isOptedIn(receiver);
+
+      // The operator can only claim for receivers that can accept the credits
+      const operator =
+        !signer && optedIn ? this.config.algorand.signer : undefined;
+      const submitter = signer ?? operator;
+      const from = operator ? await operator.getAddress() : receiver;
+
+      // Get suggested parameters
+      const suggestedParams = await this.algodClient
+        .getTransactionParams()
+        .do();
+
+      // Create application call transaction to claim the credits. Its fee
+      // covers the inner transfer to the receiver.
+      const claimTxn = makeApplicationNoOpTxnFromObject({
+        from,
+        appIndex: this.config.algorand.escrowAppId,
+        appArgs: [
+          new Uint8Array(Buffer.from("claim")),
+          new Uint8Array(Buffer.from(bridgeId)),
+        ],
+        accounts: [receiver],
+        foreignAssets: [this.config.algorand.carbonAssetId],
+        suggestedParams: {
+          ...suggestedParams,
+          flatFee: true,
+          fee: 2 * (suggestedParams.minFee ?? 1000),
+        },
+      });
+
+      const txns = optedIn
+        ? [claimTxn]
+        : algosdk.assignGroupID([
+            this.makeOptInTransaction(receiver, suggestedParams),
+            claimTxn,
+          ]);
+
+      // Return unsigned transactions for the receiver to sign and submit
+      if (!submitter) {
+        return {
+          success: true,
+          transactionId: "", // Will be set after submission
+          bridgeId,
+          status: BridgeStatus.CLAIMABLE,
+          receipt: {
+            transactions: txns.map(encodeUnsigned),
+            groupId: txns[0].group
+              ? Buffer.from(txns[0].group).toString("base64")
+              : undefined,
+          },
+        };
+      }
+
+      const signedTxns = await signAndCheck(submitter, txns);
+      await this.algodClient.sendRawTransaction(signedTxns).do();
+      const claimTxId = claimTxn.txID();
+
+      // The claim only counts once it is confirmed, and stays CLAIMABLE if
+      // the wait times out
+      const confirmedRound = await this.waitForSubmitted(
+        "Claim",
+        claimTxId,
+        options
+      );
+
+      return {
+        success: true,
+        transactionId: claimTxId,
+        bridgeId,
+        status:
+          confirmedRound !== undefined
+            ? BridgeStatus.RELEASED
+            : BridgeStatus.CLAIMABLE,
+        confirmedRound,
+      };
+    } catch (error: any) {
+      console.error("Error claiming carbon credits:", error);
+      return {
+        success: false,
+        transactionId: "",
+        bridgeId,
+        status: BridgeStatus.FAILED,
+        error: error.message || "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Check whether an account has opted into the carbon credit asset
+   *
+   * @param address Algorand address
+   * @returns True if the account can receive carbon credits
+   */
+  async isOptedIn(address: string): Promise<boolean> {
+    try {
+      await this.algodClient
+        .accountAssetInformation(address, this.config.algorand.carbonAssetId)
+        .do();
+      return true;
+    } catch (error: any) {
+      // algod answers 404 for accounts that hold no such asset
+      if (error.status === 404) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Create the transaction that opts a receiver into the carbon asset
+   *
+   * @param receiver Receiver address on Algorand
+   * @returns Unsigned opt-in transaction, base64 encoded
+   */
+  async createOptInTransaction(receiver: string): Promise<string> {
+    const suggestedParams = await this.algodClient.getTransactionParams().do();
+    return encodeUnsigned(this.makeOptInTransaction(receiver, suggestedParams));
+  }
+
+  /**
+   * Build an opt-in: a zero transfer of the carbon asset to oneself
+   *
+   * @param receiver Receiver address on Algorand
+   * @param suggestedParams Suggested transaction parameters
+   * @returns Unsigned opt-in transaction
+   */
+  private makeOptInTransaction(
+    receiver: string,
+    suggestedParams: algosdk.SuggestedParams
+  ): Transaction {
+    return makeAssetTransferTxnWithSuggestedParamsFromObject({
+      from: receiver,
+      to: receiver,
+      amount: 0,
+      assetIndex: this.config.algorand.carbonAssetId,
+      suggestedParams,
+    });
+  }
+
+  /**
+   * Permanently retire escrowed carbon credits
+   *
+   * Called once wrapped credits were retired on the target chain. The
+   * escrow keeps the units and adds them to its `retired_amount`, which
+   * releases can never dip into.
+   *
+   * @param bridgeId Bridge transaction ID of the retirement
+   * @param amount Whole carbon credits retired on the target chain
+   * @param retirement Beneficiary and reason of the retirement
+   * @param options Bridge options
+   * @returns Bridge operation result
+   */
+  async retireEscrowedCredits(
+    bridgeId: string,
+    amount: number | string | BigNumber,
+    retirement: RetirementDetails,
+    options?: BridgeOptions
+  ): Promise<BridgeResult> {
+    try {
+      const signer = this.config.algorand.signer;
+      if (!signer) {
+        throw new Error("Bridge signer not configured");
+      }
+
+      const operatorAddress = await signer.getAddress();
+      const config = this.getTargetConfig(options);
+
+      await resolveAssetDecimals(this.config);
+      const targetAmount = toAssetAmount(amount, this.config.algorand.decimals!);
+
+      // Get suggested parameters
+      const suggestedParams = await this.algodClient
+        .getTransactionParams()
+        .do();
+
+      // Create application call transaction to retire credits
+      const appCallTxn = makeApplicationNoOpTxnFromObject({
+        from: operatorAddress,
+        appIndex: this.config.algorand.escrowAppId,
+        appArgs: [
+          new Uint8Array(Buffer.from("retire")),
+          new Uint8Array(Buffer.from(bridgeId)),
+          algosdk.encodeUint64(BigInt(targetAmount.baseUnits)),
+          new Uint8Array(Buffer.from(retirement.beneficiary)),
+          new Uint8Array(Buffer.from(retirement.reason)),
+        ],
+        foreignAssets: [this.config.algorand.carbonAssetId],
+        suggestedParams,
+      });
+
+      // Sign transaction with the operator signer
+      const [signedTxn] = await signAndCheck(signer, [appCallTxn]);
+
+      // Create transaction object
+      let bridgeTransaction: BridgeTransaction = {
+        id: bridgeId,
+        sourceChain: config.targetChain.chainType,
+        targetChain: ChainType.ALGORAND,
+        sourceAssetId: config.targetChain.tokenContractAddress,
+        targetAssetId: this.config.algorand.carbonAssetId.toString(),
+        amount: new BigNumber(amount),
+        protocolFee: new BigNumber(0),
+        targetAmount,
+        sender: operatorAddress,
+        receiver: getApplicationAddress(this.config.algorand.escrowAppId),
+        status: BridgeStatus.PENDING,
+        timestamp: Date.now(),
+        nonce: suggestedParams.firstRound,
+        retirement,
+      };
+
+      // Submit transaction
+      const txResponse = await this.algodClient
+        .sendRawTransaction(signedTxn)
+        .do();
+
+      bridgeTransaction.targetTransactionId = txResponse.txId;
+
+      // The retirement only counts once it is confirmed, and stays PENDING
+      // if the wait times out
+      const confirmedRound = await this.waitForSubmitted(
+        "Retirement",
+        txResponse.txId,
+        options
+      );
+      if (confirmedRound !== undefined) {
+        bridgeTransaction = transitionTransaction(
+          bridgeTransaction,
+          BridgeStatus.RETIRED,
+          {
+            reason: "Retirement confirmed on Algorand",
+            chainTransactionId: txResponse.txId,
+          }
+        );
+      }
+
+      // Emit retire event
+      bridgeEvents.emitBridgeEvent(BridgeEventType.RETIRE, bridgeTransaction, {
+        transactionId: txResponse.txId,
+        round: confirmedRound,
+      });
+
+      return {
+        success: true,
+        transactionId: txResponse.txId,
+        bridgeId,
+        status: bridgeTransaction.status,
+        confirmedRound,
+        receipt: txResponse,
+      };
+    } catch (error: any) {
+      console.error("Error retiring carbon credits:", error);
+      return {
+        success: false,
+        transactionId: "",
+        bridgeId,
+        status: BridgeStatus.FAILED,
+        error: error.message || "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Estimate the network fee for a number of transactions
+   *
+   * @param transactionCount Number of transactions, including inner transactions
+   * @returns Estimated fee in ALGO
+   */
+  async estimateNetworkFee(transactionCount: number): Promise<BigNumber> {
+    const params = await this.algodClient.getTransactionParams().do();
+
+    // A non-zero fee is per byte; assume a typical transaction size
+    const perTransaction = Math.max(
+      params.minFee ?? 1000,
+      (params.flatFee ? 0 : params.fee) * 250
+    );
+
+    return new BigNumber(perTransaction)
+      .times(transactionCount)
+      .shiftedBy(-6);
+  }
+
+  /**
+   * Wait until a transaction is confirmed
+   *
+   * @param txId Transaction ID
+   * @param timeoutMs Maximum time to wait (default 60s)
+   * @returns Pending transaction information including the confirmed round
+   */
+  async waitForConfirmation(
+    txId: string,
+    timeoutMs: number = 60000
+  ): Promise<Record<string, any>> {
+    const waitRounds = Math.max(
+      1,
+      Math.ceil(timeoutMs / ALGORAND_ROUND_TIME_MS)
+    );
+    return algosdk.waitForConfirmation(this.algodClient, txId, waitRounds);
+  }
+
+  /**
+   * Wait for a submitted transaction if the options ask for it
+   *
+   * @param operation Operation name for the log
+   * @param txId Transaction ID
+   * @param options Bridge options
+   * @returns Confirmed round, or undefined if not confirmed yet
+   * @throws Error if the transaction was rejected
+   */
+  private async waitForSubmitted(
+    operation: string,
+    txId: string,
+    options?: BridgeOptions
+  ): Promise<number | undefined> {
+    if (!options?.waitForConfirmation) {
+      return undefined;
+    }
+
+    try {
+      const confirmation = await this.waitForConfirmation(
+        txId,
+        options.timeoutMs
+      );
+      return confirmation["confirmed-round"];
+    } catch (error: any) {
+      if (String(error.message).startsWith("Transaction Rejected")) {
+        throw error;
+      }
+      console.error(`${operation} ${txId} not confirmed yet:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Get the outcome of a release or retirement left pending
+   *
+   * @param bridgeId Bridge transaction ID
+   * @param transactionIds IDs of the submitted release or retire transactions
+   * @returns RELEASED, CLAIMABLE or RETIRED once recorded in the escrow,
+   * FAILED once the node no longer holds any of the transactions, PENDING
+   * otherwise; with the transaction that was confirmed or is still pending
+   */
+  async getPendingReleaseStatus(
+    bridgeId: string,
+    transactionIds: string[]
+  ): Promise<{ status: BridgeStatus; transactionId?: string }> {
+    // Look the transactions up before the escrow, so one confirmed in
+    // between is not taken for dropped
+    let pending: string | undefined;
+    for (const txId of transactionIds) {
+      if (await this.isInTransactionPool(txId)) {
+        pending = txId;
+      }
+    }
+
+    const status = await this.getBridgeTransactionStatus(bridgeId);
+    if (
+      status === BridgeStatus.RELEASED ||
+      status === BridgeStatus.CLAIMABLE ||
+      status === BridgeStatus.RETIRED
+    ) {
+      return {
+        status,
+        transactionId: pending ?? transactionIds[transactionIds.length - 1],
+      };
+    }
+
+    // The escrow could not be read, so nothing can be ruled out
+    if (status === BridgeStatus.FAILED || pending) {
+      return { status: BridgeStatus.PENDING, transactionId: pending };
+    }
+    return { status: BridgeStatus.FAILED };
+  }
+
+  /**
+   * Check whether the node still holds a submitted transaction
+   *
+   * @param txId Transaction ID
+   * @returns True while the transaction is pending or recently confirmed,
+   * false once it was rejected or dropped
+   */
+  private async isInTransactionPool(txId: string): Promise<boolean> {
+    try {
+      const info = await this.algodClient
+        .pendingTransactionInformation(txId)
+        .do();
+      return !info["pool-error"];
+    } catch (error: any) {
+      // algod answers 404 for transactions it no longer holds
+      if (error.status === 404) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
   /**
    * Get bridge transaction status
    *
@@ -253,25 +956,75 @@ export class AlgorandChainHandler {
    */
   async getBridgeTransactionStatus(bridgeId: string): Promise<BridgeStatus> {
     try {
-      // Query application logs for bridge transaction
-      const appLogs = await this.indexerClient
-        .searchForApplications()
-        .index(this.config.algorand.escrowAppId)
-        .do();
+      const appId = this.config.algorand.escrowAppId;
 
-      // Find logs for this bridge ID
-      for (const log of appLogs["logs"]) {
-        for (const txLog of log["log-data"]) {
-          if (txLog.includes(bridgeId)) {
-            const logData = Buffer.from(txLog, "base64").toString();
+      // Releases, retirements and refunds record their status in the escrow
+      // app's global state
+      const app = await this.algodClient.getApplicationByID(appId).do();
+      const statusKey = Buffer.from(`bridge_${bridgeId}_status`).toString(
+        "base64"
+      );
+      const statusEntry = (app["params"]["global-state"] || []).find(
+        (entry: any) => entry["key"] === statusKey
+      );
+      const recordedStatus = statusEntry
+        ? Buffer.from(statusEntry["value"]["bytes"], "base64").toString()
+        : undefined;
+      if (recordedStatus === "released") {
+        return BridgeStatus.RELEASED;
+      }
+      if (recordedStatus === "retired") {
+        return BridgeStatus.RETIRED;
+      }
+      if (recordedStatus === "claimable") {
+        return BridgeStatus.CLAIMABLE;
+      }
+      if (recordedStatus === "refunded") {
+        return BridgeStatus.REFUNDED;
+      }
 
-            if (logData.includes("lock_complete")) {
-              return BridgeStatus.LOCKED;
-            } else if (logData.includes("release_complete")) {
+      // Locks are only recorded in the application logs
+      let locked = false;
+      let held = false;
+      let nextToken: string | undefined;
+      do {
+        const query = this.indexerClient.lookupApplicationLogs(appId);
+        if (nextToken) {
+          query.nextToken(nextToken);
+        }
+
+        const response = await query.do();
+        const logData: any[] = response["log-data"] || [];
+
+        for (const entry of logData) {
+          for (const log of entry["logs"] || []) {
+            const message = Buffer.from(log, "base64").toString();
+            if (message === `release_complete:${bridgeId}`) {
               return BridgeStatus.RELEASED;
             }
+            if (message === `retire_complete:${bridgeId}`) {
+              return BridgeStatus.RETIRED;
+            }
+            if (message === `refund_complete:${bridgeId}`) {
+              return BridgeStatus.REFUNDED;
+            }
+            if (message === `hold_complete:${bridgeId}`) {
+              held = true;
+            }
+            if (message === `lock_complete:${bridgeId}`) {
+              locked = true;
+            }
           }
         }
+
+        nextToken = logData.length > 0 ? response["next-token"] : undefined;
+      } while (nextToken);
+
+      if (held) {
+        return BridgeStatus.CLAIMABLE;
+      }
+      if (locked) {
+        return BridgeStatus.LOCKED;
       }
 
       return BridgeStatus.PENDING;
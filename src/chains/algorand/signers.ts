@@ -0,0 +1,183 @@
+import algosdk, { Account, Kmd, Transaction } from "algosdk";
+import { AlgorandBridgeSigner, ChainType } from "../../types";
+
+/**
+ * Signs Algorand transactions on behalf of a bridge user
+ */
+export interface AlgorandSigner {
+  /**
+   * Sign transactions
+   *
+   * @param txns Unsigned transactions (already grouped)
+   * @returns Signed transaction blobs, in the same order
+   */
+  signTransactions(txns: Transaction[]): Promise<Uint8Array[]>;
+}
+
+/**
+ * External signing callback (wallet connectors, hardware wallets, HSMs)
+ */
+export type AlgorandSignCallback = (
+  txns: Transaction[]
+) => Promise<Uint8Array[]>;
+
+/**
+ * Signer backed by an in-process account
+ *
+ * Also usable as the bridge operator signer.
+ */
+export class AccountSigner implements AlgorandSigner, AlgorandBridgeSigner {
+  readonly chainType = ChainType.ALGORAND;
+  private account: Account;
+
+  /**
+   * Constructor
+   *
+   * @param account Algorand account with secret key
+   */
+  constructor(account: Account) {
+    this.account = account;
+  }
+
+  /**
+   * Create a signer from a 25-word mnemonic
+   *
+   * @param mnemonic Account mnemonic
+   * @returns Account signer
+   */
+  static fromMnemonic(mnemonic: string): AccountSigner {
+    return new AccountSigner(algosdk.mnemonicToSecretKey(mnemonic));
+  }
+
+  async getAddress(): Promise<string> {
+    return this.account.addr;
+  }
+
+  async signTransactions(txns: Transaction[]): Promise<Uint8Array[]> {
+    return txns.map((txn) => txn.signTxn(this.account.sk));
+  }
+}
+
+/**
+ * Signer backed by a wallet in an Algorand KMD instance
+ */
+export class KmdSigner implements AlgorandSigner {
+  private kmdClient: Kmd;
+  private walletName: string;
+  private walletPassword: string;
+
+  /**
+   * Constructor
+   *
+   * @param kmdClient KMD client
+   * @param walletName Name of the wallet holding the sender key
+   * @param walletPassword Wallet password
+   */
+  constructor(kmdClient: Kmd, walletName: string, walletPassword: string) {
+    this.kmdClient = kmdClient;
+    this.walletName = walletName;
+    this.walletPassword = walletPassword;
+  }
+
+  async signTransactions(txns: Transaction[]): Promise<Uint8Array[]> {
+    const { wallets } = await this.kmdClient.listWallets();
+    const wallet = (wallets || []).find((w: any) => w.name === this.walletName);
+    if (!wallet) {
+      throw new Error(`KMD wallet "${this.walletName}" not found`);
+    }
+
+    const { wallet_handle_token: handle } =
+      await this.kmdClient.initWalletHandle(wallet.id, this.walletPassword);
+
+    try {
+      const signed: Uint8Array[] = [];
+      for (const txn of txns) {
+        signed.push(
+          await this.kmdClient.signTransaction(handle, this.walletPassword, txn)
+        );
+      }
+      return signed;
+    } finally {
+      await this.kmdClient.releaseWalletHandle(handle);
+    }
+  }
+}
+
+/**
+ * Bridge operator signer backed by a KMD wallet
+ */
+export class KmdBridgeSigner extends KmdSigner implements AlgorandBridgeSigner {
+  readonly chainType = ChainType.ALGORAND;
+  private address: string;
+
+  /**
+   * Constructor
+   *
+   * @param kmdClient KMD client
+   * @param walletName Name of the wallet holding the operator key
+   * @param walletPassword Wallet password
+   * @param address Operator address held in the wallet
+   */
+  constructor(
+    kmdClient: Kmd,
+    walletName: string,
+    walletPassword: string,
+    address: string
+  ) {
+    super(kmdClient, walletName, walletPassword);
+    this.address = address;
+  }
+
+  async getAddress(): Promise<string> {
+    return this.address;
+  }
+}
+
+/**
+ * Signer that delegates to an external callback
+ */
+export class CallbackSigner implements AlgorandSigner {
+  private callback: AlgorandSignCallback;
+
+  /**
+   * Constructor
+   *
+   * @param callback Function that signs the transactions
+   */
+  constructor(callback: AlgorandSignCallback) {
+    this.callback = callback;
+  }
+
+  async signTransactions(txns: Transaction[]): Promise<Uint8Array[]> {
+    return this.callback(txns);
+  }
+}
+
+/**
+ * Sign transactions and check the signer returned exactly what was asked
+ *
+ * @param signer Algorand signer
+ * @param txns Unsigned transactions
+ * @returns Signed transaction blobs
+ */
+export async function signAndCheck(
+  signer: AlgorandSigner,
+  txns: Transaction[]
+): Promise<Uint8Array[]> {
+  const signed = await signer.signTransactions(txns);
+
+  if (signed.length !== txns.length) {
+    throw new Error(
+      `Signer returned ${signed.length} transactions, expected ${txns.length}`
+    );
+  }
+
+  signed.forEach((blob, i) => {
+    const decoded = algosdk.decodeSignedTransaction(blob);
+    if (decoded.txn.txID() !== txns[i].txID()) {
+      throw new Error(`Signer returned a different transaction at index ${i}`);
+    }
+  });
+
+  return signed;
+}
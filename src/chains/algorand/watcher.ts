@@ -0,0 +1,308 @@
+import { Indexer, getApplicationAddress } from "algosdk";
+import {
+  BridgeConfig,
+  BridgeStatus,
+  BridgeStorageAdapter,
+  BridgeTransaction,
+  ChainType,
+} from "../../types";
+import { bridgeEvents, BridgeEventType } from "../../events";
+import { calculateProtocolFee } from "../../fees";
+import { fromBaseUnits, resolveAssetDecimals } from "../../amounts";
+import { EMPTY_METADATA_HASH } from "../../metadata";
+import { getChainConfig } from "../../config";
+import { recordConfirmedSource } from "../../lifecycle";
+
+/**
+ * Options for the Algorand lock watcher
+ */
+export interface AlgorandLockWatcherOptions {
+  pollIntervalMs?: number; // Delay between indexer polls (default 5s)
+  startRound?: number; // Round to start from when no checkpoint exists
+}
+
+/**
+ * Decode a base64 application argument to a UTF-8 string
+ *
+ * @param arg Base64 encoded argument
+ * @returns Decoded string
+ */
+function decodeAppArg(arg: string | undefined): string {
+  return arg ? Buffer.from(arg, "base64").toString() : "";
+}
+
+/**
+ * Watches the Algorand indexer for confirmed lock groups on the escrow app
+ *
+ * A LOCK event is emitted only once the asset transfer and `lock` app call
+ * have been confirmed on-chain. The last processed round is checkpointed in
+ * the bridge storage so a restart resumes where the previous run stopped;
+ * locks are stored before the checkpoint is saved.
+ */
+export class AlgorandLockWatcher {
+  private indexerClient: Indexer;
+  private config: BridgeConfig;
+  private storage: BridgeStorageAdapter;
+  private pollIntervalMs: number;
+  private startRound?: number;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  /**
+   * Constructor
+   *
+   * @param config Bridge configuration
+   * @param storage Storage adapter used for the round checkpoint and locks
+   * @param options Watcher options
+   */
+  constructor(
+    config: BridgeConfig,
+    storage: BridgeStorageAdapter,
+    options: AlgorandLockWatcherOptions = {}
+  ) {
+    this.config = config;
+    this.storage = storage;
+    this.indexerClient = new Indexer("", config.algorand.indexerUrl, "");
+    this.pollIntervalMs = options.pollIntervalMs ?? 5000;
+    this.startRound = options.startRound;
+  }
+
+  /**
+   * Name of the round checkpoint in storage
+   */
+  get checkpointName(): string {
+    return `algorand-lock-watcher:${this.config.algorand.escrowAppId}`;
+  }
+
+  /**
+   * Start polling the indexer
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    this.schedule(0);
+  }
+
+  /**
+   * Stop polling the indexer
+   */
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Schedule the next poll
+   *
+   * @param delayMs Delay in milliseconds
+   */
+  private schedule(delayMs: number): void {
+    this.timer = setTimeout(async () => {
+      try {
+        await this.poll();
+      } catch (error) {
+        console.error("Error polling Algorand for lock transactions:", error);
+      }
+
+      if (this.running) {
+        this.schedule(this.pollIntervalMs);
+      }
+    }, delayMs);
+  }
+
+  /**
+   * Process all lock groups confirmed since the last checkpoint
+   *
+   * @returns Confirmed lock transactions that were emitted
+   */
+  async poll(): Promise<BridgeTransaction[]> {
+    const health = await this.indexerClient.makeHealthCheck().do();
+    const currentRound: number = health["round"];
+
+    const checkpoint = await this.storage.getCheckpoint(this.checkpointName);
+    const fromRound =
+      checkpoint !== undefined
+        ? checkpoint + 1
+        : (this.startRound ?? currentRound);
+
+    if (fromRound > currentRound) {
+      return [];
+    }
+
+    const appCalls = await this.searchLockCalls(fromRound, currentRound);
+    const locks: BridgeTransaction[] = [];
+
+    for (const appCall of appCalls) {
+      const lock = await this.buildLockTransaction(appCall);
+      if (lock) {
+        locks.push(lock);
+      }
+    }
+
+    // Emit in on-chain order. Each lock is stored before the checkpoint
+    // moves past it, so it is resumed after a restart even if the bridge
+    // had not handled the event yet.
+    locks.sort((a, b) => (a.sourceBlock ?? 0) - (b.sourceBlock ?? 0));
+    for (const lock of locks) {
+      await recordConfirmedSource(
+        this.storage,
+        lock,
+        "Lock confirmed on Algorand"
+      );
+      bridgeEvents.emitBridgeEvent(BridgeEventType.LOCK, lock, {
+        transactionId: lock.sourceTransactionId,
+        round: lock.sourceBlock,
+      });
+    }
+
+    await this.storage.saveCheckpoint(this.checkpointName, currentRound);
+    return locks;
+  }
+
+  /**
+   * Find confirmed `lock` app calls to the escrow app in a round range
+   *
+   * @param minRound First round (inclusive)
+   * @param maxRound Last round (inclusive)
+   * @returns Indexer transaction records
+   */
+  private async searchLockCalls(
+    minRound: number,
+    maxRound: number
+  ): Promise<any[]> {
+    const appCalls: any[] = [];
+    let nextToken: string | undefined;
+
+    do {
+      const query = this.indexerClient
+        .searchForTransactions()
+        .applicationID(this.config.algorand.escrowAppId)
+        .txType("appl")
+        .minRound(minRound)
+        .maxRound(maxRound);
+
+      if (nextToken) {
+        query.nextToken(nextToken);
+      }
+
+      const response = await query.do();
+      const transactions: any[] = response["transactions"] || [];
+
+      appCalls.push(
+        ...transactions.filter(
+          (txn) =>
+            txn["application-transaction"]?.["application-id"] ===
+              this.config.algorand.escrowAppId &&
+            decodeAppArg(
+              txn["application-transaction"]["application-args"]?.[0]
+            ) === "lock"
+        )
+      );
+
+      nextToken = transactions.length > 0 ? response["next-token"] : undefined;
+    } while (nextToken);
+
+    return appCalls;
+  }
+
+  /**
+   * Build a bridge transaction from a confirmed lock app call
+   *
+   * @param appCall Indexer record of the `lock` app call
+   * @returns Bridge transaction or null if the group is incomplete
+   */
+  private async buildLockTransaction(
+    appCall: any
+  ): Promise<BridgeTransaction | null> {
+    const appArgs: string[] =
+      appCall["application-transaction"]["application-args"] || [];
+    const bridgeId = decodeAppArg(appArgs[1]);
+    const receiver = decodeAppArg(appArgs[2]);
+    // Optional commitment to the carbon credit metadata; an empty hash
+    // only pads the arguments before a named target chain
+    const committedHash = appArgs[3]
+      ? `0x${Buffer.from(appArgs[3], "base64").toString("hex")}`
+      : undefined;
+    const metadataHash =
+      committedHash !== EMPTY_METADATA_HASH ? committedHash : undefined;
+    const targetChain =
+      (decodeAppArg(appArgs[4]) as ChainType) ||
+      this.config.targetChain.chainType;
+    const round: number = appCall["confirmed-round"];
+
+    if (!bridgeId || !receiver || !appCall["group"]) {
+      console.error(
+        `Skipping malformed lock call ${appCall["id"]} in round ${round}`
+      );
+      return null;
+    }
+
+    let config: BridgeConfig;
+    try {
+      config = getChainConfig(this.config, targetChain);
+    } catch (error) {
+      console.error(
+        `Skipping lock call ${appCall["id"]} for unsupported target chain ${targetChain}`
+      );
+      return null;
+    }
+
+    // Find the asset transfer in the same group
+    const response = await this.indexerClient
+      .searchForTransactions()
+      .round(round)
+      .txType("axfer")
+      .assetID(this.config.algorand.carbonAssetId)
+      .address(getApplicationAddress(this.config.algorand.escrowAppId))
+      .addressRole("receiver")
+      .do();
+
+    const assetTransfer = (response["transactions"] || []).find(
+      (txn: any) => txn["group"] === appCall["group"]
+    );
+
+    if (!assetTransfer) {
+      console.error(
+        `No escrow asset transfer found in group of lock call ${appCall["id"]}`
+      );
+      return null;
+    }
+
+    // The indexer reports the transfer in base units of the ASA
+    await resolveAssetDecimals(this.config);
+    const transfer = assetTransfer["asset-transfer-transaction"];
+    const sourceAmount = {
+      baseUnits: transfer["amount"].toString(),
+      decimals: this.config.algorand.decimals!,
+    };
+    const amount = fromBaseUnits(sourceAmount.baseUnits, sourceAmount.decimals);
+
+    return {
+      id: bridgeId,
+      sourceChain: ChainType.ALGORAND,
+      targetChain,
+      sourceAssetId: this.config.algorand.carbonAssetId.toString(),
+      targetAssetId: config.targetChain.tokenContractAddress,
+      amount,
+      protocolFee: calculateProtocolFee(amount, config),
+      sourceAmount,
+      sender: appCall["sender"],
+      receiver,
+      status: BridgeStatus.LOCKED,
+      sourceTransactionId: appCall["id"],
+      sourceBlock: round,
+      timestamp: appCall["round-time"]
+        ? appCall["round-time"] * 1000
+        : Date.now(),
+      nonce: appCall["first-valid"],
+      // The metadata itself is kept with the bridge record created by the lock
+      ...(metadataHash ? { metadataHash } : {}),
+    };
+  }
+}
@@ -22,7 +22,7 @@ export function getBridgeContractABI(): any[] {
       anonymous: false,
       inputs: [
         {
-          indexed: true,
+          indexed: false,
           internalType: "string",
           name: "bridgeId",
           type: "string",
@@ -76,10 +76,78 @@ export function getBridgeContractABI(): any[] {
           name: "algorandTxId",
           type: "string",
         },
+        {
+          indexed: false,
+          internalType: "bytes32",
+          name: "metadataHash",
+          type: "bytes32",
+        },
       ],
       name: "TokensMinted",
       type: "event",
     },
+    {
+      anonymous: false,
+      inputs: [
+        {
+          indexed: false,
+          internalType: "string",
+          name: "bridgeId",
+          type: "string",
+        },
+        {
+          indexed: true,
+          internalType: "address",
+          name: "sender",
+          type: "address",
+        },
+        {
+          indexed: false,
+          internalType: "string",
+          name: "beneficiary",
+          type: "string",
+        },
+        {
+          indexed: false,
+          internalType: "string",
+          name: "reason",
+          type: "string",
+        },
+        {
+          indexed: false,
+          internalType: "uint256",
+          name: "amount",
+          type: "uint256",
+        },
+      ],
+      name: "TokensRetired",
+      type: "event",
+    },
+    {
+      anonymous: false,
+      inputs: [
+        {
+          indexed: true,
+          internalType: "string",
+          name: "bridgeId",
+          type: "string",
+        },
+        {
+          indexed: true,
+          internalType: "address",
+          name: "receiver",
+          type: "address",
+        },
+        {
+          indexed: false,
+          internalType: "uint256",
+          name: "amount",
+          type: "uint256",
+        },
+      ],
+      name: "TokensRefunded",
+      type: "event",
+    },
     {
       inputs: [
         { internalType: "uint256", name: "amount", type: "uint256" },
@@ -91,6 +159,21 @@ export function getBridgeContractABI(): any[] {
       stateMutability: "nonpayable",
       type: "function",
     },
+    {
+      inputs: [
+        { internalType: "uint256", name: "amount", type: "uint256" },
+        { internalType: "string", name: "bridgeId", type: "string" },
+        { internalType: "string", name: "algorandReceiver", type: "string" },
+        { internalType: "uint256", name: "deadline", type: "uint256" },
+        { internalType: "uint8", name: "v", type: "uint8" },
+        { internalType: "bytes32", name: "r", type: "bytes32" },
+        { internalType: "bytes32", name: "s", type: "bytes32" },
+      ],
+      name: "burnWithPermit",
+      outputs: [],
+      stateMutability: "nonpayable",
+      type: "function",
+    },
     {
       inputs: [{ internalType: "string", name: "bridgeId", type: "string" }],
       name: "getBridgeStatus",
@@ -127,6 +210,7 @@ export function getBridgeContractABI(): any[] {
         { internalType: "uint256", name: "amount", type: "uint256" },
         { internalType: "string", name: "bridgeId", type: "string" },
         { internalType: "string", name: "algorandTxId", type: "string" },
+        { internalType: "bytes32", name: "metadataHash", type: "bytes32" },
         { internalType: "bytes[]", name: "signatures", type: "bytes[]" },
       ],
       name: "mint",
@@ -148,6 +232,30 @@ export function getBridgeContractABI(): any[] {
       stateMutability: "view",
       type: "function",
     },
+    {
+      inputs: [
+        { internalType: "address", name: "receiver", type: "address" },
+        { internalType: "uint256", name: "amount", type: "uint256" },
+        { internalType: "string", name: "bridgeId", type: "string" },
+        { internalType: "bytes[]", name: "signatures", type: "bytes[]" },
+      ],
+      name: "refund",
+      outputs: [],
+      stateMutability: "nonpayable",
+      type: "function",
+    },
+    {
+      inputs: [
+        { internalType: "uint256", name: "amount", type: "uint256" },
+        { internalType: "string", name: "bridgeId", type: "string" },
+        { internalType: "string", name: "beneficiary", type: "string" },
+        { internalType: "string", name: "reason", type: "string" },
+      ],
+      name: "retire",
+      outputs: [],
+      stateMutability: "nonpayable",
+      type: "function",
+    },
     {
       inputs: [],
       name: "tokenContract",
@@ -284,6 +392,25 @@ export function getTokenContractABI(): any[] {
       stateMutability: "view",
       type: "function",
     },
+    {
+      inputs: [],
+      name: "eip712Domain",
+      outputs: [
+        { internalType: "bytes1", name: "fields", type: "bytes1" },
+        { internalType: "string", name: "name", type: "string" },
+        { internalType: "string", name: "version", type: "string" },
+        { internalType: "uint256", name: "chainId", type: "uint256" },
+        {
+          internalType: "address",
+          name: "verifyingContract",
+          type: "address",
+        },
+        { internalType: "bytes32", name: "salt", type: "bytes32" },
+        { internalType: "uint256[]", name: "extensions", type: "uint256[]" },
+      ],
+      stateMutability: "view",
+      type: "function",
+    },
     {
       inputs: [],
       name: "name",
@@ -291,6 +418,28 @@ export function getTokenContractABI(): any[] {
       stateMutability: "view",
       type: "function",
     },
+    {
+      inputs: [{ internalType: "address", name: "owner", type: "address" }],
+      name: "nonces",
+      outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+      stateMutability: "view",
+      type: "function",
+    },
+    {
+      inputs: [
+        { internalType: "address", name: "owner", type: "address" },
+        { internalType: "address", name: "spender", type: "address" },
+        { internalType: "uint256", name: "value", type: "uint256" },
+        { internalType: "uint256", name: "deadline", type: "uint256" },
+        { internalType: "uint8", name: "v", type: "uint8" },
+        { internalType: "bytes32", name: "r", type: "bytes32" },
+        { internalType: "bytes32", name: "s", type: "bytes32" },
+      ],
+      name: "permit",
+      outputs: [],
+      stateMutability: "nonpayable",
+      type: "function",
+    },
     {
       inputs: [
         { internalType: "address", name: "from", type: "address" },
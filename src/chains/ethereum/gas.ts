@@ -0,0 +1,107 @@
+import { ethers } from "ethers";
+import { BridgeConfig } from "../../types";
+import { calculateMaxFeePerGas } from "../../utils";
+
+/**
+ * Gas fee fields of an EVM transaction
+ *
+ * Either `gasPrice` is set for legacy pricing, or the EIP-1559 pair.
+ */
+export interface GasFees {
+  gasPrice?: bigint;
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+}
+
+/**
+ * Number of recent blocks the priority fee is sampled from
+ */
+const FEE_HISTORY_BLOCKS = 10;
+
+/**
+ * Percentile of the priority fees paid in each sampled block
+ */
+const PRIORITY_FEE_PERCENTILE = 50;
+
+/**
+ * Priority fee used when the sampled blocks carry no priority fees (1 gwei)
+ */
+const DEFAULT_PRIORITY_FEE = 1000000000n;
+
+/**
+ * Get the gas fees for a bridge transaction
+ *
+ * A configured `gasPrice`, in gwei, forces legacy pricing. Otherwise the
+ * priority fee is the median of recent blocks' priority fees from
+ * `eth_feeHistory`, and the max fee leaves room for the base fee to double.
+ * Chains that report no base fee fall back to `eth_gasPrice`.
+ *
+ * @param provider JSON-RPC provider of the target chain
+ * @param config Bridge configuration
+ * @returns Gas fee fields
+ */
+export async function getGasFees(
+  provider: ethers.JsonRpcProvider,
+  config: BridgeConfig
+): Promise<GasFees> {
+  const { gasPrice, maxFeePerGas, maxPriorityFeePerGas } = config.targetChain;
+  if (gasPrice) {
+    return { gasPrice: ethers.parseUnits(gasPrice, "gwei") };
+  }
+
+  const history = await provider.send("eth_feeHistory", [
+    ethers.toQuantity(FEE_HISTORY_BLOCKS),
+    "latest",
+    [PRIORITY_FEE_PERCENTILE],
+  ]);
+
+  // The last base fee is that of the next block
+  const baseFees: string[] = history?.baseFeePerGas ?? [];
+  const nextBaseFee = baseFees.length
+    ? BigInt(baseFees[baseFees.length - 1])
+    : 0n;
+  if (nextBaseFee === 0n) {
+    return { gasPrice: BigInt(await provider.send("eth_gasPrice", [])) };
+  }
+
+  let priorityFee = maxPriorityFeePerGas
+    ? BigInt(maxPriorityFeePerGas)
+    : getMedianPriorityFee(history.reward ?? []);
+  let maxFee = BigInt(calculateMaxFeePerGas(nextBaseFee, priorityFee));
+
+  if (maxFeePerGas && maxFee > BigInt(maxFeePerGas)) {
+    maxFee = BigInt(maxFeePerGas);
+  }
+  if (priorityFee > maxFee) {
+    priorityFee = maxFee;
+  }
+
+  return { maxFeePerGas: maxFee, maxPriorityFeePerGas: priorityFee };
+}
+
+/**
+ * Get the median of the sampled priority fees
+ *
+ * Empty blocks report a zero fee and are left out.
+ *
+ * @param rewards Priority fees per block, one per requested percentile
+ * @returns Priority fee in wei
+ */
+function getMedianPriorityFee(rewards: string[][]): bigint {
+  const fees = rewards
+    .map((blockRewards) => BigInt(blockRewards[0] ?? 0))
+    .filter((fee) => fee > 0n)
+    .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+
+  return fees.length ? fees[Math.floor(fees.length / 2)] : DEFAULT_PRIORITY_FEE;
+}
+
+/**
+ * Get the most a transaction can pay per gas
+ *
+ * @param fees Gas fee fields
+ * @returns Max fee per gas, or the legacy gas price, in wei
+ */
+export function getMaxGasPrice(fees: GasFees): bigint {
+  return fees.maxFeePerGas ?? fees.gasPrice ?? 0n;
+}
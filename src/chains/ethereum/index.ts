@@ -1,25 +1,88 @@
 import { ethers } from "ethers";
+import { getApplicationAddress } from "algosdk";
+import BigNumber from "bignumber.js";
 import {
   BridgeConfig,
   BridgeOptions,
   BridgeResult,
   BridgeStatus,
+  BridgeStorageAdapter,
   BridgeTransaction,
+  ChainHandler,
   ChainType,
+  RetirementDetails,
+  VerifierSignature,
 } from "../../types";
 import { bridgeEvents, BridgeEventType } from "../../events";
 import { generateBridgeId } from "../../utils";
 import { getBridgeContractABI, getTokenContractABI } from "./contracts";
+import {
+  EthereumBurnWatcher,
+  EthereumBurnWatcherOptions,
+  getBurnEventType,
+  parseBurnLog,
+} from "./watcher";
+import { transitionTransaction } from "../../lifecycle";
+import { calculateProtocolFee } from "../../fees";
+import {
+  fromBaseUnits,
+  resolveAssetDecimals,
+  toAssetAmount,
+} from "../../amounts";
+import { EMPTY_METADATA_HASH } from "../../metadata";
+import { checkChainId, EVM_NETWORKS, getExpectedChainId } from "./networks";
+import { GasFees, getGasFees, getMaxGasPrice } from "./gas";
+import { EthereumNonceManager, ManagedTransactionResult } from "./nonces";
+import {
+  buildPermitTypedData,
+  PERMIT_VALIDITY_SECONDS,
+  PermitTypedData,
+  validatePermit,
+} from "./permits";
+
+/**
+ * Encode verifier signatures for the bridge contract's `bytes[]` argument
+ *
+ * Signatures are normalized to 65-byte `r || s || v` form, deduplicated by
+ * signer and sorted by ascending signer address, so the contract can reject
+ * repeated signers with a single strictly-increasing check.
+ *
+ * @param verifierSignatures Verifier signatures with their signer addresses
+ * @returns Hex encoded signatures
+ */
+export function encodeVerifierSignatures(
+  verifierSignatures: VerifierSignature[]
+): string[] {
+  const bySigner = new Map<bigint, string>();
+
+  for (const { signer, signature } of verifierSignatures) {
+    const key = BigInt(ethers.getAddress(signer));
+    if (!bySigner.has(key)) {
+      bySigner.set(key, ethers.Signature.from(signature).serialized);
+    }
+  }
+
+  return [...bySigner.entries()]
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([, signature]) => signature);
+}
 
 /**
- * Ethereum chain handler
+ * EVM chain handler
+ *
+ * Serves Ethereum and the other EVM chains (Polygon, Base, Arbitrum and
+ * local anvil or hardhat nodes); the chain is selected by
+ * `targetChain.chainType` and `targetChain.chainId`.
  */
-export class EthereumChainHandler {
+export class EthereumChainHandler implements ChainHandler {
+  readonly chainType: ChainType;
   private provider: ethers.JsonRpcProvider;
   private bridgeContract: ethers.Contract;
   private tokenContract: ethers.Contract;
   private config: BridgeConfig;
-  private wallet: ethers.Wallet | null = null;
+  private operatorSigner: Promise<ethers.Signer> | null = null;
+  private chainIdCheck: Promise<void> | null = null;
+  private nonceManager: EthereumNonceManager | null = null;
 
   /**
    * Constructor
@@ -28,6 +91,7 @@ export class EthereumChainHandler {
    */
   constructor(config: BridgeConfig) {
     this.config = config;
+    this.chainType = config.targetChain.chainType;
     this.provider = new ethers.JsonRpcProvider(config.targetChain.rpcUrl);
 
     // Initialize bridge contract
@@ -37,50 +101,113 @@ export class EthereumChainHandler {
       this.provider
     );
 
-    // Initialize token contract
+    // Initialize wrapped token contract
     this.tokenContract = new ethers.Contract(
       config.targetChain.tokenContractAddress,
       getTokenContractABI(),
       this.provider
     );
+  }
+
+  /**
+   * Resolve the operator signer and connect it to the provider
+   *
+   * @returns Connected operator signer
+   */
+  private getOperatorSigner(): Promise<ethers.Signer> {
+    const bridgeSigner = this.config.targetChain.signer;
+    if (!bridgeSigner) {
+      return Promise.reject(new Error("Ethereum signer not configured"));
+    }
+
+    if (!this.operatorSigner) {
+      this.operatorSigner = bridgeSigner.getSigner(this.provider);
+
+      // Allow a retry if the signer could not be resolved
+      this.operatorSigner.catch(() => {
+        this.operatorSigner = null;
+      });
+    }
+    return this.operatorSigner;
+  }
 
-    // Initialize wallet if private key is provided
-    if (process.env.BRIDGE_ETHEREUM_PRIVATE_KEY) {
-      this.wallet = new ethers.Wallet(
-        process.env.BRIDGE_ETHEREUM_PRIVATE_KEY,
-        this.provider
+  /**
+   * Get the nonce manager of the operator signer
+   *
+   * All mints of this handler share it, so they never race for a nonce.
+   *
+   * @returns Nonce manager
+   */
+  private async getNonceManager(): Promise<EthereumNonceManager> {
+    const signer = await this.getOperatorSigner();
+    if (!this.nonceManager) {
+      this.nonceManager = new EthereumNonceManager(
+        this.provider,
+        signer,
+        () => this.getGasFees(),
+        {
+          stuckAfterMs: this.config.targetChain.stuckTransactionMs,
+          maxSpeedUps: this.config.targetChain.maxSpeedUps,
+        }
       );
+    }
+    return this.nonceManager;
+  }
+
+  /**
+   * Check once that the RPC serves the configured chain
+   *
+   * @throws Error if the RPC reports a different chain ID
+   */
+  private checkNetwork(): Promise<void> {
+    if (!this.chainIdCheck) {
+      this.chainIdCheck = checkChainId(this.provider, this.config);
 
-      // Connect contracts to wallet
-      this.bridgeContract = this.bridgeContract.connect(
-        this.wallet
-      ) as ethers.Contract;
-      this.tokenContract = this.tokenContract.connect(
-        this.wallet
-      ) as ethers.Contract;
+      // Allow a retry if the RPC could not be reached
+      this.chainIdCheck.catch(() => {
+        this.chainIdCheck = null;
+      });
     }
+    return this.chainIdCheck;
   }
 
   /**
    * Mint wrapped carbon credits on Ethereum
    *
+   * The protocol fee is deducted from `amount`, unless `options.feeExempt`
+   * is set. Mints go through the nonce manager, which speeds up or cancels
+   * a mint that gets stuck; the result lists those replacements. A mint
+   * still unmined once the manager gives up is returned as PENDING with the
+   * hashes that may still be mined.
+   *
    * @param bridgeId Bridge transaction ID
    * @param receiver Receiver address on Ethereum
-   * @param amount Amount of carbon credits to mint
+   * @param amount Whole credits locked on Algorand, before the protocol fee
    * @param sourceTransactionId Source transaction ID on Algorand
    * @param options Bridge options
+   * @param verifierSignatures Verifier signatures accepted during verification
+   * @param metadataHash Carbon credit metadata hash committed in the lock
    * @returns Bridge operation result
    */
   async mintWrappedCarbonCredits(
     bridgeId: string,
     receiver: string,
-    amount: string,
+    amount: number | string | BigNumber,
     sourceTransactionId: string,
-    options?: BridgeOptions
+    options?: BridgeOptions,
+    verifierSignatures: VerifierSignature[] = [],
+    metadataHash: string = EMPTY_METADATA_HASH
   ): Promise<BridgeResult> {
     try {
-      if (!this.wallet) {
-        throw new Error("Ethereum wallet not configured");
+      const signer = await this.getOperatorSigner();
+      await this.checkNetwork();
+
+      // Encode signatures in the order the contract checks them
+      const signatures = encodeVerifierSignatures(verifierSignatures);
+      if (signatures.length < this.config.minVerifierSignatures) {
+        throw new Error(
+          `Mint requires ${this.config.minVerifierSignatures} verifier signatures, got ${signatures.length}`
+        );
       }
 
       // Validate receiver address
@@ -88,58 +215,88 @@ export class EthereumChainHandler {
         throw new Error("Invalid Ethereum receiver address");
       }
 
+      const protocolFee = options?.feeExempt
+        ? new BigNumber(0)
+        : calculateProtocolFee(amount, this.config);
+
+      await resolveAssetDecimals(this.config);
+      const targetAmount = toAssetAmount(
+        new BigNumber(amount).minus(protocolFee),
+        this.config.targetChain.decimals!
+      );
+
       // Create transaction object
-      const bridgeTransaction: BridgeTransaction = {
+      let bridgeTransaction: BridgeTransaction = {
         id: bridgeId,
         sourceChain: ChainType.ALGORAND,
         targetChain: this.config.targetChain.chainType,
         sourceAssetId: this.config.algorand.carbonAssetId.toString(),
         targetAssetId: this.config.targetChain.tokenContractAddress,
-        amount: new ethers.BigNumber(amount),
-        sender: this.wallet.address,
+        amount: new BigNumber(amount),
+        protocolFee,
+        targetAmount,
+        sender: await signer.getAddress(),
         receiver,
         status: BridgeStatus.PENDING,
         sourceTransactionId,
         timestamp: Date.now(),
         nonce: Date.now(),
+        metadataHash,
       };
 
       // Emit pending event
       bridgeEvents.emitBridgeEvent(BridgeEventType.MINT, bridgeTransaction);
 
-      // Get signatures from verifiers - in a real implementation
-      // this would call the signature collection service
-      const signatures: string[] = [];
-      
-      // Set transaction options with gas price management
-      const gasPrice = this.config.targetChain.gasPrice
-        ? ethers.parseUnits(this.config.targetChain.gasPrice, "gwei")
-        : ethers.BigNumber.from(await this.provider.send("eth_gasPrice", []));
-        
-      // Add a safety margin to gas price to ensure transaction doesn't get stuck
-      const adjustedGasPrice = gasPrice.mul(110).div(100); // 10% increase
-      
-      const txOptions = {
-        gasPrice: adjustedGasPrice,
-        gasLimit: this.config.targetChain.gasLimit || 300000,
-      };
-
       // Call bridge contract to mint tokens
-      const tx = await this.bridgeContract.mint(
+      const data = this.bridgeContract.interface.encodeFunctionData("mint", [
         receiver,
-        ethers.parseUnits(amount, "ether"),
+        BigInt(targetAmount.baseUnits),
         bridgeId,
         sourceTransactionId,
+        metadataHash,
         signatures,
-        txOptions
-      );
+      ]);
+      const { receipt, cancelled, replacements, transactionIds } =
+        await this.sendBridgeCall(data);
+
+      // The nonce manager gave up, but the mint or one of its replacements
+      // may still be mined, so the mint is neither done nor failed
+      if (!receipt) {
+        return {
+          success: true,
+          transactionId: transactionIds[transactionIds.length - 1],
+          bridgeId,
+          status: BridgeStatus.PENDING,
+          error: `Mint is still pending after ${replacements.length} replacements`,
+          replacements,
+          pendingTransactionIds: transactionIds,
+        };
+      }
 
-      // Wait for transaction confirmation with timeout
-      const receipt = await tx.wait(2); // Wait for 2 confirmations
+      if (cancelled || receipt.status !== 1) {
+        return {
+          success: false,
+          transactionId: receipt.hash,
+          bridgeId,
+          status: BridgeStatus.FAILED,
+          error: cancelled
+            ? "Mint was cancelled after it got stuck"
+            : "Mint transaction reverted",
+          replacements,
+        };
+      }
 
       // Update transaction status
       bridgeTransaction.targetTransactionId = receipt.hash;
-      bridgeTransaction.status = BridgeStatus.MINTED;
+      bridgeTransaction.replacements = replacements;
+      bridgeTransaction = transitionTransaction(
+        bridgeTransaction,
+        BridgeStatus.MINTED,
+        {
+          reason: "Mint confirmed on target chain",
+          chainTransactionId: receipt.hash,
+        }
+      );
 
       // Emit mint event
       bridgeEvents.emitBridgeEvent(BridgeEventType.MINT, bridgeTransaction, {
@@ -154,18 +311,20 @@ export class EthereumChainHandler {
         bridgeId,
         status: BridgeStatus.MINTED,
         receipt,
+        replacements,
       };
     } catch (error: any) {
       console.error("Error minting wrapped carbon credits:", error);
       
       // Check if error is due to gas price
       if (error.code === 'INSUFFICIENT_FUNDS') {
+        const currency = EVM_NETWORKS[this.chainType]?.nativeCurrency ?? "ETH";
         return {
           success: false,
           transactionId: "",
           bridgeId,
           status: BridgeStatus.FAILED,
-          error: "Insufficient ETH for gas fees",
+          error: `Insufficient ${currency} for gas fees`,
         };
       }
       
@@ -179,25 +338,296 @@ export class EthereumChainHandler {
     }
   }
 
+  /**
+   * Get the outcome of a mint left pending by the nonce manager
+   *
+   * The mint and its replacements share a nonce, so at most one of them is
+   * mined.
+   *
+   * @param transactionIds Hashes of the mint and its replacements
+   * @returns MINTED once the mint has 2 confirmations, FAILED if a
+   * cancellation took its nonce or it reverted, PENDING otherwise; with the
+   * hash that was mined
+   */
+  async getPendingMintStatus(
+    transactionIds: string[]
+  ): Promise<{ status: BridgeStatus; transactionId?: string }> {
+    for (const hash of transactionIds) {
+      const receipt = await this.provider.getTransactionReceipt(hash);
+      if (!receipt) {
+        continue;
+      }
+      if ((await receipt.confirmations()) < 2) {
+        return { status: BridgeStatus.PENDING, transactionId: hash };
+      }
+
+      const minted =
+        receipt.status === 1 &&
+        receipt.to?.toLowerCase() ===
+          this.config.targetChain.bridgeContractAddress.toLowerCase();
+      return {
+        status: minted ? BridgeStatus.MINTED : BridgeStatus.FAILED,
+        transactionId: hash,
+      };
+    }
+
+    return { status: BridgeStatus.PENDING };
+  }
+
+  /**
+   * Refund burned wrapped carbon credits to their sender
+   *
+   * Called for a burn that was not released on Algorand within
+   * `timeoutBlocks`. The bridge contract re-mints the burned amount, without
+   * a protocol fee, and marks the burn's own record as refunded, so it can
+   * no longer be refunded again. Like mints, refunds go through the nonce
+   * manager.
+   *
+   * @param bridgeId Bridge transaction ID of the burn
+   * @param sender Address that burned the tokens
+   * @param amount Whole credits burned
+   * @param verifierSignatures Verifier signatures authorizing the refund
+   * @returns Bridge operation result
+   */
+  async refundWrappedCarbonCredits(
+    bridgeId: string,
+    sender: string,
+    amount: number | string | BigNumber,
+    verifierSignatures: VerifierSignature[] = []
+  ): Promise<BridgeResult> {
+    try {
+      await this.checkNetwork();
+
+      // Encode signatures in the order the contract checks them
+      const signatures = encodeVerifierSignatures(verifierSignatures);
+      if (signatures.length < this.config.minVerifierSignatures) {
+        throw new Error(
+          `Refund requires ${this.config.minVerifierSignatures} verifier signatures, got ${signatures.length}`
+        );
+      }
+
+      await resolveAssetDecimals(this.config);
+      const sourceAmount = toAssetAmount(
+        amount,
+        this.config.targetChain.decimals!
+      );
+
+      // Call bridge contract to refund the burn
+      const data = this.bridgeContract.interface.encodeFunctionData("refund", [
+        sender,
+        BigInt(sourceAmount.baseUnits),
+        bridgeId,
+        signatures,
+      ]);
+      const { receipt, cancelled, replacements } =
+        await this.sendBridgeCall(data);
+
+      if (!receipt || cancelled || receipt.status !== 1) {
+        return {
+          success: false,
+          transactionId: receipt?.hash ?? "",
+          bridgeId,
+          status: BridgeStatus.FAILED,
+          error: !receipt
+            ? `Refund is still pending after ${replacements.length} replacements`
+            : cancelled
+              ? "Refund was cancelled after it got stuck"
+              : "Refund transaction reverted",
+          replacements,
+        };
+      }
+
+      return {
+        success: true,
+        transactionId: receipt.hash,
+        bridgeId,
+        status: BridgeStatus.REFUNDED,
+        receipt,
+        replacements,
+      };
+    } catch (error: any) {
+      console.error("Error refunding wrapped carbon credits:", error);
+      return {
+        success: false,
+        transactionId: "",
+        bridgeId,
+        status: BridgeStatus.FAILED,
+        error: error.message || "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Send a bridge contract call from the operator through the nonce manager
+   *
+   * @param data Encoded contract call
+   * @returns Receipt after 2 confirmations, if the call was mined, and the
+   * replacements sent for it
+   */
+  private async sendBridgeCall(
+    data: string
+  ): Promise<ManagedTransactionResult> {
+    // Set transaction options with gas fee management
+    const fees = await this.getGasFees();
+
+    // Add a safety margin to a legacy gas price to ensure transaction
+    // doesn't get stuck. EIP-1559 max fees already leave that room.
+    if (fees.gasPrice) {
+      fees.gasPrice = (fees.gasPrice * 110n) / 100n; // 10% increase
+    }
+
+    const nonceManager = await this.getNonceManager();
+    return nonceManager.sendTransaction(
+      {
+        to: this.config.targetChain.bridgeContractAddress,
+        data,
+        gasLimit: this.config.targetChain.gasLimit || 300000,
+      },
+      fees,
+      2 // Wait for 2 confirmations
+    );
+  }
+
+  /**
+   * Get the gas fees for bridge transactions
+   *
+   * `targetChain.gasPrice` (in gwei) forces legacy pricing; otherwise
+   * EIP-1559 fees are derived from the chain's fee history.
+   *
+   * @returns Gas fee fields
+   */
+  async getGasFees(): Promise<GasFees> {
+    return getGasFees(this.provider, this.config);
+  }
+
+  /**
+   * Estimate the network fee of a bridge contract call
+   *
+   * @returns Estimated fee in the chain's native currency at the configured
+   * gas limit and max fee per gas
+   */
+  async estimateNetworkFee(): Promise<BigNumber> {
+    const gasPrice = getMaxGasPrice(await this.getGasFees());
+    const gasLimit = BigInt(this.config.targetChain.gasLimit || 300000);
+
+    return new BigNumber(ethers.formatEther(gasPrice * gasLimit));
+  }
+
+  /**
+   * Check that a sender holds the wrapped credits to burn
+   *
+   * @param sender Sender address
+   * @param value Amount to burn, in token base units
+   * @throws Error if the sender's balance is too low
+   */
+  private async checkBurnBalance(sender: string, value: bigint): Promise<void> {
+    const balance: bigint = await this.tokenContract.balanceOf(sender);
+    if (balance < value) {
+      const decimals = this.config.targetChain.decimals!;
+      throw new Error(
+        `Insufficient wrapped credit balance: ${sender} holds ${fromBaseUnits(
+          balance,
+          decimals
+        ).toFixed()}, needs ${fromBaseUnits(value, decimals).toFixed()}`
+      );
+    }
+  }
+
+  /**
+   * Build the `approve` transaction a burn needs, if any
+   *
+   * The bridge contract burns through its allowance from the sender, so the
+   * sender must approve it for the amount before burning.
+   *
+   * @param sender Sender address
+   * @param value Amount to burn, in token base units
+   * @returns Unsigned approve transaction, or undefined if the bridge
+   * contract's allowance already covers the amount
+   */
+  private async getBurnApproval(
+    sender: string,
+    value: bigint
+  ): Promise<Record<string, any> | undefined> {
+    const spender = this.config.targetChain.bridgeContractAddress;
+    const allowance: bigint = await this.tokenContract.allowance(
+      sender,
+      spender
+    );
+    if (allowance >= value) {
+      return undefined;
+    }
+
+    return {
+      to: this.config.targetChain.tokenContractAddress,
+      data: this.tokenContract.interface.encodeFunctionData("approve", [
+        spender,
+        value,
+      ]),
+      value: "0x0",
+      chainId: getExpectedChainId(this.config),
+    };
+  }
+
+  /**
+   * Build the EIP-2612 permit for the bridge contract to burn credits
+   *
+   * @param sender Sender address
+   * @param value Amount to burn, in token base units
+   * @param deadline Unix timestamp in seconds the permit is valid until
+   * @returns Permit typed data for the sender to sign
+   */
+  private async getBurnPermit(
+    sender: string,
+    value: bigint,
+    deadline: number
+  ): Promise<PermitTypedData> {
+    const chainId =
+      getExpectedChainId(this.config) ??
+      Number((await this.provider.getNetwork()).chainId);
+
+    return buildPermitTypedData(
+      this.tokenContract,
+      chainId,
+      sender,
+      this.config.targetChain.bridgeContractAddress,
+      value,
+      deadline,
+      this.config.targetChain.permitVersion
+    );
+  }
+
   /**
    * Burn wrapped carbon credits on Ethereum for bridging back to Algorand
    *
+   * The sender's balance is checked first. With `options.permit`, the burn
+   * goes through `burnWithPermit` and needs no allowance. Otherwise, if the
+   * bridge contract's allowance does not cover the amount, the receipt
+   * carries the `approve` transaction to send before the burn and the
+   * permit the sender can sign instead.
+   *
    * @param sender Sender address on Ethereum
    * @param algorandReceiver Receiver address on Algorand
-   * @param amount Amount of carbon credits to burn
+   * @param amount Amount of carbon credits to burn, in whole credits
    * @param options Bridge options
    * @returns Bridge operation result
    */
   async burnWrappedCarbonCredits(
     sender: string,
     algorandReceiver: string,
-    amount: string,
+    amount: number | string | BigNumber,
     options?: BridgeOptions
   ): Promise<BridgeResult> {
     try {
       // Generate unique bridge ID
       const bridgeId = generateBridgeId();
 
+      await this.checkNetwork();
+      await resolveAssetDecimals(this.config);
+      const sourceAmount = toAssetAmount(
+        amount,
+        this.config.targetChain.decimals!
+      );
+
       // Create transaction object
       const bridgeTransaction: BridgeTransaction = {
         id: bridgeId,
@@ -205,9 +635,9 @@ export class EthereumChainHandler {
         targetChain: ChainType.ALGORAND,
         sourceAssetId: this.config.targetChain.tokenContractAddress,
         targetAssetId: this.config.algorand.carbonAssetId.toString(),
-        amount: ethers.BigNumber.from(
-          ethers.parseUnits(amount, "ether").toString()
-        ),
+        amount: new BigNumber(amount),
+        protocolFee: calculateProtocolFee(amount, this.config),
+        sourceAmount,
         sender,
         receiver: algorandReceiver,
         status: BridgeStatus.PENDING,
@@ -215,32 +645,157 @@ export class EthereumChainHandler {
         nonce: Date.now(),
       };
 
-      // Emit pending event
-      bridgeEvents.emitBridgeEvent(BridgeEventType.BURN, bridgeTransaction);
+      const value = BigInt(sourceAmount.baseUnits);
+      await this.checkBurnBalance(sender, value);
 
       // Create data for transaction
-      const data = this.bridgeContract.interface.encodeFunctionData("burn", [
-        ethers.parseUnits(amount, "ether"),
+      let data: string;
+      let approval: Record<string, any> | undefined;
+      let permit: PermitTypedData | undefined;
+      if (options?.permit) {
+        const permitError = validatePermit(
+          await this.getBurnPermit(sender, value, options.permit.deadline),
+          options.permit
+        );
+        if (permitError) {
+          throw new Error(permitError);
+        }
+
+        const { v, r, s } = ethers.Signature.from(options.permit.signature);
+        data = this.bridgeContract.interface.encodeFunctionData(
+          "burnWithPermit",
+          [value, bridgeId, algorandReceiver, options.permit.deadline, v, r, s]
+        );
+      } else {
+        data = this.bridgeContract.interface.encodeFunctionData("burn", [
+          value,
+          bridgeId,
+          algorandReceiver,
+        ]);
+
+        approval = await this.getBurnApproval(sender, value);
+        if (approval) {
+          permit = await this.getBurnPermit(
+            sender,
+            value,
+            Math.floor(Date.now() / 1000) + PERMIT_VALIDITY_SECONDS
+          );
+        }
+      }
+
+      // Return unsigned transaction for user to sign. The BURN event is
+      // emitted by EthereumBurnWatcher once the burn is confirmed on-chain
+      return {
+        success: true,
+        transactionId: "",
         bridgeId,
-        algorandReceiver,
+        status: BridgeStatus.PENDING,
+        receipt: {
+          transaction: bridgeTransaction,
+          to: this.config.targetChain.bridgeContractAddress,
+          data,
+          value: "0x0",
+          chainId: getExpectedChainId(this.config),
+          gasPrice: this.config.targetChain.gasPrice,
+          maxFeePerGas: this.config.targetChain.maxFeePerGas,
+          maxPriorityFeePerGas: this.config.targetChain.maxPriorityFeePerGas,
+          gasLimit: this.config.targetChain.gasLimit,
+          approval,
+          permit,
+        },
+      };
+    } catch (error: any) {
+      console.error("Error burning wrapped carbon credits:", error);
+      return {
+        success: false,
+        transactionId: "",
+        bridgeId: "",
+        status: BridgeStatus.FAILED,
+        error: error.message || "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Retire wrapped carbon credits on Ethereum
+   *
+   * The tokens are burned like a bridge back, but the matching units are
+   * retired in the Algorand escrow instead of released. As with burns, the
+   * receipt carries an `approve` transaction if the allowance is too low.
+   *
+   * @param sender Sender address on Ethereum
+   * @param amount Amount of carbon credits to retire, in whole credits
+   * @param retirement Beneficiary and reason of the retirement
+   * @returns Bridge operation result
+   */
+  async retireWrappedCarbonCredits(
+    sender: string,
+    amount: number | string | BigNumber,
+    retirement: RetirementDetails
+  ): Promise<BridgeResult> {
+    try {
+      // Generate unique bridge ID
+      const bridgeId = generateBridgeId();
+
+      await this.checkNetwork();
+      await resolveAssetDecimals(this.config);
+      const sourceAmount = toAssetAmount(
+        amount,
+        this.config.targetChain.decimals!
+      );
+
+      // Create transaction object
+      const bridgeTransaction: BridgeTransaction = {
+        id: bridgeId,
+        sourceChain: this.config.targetChain.chainType,
+        targetChain: ChainType.ALGORAND,
+        sourceAssetId: this.config.targetChain.tokenContractAddress,
+        targetAssetId: this.config.algorand.carbonAssetId.toString(),
+        amount: new BigNumber(amount),
+        protocolFee: new BigNumber(0),
+        sourceAmount,
+        sender,
+        receiver: getApplicationAddress(this.config.algorand.escrowAppId),
+        status: BridgeStatus.PENDING,
+        timestamp: Date.now(),
+        nonce: Date.now(),
+        retirement,
+      };
+
+      const value = BigInt(sourceAmount.baseUnits);
+      await this.checkBurnBalance(sender, value);
+
+      // Create data for transaction
+      const data = this.bridgeContract.interface.encodeFunctionData("retire", [
+        value,
+        bridgeId,
+        retirement.beneficiary,
+        retirement.reason,
       ]);
+      const approval = await this.getBurnApproval(sender, value);
 
-      // Return unsigned transaction for user to sign
+      // Return unsigned transaction for user to sign. The RETIRE event is
+      // emitted by EthereumBurnWatcher once the retirement is confirmed
       return {
         success: true,
         transactionId: "",
         bridgeId,
         status: BridgeStatus.PENDING,
         receipt: {
+          transaction: bridgeTransaction,
           to: this.config.targetChain.bridgeContractAddress,
           data,
           value: "0x0",
+          chainId: getExpectedChainId(this.config),
           gasPrice: this.config.targetChain.gasPrice,
+          maxFeePerGas: this.config.targetChain.maxFeePerGas,
+          maxPriorityFeePerGas: this.config.targetChain.maxPriorityFeePerGas,
           gasLimit: this.config.targetChain.gasLimit,
+          approval,
         },
       };
     } catch (error: any) {
-      console.error("Error burning wrapped carbon credits:", error);
+      console.error("Error retiring wrapped carbon credits:", error);
       return {
         success: false,
         transactionId: "",
@@ -252,7 +807,7 @@ export class EthereumChainHandler {
   }
 
   /**
-   * Process burn event from Ethereum for releasing on Algorand
+   * Process burn or retire event from Ethereum for propagating to Algorand
    *
    * @param transactionHash Ethereum transaction hash
    * @returns Bridge transaction data
@@ -269,56 +824,32 @@ export class EthereumChainHandler {
         throw new Error("Transaction not found");
       }
 
-      // Find burn event
-      const burnEvents = receipt.logs
-        .filter(
-          (log) =>
-            log.address.toLowerCase() ===
-            this.config.targetChain.bridgeContractAddress.toLowerCase()
-        )
-        .map((log) => {
-          try {
-            return this.bridgeContract.interface.parseLog({
-              topics: log.topics as string[],
-              data: log.data,
-            });
-          } catch (e) {
-            return null;
-          }
-        })
-        .filter((event) => event && event.name === "TokensBurned");
-
-      if (burnEvents.length === 0) {
-        throw new Error("Burn event not found in transaction");
-      }
+      // Find burn event emitted by the bridge contract
+      let bridgeTransaction: BridgeTransaction | null = null;
+      for (const log of receipt.logs) {
+        if (
+          log.address.toLowerCase() !==
+          this.config.targetChain.bridgeContractAddress.toLowerCase()
+        ) {
+          continue;
+        }
 
-      const burnEvent = burnEvents[0];
-
-      // Extract event data
-      const bridgeId = burnEvent?.args[0];
-      const amount = burnEvent?.args[1];
-      const algorandReceiver = burnEvent?.args[2];
+        bridgeTransaction = await parseBurnLog(this.config, this.provider, log);
+        if (bridgeTransaction) {
+          break;
+        }
+      }
 
-      // Create bridge transaction
-      const bridgeTransaction: BridgeTransaction = {
-        id: bridgeId,
-        sourceChain: this.config.targetChain.chainType,
-        targetChain: ChainType.ALGORAND,
-        sourceAssetId: this.config.targetChain.tokenContractAddress,
-        targetAssetId: this.config.algorand.carbonAssetId.toString(),
-        amount,
-        sender: receipt.from,
-        receiver: algorandReceiver,
-        status: BridgeStatus.BURNED,
-        sourceTransactionId: transactionHash,
-        timestamp: Date.now(),
-        nonce: receipt.blockNumber,
-      };
+      if (!bridgeTransaction) {
+        throw new Error("Burn event not found in transaction");
+      }
 
-      // Emit burn event
-      bridgeEvents.emitBridgeEvent(BridgeEventType.BURN, bridgeTransaction, {
-        transactionHash,
-      });
+      // Emit burn or retire event
+      bridgeEvents.emitBridgeEvent(
+        getBurnEventType(bridgeTransaction),
+        bridgeTransaction,
+        { transactionHash }
+      );
 
       return bridgeTransaction;
     } catch (error) {
@@ -338,13 +869,16 @@ export class EthereumChainHandler {
       // Call bridge contract to get transaction status
       const status = await this.bridgeContract.getBridgeStatus(bridgeId);
 
-      switch (status) {
+      // uint8 results are returned as bigint
+      switch (Number(status)) {
         case 0:
           return BridgeStatus.PENDING;
         case 1:
           return BridgeStatus.MINTED;
         case 2:
           return BridgeStatus.BURNED;
+        case 3:
+          return BridgeStatus.REFUNDED;
         default:
           return BridgeStatus.PENDING;
       }
@@ -353,4 +887,18 @@ export class EthereumChainHandler {
       return BridgeStatus.FAILED;
     }
   }
+
+  /**
+   * Create a watcher for burns and retirements on this chain
+   *
+   * @param storage Storage adapter used for the block checkpoint
+   * @param options Watcher options
+   * @returns Burn watcher
+   */
+  createWatcher(
+    storage: BridgeStorageAdapter,
+    options?: EthereumBurnWatcherOptions
+  ): EthereumBurnWatcher {
+    return new EthereumBurnWatcher(this.config, storage, options);
+  }
 }
@@ -0,0 +1,100 @@
+import { ethers } from "ethers";
+import { BridgeConfig, ChainType } from "../../types";
+
+/**
+ * Known EVM network of a chain type
+ */
+export interface EvmNetwork {
+  chainId: number; // Default chain ID
+  name: string;
+  nativeCurrency: string; // Symbol of the gas token
+  explorerUrl?: string; // Block explorer of the main network
+  testnetExplorerUrl?: string; // Block explorer of the test network
+}
+
+/**
+ * EVM networks by chain type
+ */
+export const EVM_NETWORKS: Partial<Record<ChainType, EvmNetwork>> = {
+  [ChainType.ETHEREUM]: {
+    chainId: 1,
+    name: "Ethereum",
+    nativeCurrency: "ETH",
+    explorerUrl: "https://etherscan.io",
+    testnetExplorerUrl: "https://sepolia.etherscan.io",
+  },
+  [ChainType.POLYGON]: {
+    chainId: 137,
+    name: "Polygon",
+    nativeCurrency: "POL",
+    explorerUrl: "https://polygonscan.com",
+    testnetExplorerUrl: "https://amoy.polygonscan.com",
+  },
+  [ChainType.BASE]: {
+    chainId: 8453,
+    name: "Base",
+    nativeCurrency: "ETH",
+    explorerUrl: "https://basescan.org",
+    testnetExplorerUrl: "https://sepolia.basescan.org",
+  },
+  [ChainType.ARBITRUM]: {
+    chainId: 42161,
+    name: "Arbitrum One",
+    nativeCurrency: "ETH",
+    explorerUrl: "https://arbiscan.io",
+    testnetExplorerUrl: "https://sepolia.arbiscan.io",
+  },
+  [ChainType.LOCAL]: {
+    chainId: 31337,
+    name: "Local",
+    nativeCurrency: "ETH",
+  },
+};
+
+/**
+ * Check whether a chain type is an EVM chain
+ *
+ * @param chainType Chain type
+ * @returns True for chains served by the EVM handler
+ */
+export function isEvmChain(chainType: ChainType): boolean {
+  return EVM_NETWORKS[chainType] !== undefined;
+}
+
+/**
+ * Get the chain ID a target chain is expected to have
+ *
+ * @param config Bridge configuration
+ * @returns Configured chain ID, or the default of the chain type
+ */
+export function getExpectedChainId(config: BridgeConfig): number | undefined {
+  const { chainType, chainId } = config.targetChain;
+  return chainId ?? EVM_NETWORKS[chainType]?.chainId;
+}
+
+/**
+ * Check that an RPC serves the configured chain
+ *
+ * Guards against minting or watching on the wrong network, e.g. a mainnet
+ * configuration pointed at a testnet RPC.
+ *
+ * @param provider JSON-RPC provider of the target chain
+ * @param config Bridge configuration
+ * @throws Error if the RPC reports a different chain ID
+ */
+export async function checkChainId(
+  provider: ethers.Provider,
+  config: BridgeConfig
+): Promise<void> {
+  const expected = getExpectedChainId(config);
+  if (expected === undefined) {
+    return;
+  }
+
+  const { chainId } = await provider.getNetwork();
+  if (chainId !== BigInt(expected)) {
+    throw new Error(
+      `RPC for ${config.targetChain.chainType} is on chain ID ${chainId}, expected ${expected}`
+    );
+  }
+}
@@ -0,0 +1,164 @@
+import { ethers } from "ethers";
+import { EthereumNonceManager } from "./nonces";
+import { GasFees } from "./gas";
+import { ReplacementType } from "../../types";
+
+const OPERATOR = "0x0000000000000000000000000000000000000001";
+const BRIDGE = "0x0000000000000000000000000000000000000002";
+
+describe("EthereumNonceManager", () => {
+  let sent: ethers.TransactionRequest[];
+  let mined: Set<string>;
+  let currentFees: GasFees;
+  let signer: any;
+  let provider: any;
+
+  /**
+   * Build a nonce manager that treats every pending transaction as stuck
+   */
+  function createManager(maxSpeedUps = 2) {
+    return new EthereumNonceManager(provider, signer, async () => currentFees, {
+      stuckAfterMs: 0,
+      maxSpeedUps,
+      pollIntervalMs: 0,
+    });
+  }
+
+  beforeEach(() => {
+    sent = [];
+    mined = new Set();
+    currentFees = { gasPrice: 100n };
+
+    signer = {
+      getAddress: async () => OPERATOR,
+      getNonce: jest.fn(async () => 7),
+      sendTransaction: jest.fn(async (tx: ethers.TransactionRequest) => {
+        sent.push(tx);
+        return { hash: `0x${sent.length}`, nonce: tx.nonce };
+      }),
+    };
+    provider = {
+      getTransactionReceipt: async (hash: string) =>
+        mined.has(hash) ? { hash, confirmations: async () => 1 } : null,
+    };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("assigns concurrent transactions consecutive nonces", async () => {
+    mined = new Set(["0x1", "0x2"]);
+    const manager = createManager();
+
+    const results = await Promise.all([
+      manager.sendTransaction({ to: BRIDGE, data: "0x01" }, currentFees),
+      manager.sendTransaction({ to: BRIDGE, data: "0x02" }, currentFees),
+    ]);
+
+    expect(sent.map((tx) => tx.nonce)).toEqual([7, 8]);
+    expect(signer.getNonce).toHaveBeenCalledTimes(1);
+    expect(results.map((result) => result.transactionIds)).toEqual([
+      ["0x1"],
+      ["0x2"],
+    ]);
+    expect(results[0].replacements).toEqual([]);
+  });
+
+  it("resynchronizes the nonce after a failed broadcast", async () => {
+    mined = new Set(["0x1"]);
+    const manager = createManager();
+    signer.sendTransaction.mockRejectedValueOnce(new Error("nonce too low"));
+
+    await expect(
+      manager.sendTransaction({ to: BRIDGE }, currentFees)
+    ).rejects.toThrow("nonce too low");
+    await manager.sendTransaction({ to: BRIDGE }, currentFees);
+
+    expect(signer.getNonce).toHaveBeenCalledTimes(2);
+  });
+
+  it("speeds up a stuck transaction with the same nonce and higher fees", async () => {
+    mined = new Set(["0x2"]);
+
+    const result = await createManager().sendTransaction(
+      { to: BRIDGE, data: "0x01" },
+      { gasPrice: 100n }
+    );
+
+    expect(sent[1]).toEqual({
+      to: BRIDGE,
+      data: "0x01",
+      gasPrice: 125n,
+      nonce: 7,
+    });
+    expect(result).toMatchObject({
+      receipt: { hash: "0x2" },
+      cancelled: false,
+      transactionIds: ["0x1", "0x2"],
+      replacements: [
+        {
+          type: ReplacementType.SPEED_UP,
+          replacedTransactionId: "0x1",
+          transactionId: "0x2",
+        },
+      ],
+    });
+  });
+
+  it("bumps EIP-1559 fees to at least the chain's current fees", async () => {
+    mined = new Set(["0x2"]);
+    currentFees = { maxFeePerGas: 300n, maxPriorityFeePerGas: 1n };
+
+    await createManager().sendTransaction(
+      { to: BRIDGE },
+      { maxFeePerGas: 100n, maxPriorityFeePerGas: 2n }
+    );
+
+    expect(sent[1]).toMatchObject({
+      maxFeePerGas: 300n,
+      maxPriorityFeePerGas: 3n,
+      nonce: 7,
+    });
+  });
+
+  it("cancels a transaction still stuck after maxSpeedUps", async () => {
+    mined = new Set(["0x4"]);
+
+    const result = await createManager(2).sendTransaction(
+      { to: BRIDGE, data: "0x01" },
+      { gasPrice: 100n }
+    );
+
+    expect(sent.map((tx) => tx.gasPrice)).toEqual([100n, 125n, 157n, 197n]);
+    expect(sent[3]).toEqual({
+      to: OPERATOR,
+      value: 0n,
+      gasLimit: 21000n,
+      gasPrice: 197n,
+      nonce: 7,
+    });
+    expect(result.cancelled).toBe(true);
+    expect(result.replacements.map((replacement) => replacement.type)).toEqual([
+      ReplacementType.SPEED_UP,
+      ReplacementType.SPEED_UP,
+      ReplacementType.CANCEL,
+    ]);
+  });
+
+  it("gives up without a receipt once the cancellation is stuck too", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+
+    const result = await createManager(1).sendTransaction(
+      { to: BRIDGE },
+      { gasPrice: 100n }
+    );
+
+    expect(result.receipt).toBeUndefined();
+    expect(result.cancelled).toBe(false);
+    expect(result.transactionIds).toEqual(["0x1", "0x2", "0x3"]);
+    expect(console.error).toHaveBeenCalledWith(
+      "Nonce 7 is still pending after 2 replacements"
+    );
+  });
+});
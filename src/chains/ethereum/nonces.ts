@@ -0,0 +1,252 @@
+import { ethers } from "ethers";
+import { ReplacementType, TransactionReplacement } from "../../types";
+import { sleep } from "../../utils";
+import { GasFees } from "./gas";
+
+/**
+ * Options for the operator nonce manager
+ */
+export interface NonceManagerOptions {
+  stuckAfterMs?: number; // Replace a transaction pending this long (default 3 min)
+  maxSpeedUps?: number; // Fee bumps before a stuck transaction is cancelled (default 3)
+  pollIntervalMs?: number; // Receipt polling interval (default 5s)
+}
+
+/**
+ * Outcome of a transaction sent through the nonce manager
+ *
+ * Without a receipt, the nonce was still unconfirmed when the manager gave
+ * up on it, and any of `transactionIds` may still be mined.
+ */
+export interface ManagedTransactionResult {
+  receipt?: ethers.TransactionReceipt; // Receipt of whichever transaction was mined
+  cancelled: boolean; // True if the cancellation took the nonce
+  replacements: TransactionReplacement[]; // Replacements sent, oldest first
+  transactionIds: string[]; // Hashes of the transaction and its replacements, oldest first
+}
+
+/**
+ * Fees of a replacement as a percentage of the transaction it replaces.
+ * Nodes only accept replacements paying at least 10% more.
+ */
+const REPLACEMENT_FEE_PERCENT = 125n;
+
+/**
+ * Gas limit of a cancellation, a plain transfer
+ */
+const CANCEL_GAS_LIMIT = 21000n;
+
+/**
+ * Assigns nonces to the operator's transactions and replaces stuck ones
+ *
+ * Nonces are assigned and transactions broadcast one at a time, so
+ * concurrent mints from the same wallet never share a nonce; their
+ * confirmations are awaited concurrently. A transaction still pending after
+ * `stuckAfterMs` is sent again with the same nonce and higher fees, up to
+ * `maxSpeedUps` times, and then cancelled with an empty transfer so later
+ * transactions are not held up behind it.
+ */
+export class EthereumNonceManager {
+  private provider: ethers.Provider;
+  private signer: ethers.Signer;
+  private getFees: () => Promise<GasFees>;
+  private stuckAfterMs: number;
+  private maxSpeedUps: number;
+  private pollIntervalMs: number;
+  private nextNonce?: number;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Constructor
+   *
+   * @param provider Provider of the chain
+   * @param signer Operator signer
+   * @param getFees Current gas fees of the chain
+   * @param options Nonce manager options
+   */
+  constructor(
+    provider: ethers.Provider,
+    signer: ethers.Signer,
+    getFees: () => Promise<GasFees>,
+    options: NonceManagerOptions = {}
+  ) {
+    this.provider = provider;
+    this.signer = signer;
+    this.getFees = getFees;
+    this.stuckAfterMs = options.stuckAfterMs ?? 180000;
+    this.maxSpeedUps = options.maxSpeedUps ?? 3;
+    this.pollIntervalMs = options.pollIntervalMs ?? 5000;
+  }
+
+  /**
+   * Send a transaction and wait until it is confirmed, replacing it while
+   * it is stuck
+   *
+   * @param request Transaction request, without nonce or fees
+   * @param fees Gas fees of the first attempt
+   * @param confirmations Confirmations to wait for
+   * @returns Receipt and replacements of the transaction
+   */
+  async sendTransaction(
+    request: ethers.TransactionRequest,
+    fees: GasFees,
+    confirmations: number = 1
+  ): Promise<ManagedTransactionResult> {
+    const response = await this.broadcast(request, fees);
+    const nonce = response.nonce;
+    const hashes = [response.hash];
+    const replacements: TransactionReplacement[] = [];
+
+    let current = { hash: response.hash, fees };
+    let cancellation: string | undefined;
+    let attempts = 0; // Speed-ups and cancellation attempted
+    let sentAt = Date.now();
+
+    for (;;) {
+      const receipt = await this.findReceipt(hashes);
+      if (receipt) {
+        // Mined; stop replacing and wait for the confirmations
+        if ((await receipt.confirmations()) >= confirmations) {
+          return {
+            receipt,
+            cancelled: receipt.hash === cancellation,
+            replacements,
+            transactionIds: hashes,
+          };
+        }
+      } else if (Date.now() - sentAt >= this.stuckAfterMs) {
+        if (attempts > this.maxSpeedUps) {
+          console.error(
+            `Nonce ${nonce} is still pending after ${replacements.length} replacements`
+          );
+          return { cancelled: false, replacements, transactionIds: hashes };
+        }
+
+        const type =
+          attempts < this.maxSpeedUps
+            ? ReplacementType.SPEED_UP
+            : ReplacementType.CANCEL;
+        attempts++;
+        sentAt = Date.now();
+
+        try {
+          const replacementFees = await this.bumpFees(current.fees);
+          const replacement = await this.signer.sendTransaction({
+            ...(type === ReplacementType.SPEED_UP
+              ? request
+              : {
+                  to: await this.signer.getAddress(),
+                  value: 0n,
+                  gasLimit: CANCEL_GAS_LIMIT,
+                }),
+            ...replacementFees,
+            nonce,
+          });
+
+          hashes.push(replacement.hash);
+          replacements.push({
+            type,
+            replacedTransactionId: current.hash,
+            transactionId: replacement.hash,
+            timestamp: sentAt,
+          });
+          current = { hash: replacement.hash, fees: replacementFees };
+          if (type === ReplacementType.CANCEL) {
+            cancellation = replacement.hash;
+          }
+        } catch (error) {
+          // The stuck transaction may have been mined in the meantime
+          console.error(`Error replacing transaction ${current.hash}:`, error);
+        }
+      }
+
+      await sleep(this.pollIntervalMs);
+    }
+  }
+
+  /**
+   * Assign the next nonce and broadcast a transaction
+   *
+   * Broadcasts are queued, so nonces are assigned in order.
+   *
+   * @param request Transaction request
+   * @param fees Gas fees
+   * @returns Broadcast transaction
+   */
+  private broadcast(
+    request: ethers.TransactionRequest,
+    fees: GasFees
+  ): Promise<ethers.TransactionResponse> {
+    const send = this.queue.then(async () => {
+      const nonce = this.nextNonce ?? (await this.signer.getNonce("pending"));
+      try {
+        const response = await this.signer.sendTransaction({
+          ...request,
+          ...fees,
+          nonce,
+        });
+        this.nextNonce = nonce + 1;
+        return response;
+      } catch (error) {
+        // Resynchronize with the node before the next transaction
+        this.nextNonce = undefined;
+        throw error;
+      }
+    });
+
+    this.queue = send.catch(() => undefined);
+    return send;
+  }
+
+  /**
+   * Find the receipt of whichever transaction took the nonce
+   *
+   * @param hashes Hashes of the transaction and its replacements
+   * @returns Receipt, or null if none is mined yet
+   */
+  private async findReceipt(
+    hashes: string[]
+  ): Promise<ethers.TransactionReceipt | null> {
+    for (const hash of hashes) {
+      const receipt = await this.provider.getTransactionReceipt(hash);
+      if (receipt) {
+        return receipt;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Get the fees of a replacement
+   *
+   * Fees are bumped over the replaced transaction's, and raised further if
+   * the chain's current fees are higher still.
+   *
+   * @param fees Gas fees of the replaced transaction
+   * @returns Gas fees of the replacement
+   */
+  private async bumpFees(fees: GasFees): Promise<GasFees> {
+    const current = await this.getFees();
+    const bump = (fee: bigint, floor: bigint = 0n) => {
+      const bumped = (fee * REPLACEMENT_FEE_PERCENT + 99n) / 100n; // Round up
+      return bumped > floor ? bumped : floor;
+    };
+
+    if (fees.gasPrice !== undefined) {
+      return {
+        gasPrice: bump(fees.gasPrice, current.gasPrice ?? current.maxFeePerGas),
+      };
+    }
+
+    return {
+      maxFeePerGas: bump(
+        fees.maxFeePerGas ?? 0n,
+        current.maxFeePerGas ?? current.gasPrice
+      ),
+      maxPriorityFeePerGas: bump(
+        fees.maxPriorityFeePerGas ?? 0n,
+        current.maxPriorityFeePerGas
+      ),
+    };
+  }
+}
@@ -0,0 +1,152 @@
+import { ethers } from "ethers";
+import {
+  buildPermitTypedData,
+  DEFAULT_PERMIT_VERSION,
+  PermitTypedData,
+  validatePermit,
+} from "./permits";
+
+const TOKEN = "0x0000000000000000000000000000000000000003";
+const BRIDGE = "0x0000000000000000000000000000000000000002";
+
+const owner = new ethers.Wallet(
+  "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d"
+);
+
+/**
+ * Build a token contract stub
+ *
+ * @param eip712Domain Result of `eip712Domain()`
+ */
+function createToken(eip712Domain: () => Promise<any>) {
+  return {
+    eip712Domain,
+    name: async () => "Carbon Credit",
+    nonces: async () => 4n,
+    getAddress: async () => TOKEN,
+  } as unknown as ethers.Contract;
+}
+
+describe("buildPermitTypedData", () => {
+  it("uses the domain the token reports", async () => {
+    const token = createToken(async () => ({
+      name: "Wrapped Carbon",
+      version: "2",
+    }));
+
+    await expect(
+      buildPermitTypedData(token, 1, owner.address, BRIDGE, 10n, 1700003600)
+    ).resolves.toMatchObject({
+      domain: {
+        name: "Wrapped Carbon",
+        version: "2",
+        chainId: 1,
+        verifyingContract: TOKEN,
+      },
+      primaryType: "Permit",
+      message: {
+        owner: owner.address,
+        spender: BRIDGE,
+        value: "10",
+        nonce: "4",
+        deadline: 1700003600,
+      },
+    });
+  });
+
+  it("falls back to the token name and fallback version", async () => {
+    const token = createToken(async () => {
+      throw ethers.makeError("missing revert data", "CALL_EXCEPTION", {
+        action: "call",
+      } as any);
+    });
+
+    const typedData = await buildPermitTypedData(
+      token,
+      1,
+      owner.address,
+      BRIDGE,
+      10n,
+      1700003600
+    );
+    expect(typedData.domain).toMatchObject({
+      name: "Carbon Credit",
+      version: DEFAULT_PERMIT_VERSION,
+    });
+
+    await expect(
+      buildPermitTypedData(token, 1, owner.address, BRIDGE, 10n, 0, "3")
+    ).resolves.toMatchObject({ domain: { version: "3" } });
+  });
+
+  it("does not fall back when the domain cannot be read", async () => {
+    const token = createToken(async () => {
+      throw ethers.makeError("network down", "NETWORK_ERROR");
+    });
+
+    await expect(
+      buildPermitTypedData(token, 1, owner.address, BRIDGE, 10n, 0)
+    ).rejects.toThrow("network down");
+  });
+});
+
+describe("validatePermit", () => {
+  const deadline = Math.floor(Date.now() / 1000) + 3600;
+  let typedData: PermitTypedData;
+  let signature: string;
+
+  beforeAll(async () => {
+    typedData = await buildPermitTypedData(
+      createToken(async () => ({ name: "Wrapped Carbon", version: "1" })),
+      1,
+      owner.address,
+      BRIDGE,
+      10n,
+      deadline
+    );
+    signature = await owner.signTypedData(
+      typedData.domain,
+      typedData.types,
+      typedData.message
+    );
+  });
+
+  it("accepts the owner's signature", () => {
+    expect(validatePermit(typedData, { deadline, signature })).toBeNull();
+  });
+
+  it("rejects an expired permit", () => {
+    expect(validatePermit(typedData, { deadline: 1700000000, signature })).toBe(
+      "Permit expired at 2023-11-14T22:13:20.000Z"
+    );
+  });
+
+  it("rejects a signature over another amount", () => {
+    const other = {
+      ...typedData,
+      message: { ...typedData.message, value: "11" },
+    };
+
+    expect(validatePermit(other, { deadline, signature })).toBe(
+      `Permit is not signed by ${owner.address} for 11 base units`
+    );
+  });
+
+  it("rejects a signature by another account", async () => {
+    const signed = await ethers.Wallet.createRandom().signTypedData(
+      typedData.domain,
+      typedData.types,
+      typedData.message
+    );
+
+    expect(validatePermit(typedData, { deadline, signature: signed })).toBe(
+      `Permit is not signed by ${owner.address} for 10 base units`
+    );
+  });
+
+  it("rejects a malformed signature", () => {
+    expect(validatePermit(typedData, { deadline, signature: "0x1234" })).toBe(
+      "Permit signature is malformed"
+    );
+  });
+});
@@ -0,0 +1,168 @@
+import { ethers } from "ethers";
+import { PermitSignature } from "../../types";
+
+/**
+ * EIP-712 typed data of an EIP-2612 permit
+ *
+ * Signed with `eth_signTypedData_v4`, e.g. `signer.signTypedData(domain,
+ * types, message)` in ethers.
+ */
+export interface PermitTypedData {
+  domain: {
+    name: string;
+    version: string;
+    chainId: number;
+    verifyingContract: string;
+  };
+  types: Record<string, Array<{ name: string; type: string }>>;
+  primaryType: "Permit";
+  message: {
+    owner: string;
+    spender: string;
+    value: string; // Token base units
+    nonce: string;
+    deadline: number; // Unix timestamp in seconds
+  };
+}
+
+/**
+ * EIP-712 types of an EIP-2612 permit
+ */
+const PERMIT_TYPES = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+/**
+ * Domain version of permits for tokens without `eip712Domain()` (the
+ * OpenZeppelin default)
+ */
+export const DEFAULT_PERMIT_VERSION = "1";
+
+/**
+ * How long a permit returned with a burn stays valid (1 hour)
+ */
+export const PERMIT_VALIDITY_SECONDS = 3600;
+
+/**
+ * Read the name and version of a token's EIP-712 domain
+ *
+ * Tokens implementing EIP-5267 report both through `eip712Domain()`. For
+ * other tokens the name is read with `name()` and the version is the
+ * fallback.
+ *
+ * @param token Wrapped token contract
+ * @param fallbackVersion Domain version if the token has no `eip712Domain()`
+ * @returns Domain name and version
+ */
+async function getPermitDomain(
+  token: ethers.Contract,
+  fallbackVersion: string
+): Promise<{ name: string; version: string }> {
+  try {
+    const domain = await token.eip712Domain();
+    return { name: domain.name, version: domain.version };
+  } catch (error) {
+    // Tokens without the function revert or return no data
+    if (
+      !ethers.isError(error, "CALL_EXCEPTION") &&
+      !ethers.isError(error, "BAD_DATA")
+    ) {
+      throw error;
+    }
+  }
+
+  return { name: await token.name(), version: fallbackVersion };
+}
+
+/**
+ * Build the permit for a spender to transfer an owner's tokens
+ *
+ * The owner's current permit nonce and the token's domain are read from the
+ * token contract, so the permit is only valid until the owner's next permit.
+ *
+ * @param token Wrapped token contract
+ * @param chainId Chain ID of the token
+ * @param owner Token owner
+ * @param spender Spender the permit approves
+ * @param value Amount approved, in token base units
+ * @param deadline Unix timestamp in seconds the permit is valid until
+ * @param fallbackVersion Domain version if the token has no
+ * `eip712Domain()`
+ * @returns Permit typed data for the owner to sign
+ */
+export async function buildPermitTypedData(
+  token: ethers.Contract,
+  chainId: number,
+  owner: string,
+  spender: string,
+  value: bigint,
+  deadline: number,
+  fallbackVersion: string = DEFAULT_PERMIT_VERSION
+): Promise<PermitTypedData> {
+  const [{ name, version }, nonce]: [
+    { name: string; version: string },
+    bigint,
+  ] = await Promise.all([
+    getPermitDomain(token, fallbackVersion),
+    token.nonces(owner),
+  ]);
+
+  return {
+    domain: {
+      name,
+      version,
+      chainId,
+      verifyingContract: await token.getAddress(),
+    },
+    types: PERMIT_TYPES,
+    primaryType: "Permit",
+    message: {
+      owner,
+      spender,
+      value: value.toString(),
+      nonce: nonce.toString(),
+      deadline,
+    },
+  };
+}
+
+/**
+ * Check a permit signature against the permit it should sign
+ *
+ * @param typedData Permit typed data
+ * @param permit Permit signature
+ * @returns Error message, or null if the owner signed the permit
+ */
+export function validatePermit(
+  typedData: PermitTypedData,
+  permit: PermitSignature
+): string | null {
+  if (permit.deadline <= Math.floor(Date.now() / 1000)) {
+    return `Permit expired at ${new Date(permit.deadline * 1000).toISOString()}`;
+  }
+
+  let signer: string;
+  try {
+    signer = ethers.verifyTypedData(
+      typedData.domain,
+      typedData.types,
+      typedData.message,
+      permit.signature
+    );
+  } catch (error) {
+    return "Permit signature is malformed";
+  }
+
+  // A permit for another amount, spender or nonce recovers another signer
+  if (signer !== ethers.getAddress(typedData.message.owner)) {
+    return `Permit is not signed by ${typedData.message.owner} for ${typedData.message.value} base units`;
+  }
+
+  return null;
+}
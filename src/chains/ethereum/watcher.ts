@@ -0,0 +1,338 @@
+import { ethers } from "ethers";
+import { getApplicationAddress } from "algosdk";
+import BigNumber from "bignumber.js";
+import {
+  BridgeConfig,
+  BridgeStatus,
+  BridgeStorageAdapter,
+  BridgeTransaction,
+  ChainType,
+  ChainWatcher,
+  ChainWatcherOptions,
+} from "../../types";
+import { bridgeEvents, BridgeEventType } from "../../events";
+import { getBridgeContractABI } from "./contracts";
+import { calculateProtocolFee } from "../../fees";
+import { fromBaseUnits, resolveAssetDecimals } from "../../amounts";
+import { checkChainId } from "./networks";
+import { recordConfirmedSource } from "../../lifecycle";
+
+/**
+ * Options for the Ethereum burn watcher
+ */
+export interface EthereumBurnWatcherOptions extends ChainWatcherOptions {
+  maxBlockRange?: number; // Largest block range per eth_getLogs call (default 2000)
+}
+
+/**
+ * Check whether an RPC error means the requested log range was too large
+ *
+ * Providers report this differently (Infura -32005, Alchemy response size,
+ * plain "block range" messages), so the message is matched loosely.
+ *
+ * @param error RPC error
+ * @returns True if the range should be reduced and retried
+ */
+function isRangeLimitError(error: any): boolean {
+  const message = [
+    error?.message,
+    error?.error?.message,
+    error?.info?.error?.message,
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+  return (
+    error?.error?.code === -32005 ||
+    error?.info?.error?.code === -32005 ||
+    /block range|range too (large|wide)|more than \d+ results|response size|limit exceeded|too many (blocks|results)/i.test(
+      message
+    )
+  );
+}
+
+/**
+ * Build a bridge transaction from a TokensBurned or TokensRetired log
+ *
+ * The bridge ID is read from the log data, so burns made through a Safe, a
+ * multicall or an account abstraction wallet are parsed like direct ones.
+ * Retirements carry no receiver; their units stay in the Algorand escrow.
+ *
+ * @param config Bridge configuration
+ * @param provider JSON-RPC provider
+ * @param log TokensBurned or TokensRetired log
+ * @returns Bridge transaction or null if the log is not a valid burn
+ */
+export async function parseBurnLog(
+  config: BridgeConfig,
+  provider: ethers.Provider,
+  log: ethers.Log
+): Promise<BridgeTransaction | null> {
+  const bridgeInterface = new ethers.Interface(getBridgeContractABI());
+
+  let parsedLog: ethers.LogDescription | null;
+  try {
+    parsedLog = bridgeInterface.parseLog({
+      topics: log.topics as string[],
+      data: log.data,
+    });
+  } catch (error) {
+    return null;
+  }
+
+  if (
+    !parsedLog ||
+    (parsedLog.name !== "TokensBurned" && parsedLog.name !== "TokensRetired")
+  ) {
+    return null;
+  }
+  const retired = parsedLog.name === "TokensRetired";
+
+  const bridgeId: string = parsedLog.args.bridgeId;
+  if (!bridgeId) {
+    console.error(
+      `${parsedLog.name} log in ${log.transactionHash} has no bridge ID`
+    );
+    return null;
+  }
+
+  const block = await provider.getBlock(log.blockNumber);
+
+  await resolveAssetDecimals(config);
+  const sourceAmount = {
+    baseUnits: parsedLog.args.amount.toString(),
+    decimals: config.targetChain.decimals!,
+  };
+  const amount = fromBaseUnits(sourceAmount.baseUnits, sourceAmount.decimals);
+
+  return {
+    id: bridgeId,
+    sourceChain: config.targetChain.chainType,
+    targetChain: ChainType.ALGORAND,
+    sourceAssetId: config.targetChain.tokenContractAddress,
+    targetAssetId: config.algorand.carbonAssetId.toString(),
+    amount,
+    // Retirements are not charged a protocol fee
+    protocolFee: retired
+      ? new BigNumber(0)
+      : calculateProtocolFee(amount, config),
+    sourceAmount,
+    sender: parsedLog.args.sender,
+    receiver: retired
+      ? getApplicationAddress(config.algorand.escrowAppId)
+      : parsedLog.args.algorandReceiver,
+    status: BridgeStatus.BURNED,
+    sourceTransactionId: log.transactionHash,
+    sourceBlock: log.blockNumber,
+    timestamp: block ? block.timestamp * 1000 : Date.now(),
+    nonce: log.blockNumber,
+    ...(retired
+      ? {
+          retirement: {
+            beneficiary: parsedLog.args.beneficiary,
+            reason: parsedLog.args.reason,
+          },
+        }
+      : {}),
+  };
+}
+
+/**
+ * Get the event emitted for a confirmed burn
+ *
+ * @param transaction Burn or retirement parsed from a log
+ * @returns RETIRE for retirements, BURN otherwise
+ */
+export function getBurnEventType(
+  transaction: BridgeTransaction
+): BridgeEventType {
+  return transaction.retirement
+    ? BridgeEventType.RETIRE
+    : BridgeEventType.BURN;
+}
+
+/**
+ * Scans the bridge contract's TokensBurned and TokensRetired logs and feeds
+ * them to the bridge as BURN and RETIRE events
+ *
+ * Blocks are scanned in ranges up to `maxBlockRange`, halving the range when
+ * the RPC rejects a query as too large. The last fully processed block is
+ * checkpointed in the bridge storage; the checkpoint never moves past a
+ * burn log that could not be parsed.
+ */
+export class EthereumBurnWatcher implements ChainWatcher {
+  private provider: ethers.JsonRpcProvider;
+  private config: BridgeConfig;
+  private storage: BridgeStorageAdapter;
+  private pollIntervalMs: number;
+  private startBlock?: number;
+  private confirmations: number;
+  private maxBlockRange: number;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private networkChecked = false;
+
+  /**
+   * Constructor
+   *
+   * @param config Bridge configuration
+   * @param storage Storage adapter used for the block checkpoint and burns
+   * @param options Watcher options
+   */
+  constructor(
+    config: BridgeConfig,
+    storage: BridgeStorageAdapter,
+    options: EthereumBurnWatcherOptions = {}
+  ) {
+    this.config = config;
+    this.storage = storage;
+    this.provider = new ethers.JsonRpcProvider(config.targetChain.rpcUrl);
+    this.pollIntervalMs = options.pollIntervalMs ?? 15000;
+    this.startBlock = options.startBlock;
+    this.confirmations = options.confirmations ?? 2;
+    this.maxBlockRange = options.maxBlockRange ?? 2000;
+  }
+
+  /**
+   * Name of the block checkpoint in storage
+   *
+   * Keyed by chain as well as contract, since the bridge contract may be
+   * deployed at the same address on several chains.
+   */
+  get checkpointName(): string {
+    const { chainType, bridgeContractAddress } = this.config.targetChain;
+    return `${chainType}-burn-watcher:${bridgeContractAddress.toLowerCase()}`;
+  }
+
+  /**
+   * Start scanning for burns
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    this.schedule(0);
+  }
+
+  /**
+   * Stop scanning for burns
+   */
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Schedule the next scan
+   *
+   * @param delayMs Delay in milliseconds
+   */
+  private schedule(delayMs: number): void {
+    this.timer = setTimeout(async () => {
+      try {
+        await this.poll();
+      } catch (error) {
+        console.error("Error scanning Ethereum for burn events:", error);
+      }
+
+      if (this.running) {
+        this.schedule(this.pollIntervalMs);
+      }
+    }, delayMs);
+  }
+
+  /**
+   * Process all confirmed burns since the last checkpoint
+   *
+   * @returns Burns and retirements that were emitted
+   */
+  async poll(): Promise<BridgeTransaction[]> {
+    // Never checkpoint blocks of another network
+    if (!this.networkChecked) {
+      await checkChainId(this.provider, this.config);
+      this.networkChecked = true;
+    }
+
+    const latestBlock = await this.provider.getBlockNumber();
+    const safeBlock = latestBlock - this.confirmations;
+
+    const checkpoint = await this.storage.getCheckpoint(this.checkpointName);
+    let fromBlock =
+      checkpoint !== undefined
+        ? checkpoint + 1
+        : (this.startBlock ?? safeBlock);
+
+    const bridgeInterface = new ethers.Interface(getBridgeContractABI());
+    const burnTopic = bridgeInterface.getEvent("TokensBurned")!.topicHash;
+    const retireTopic = bridgeInterface.getEvent("TokensRetired")!.topicHash;
+    const burns: BridgeTransaction[] = [];
+    let range = this.maxBlockRange;
+
+    while (fromBlock <= safeBlock) {
+      const toBlock = Math.min(fromBlock + range - 1, safeBlock);
+
+      let logs: ethers.Log[];
+      try {
+        logs = await this.provider.getLogs({
+          address: this.config.targetChain.bridgeContractAddress,
+          topics: [[burnTopic, retireTopic]],
+          fromBlock,
+          toBlock,
+        });
+      } catch (error) {
+        if (isRangeLimitError(error) && range > 1) {
+          range = Math.max(1, Math.floor(range / 2));
+          continue;
+        }
+        throw error;
+      }
+
+      logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+      for (const log of logs) {
+        const burn = await parseBurnLog(this.config, this.provider, log);
+
+        // Every log matched the burn topics, so one that cannot be parsed
+        // is a burn that would be lost. Stop before its block and retry it
+        // on the next poll.
+        if (!burn) {
+          console.error(
+            `Unable to parse bridge log ${log.index} of ${log.transactionHash} in block ${log.blockNumber}; stopping before it`
+          );
+          if (log.blockNumber > fromBlock) {
+            await this.storage.saveCheckpoint(
+              this.checkpointName,
+              log.blockNumber - 1
+            );
+          }
+          return burns;
+        }
+
+        // Stored before the checkpoint moves past it, so it is resumed
+        // after a restart even if the bridge had not handled the event yet
+        await recordConfirmedSource(
+          this.storage,
+          burn,
+          burn.retirement
+            ? "Retirement confirmed on target chain"
+            : "Burn confirmed on target chain"
+        );
+        burns.push(burn);
+        bridgeEvents.emitBridgeEvent(getBurnEventType(burn), burn, {
+          transactionHash: log.transactionHash,
+          blockNumber: log.blockNumber,
+        });
+      }
+
+      await this.storage.saveCheckpoint(this.checkpointName, toBlock);
+      fromBlock = toBlock + 1;
+    }
+
+    return burns;
+  }
+}
@@ -0,0 +1,58 @@
+import { BridgeConfig, ChainHandler, ChainType } from "../types";
+import { getChainConfig } from "../config";
+import { EthereumChainHandler } from "./ethereum";
+import { EVM_NETWORKS } from "./ethereum/networks";
+
+/**
+ * Creates the handler of a target chain from a configuration narrowed to
+ * that chain
+ */
+export type ChainHandlerFactory = (config: BridgeConfig) => ChainHandler;
+
+/**
+ * Handler factories by chain type. Every known EVM network is served by the
+ * EVM handler.
+ */
+const chainHandlerFactories = new Map<ChainType, ChainHandlerFactory>(
+  (Object.keys(EVM_NETWORKS) as ChainType[]).map((chainType) => [
+    chainType,
+    (config) => new EthereumChainHandler(config),
+  ])
+);
+
+/**
+ * Register the handler of a target chain
+ *
+ * Replaces any handler already registered for the chain type.
+ *
+ * @param chainType Chain type
+ * @param factory Handler factory
+ */
+export function registerChainHandler(
+  chainType: ChainType,
+  factory: ChainHandlerFactory
+): void {
+  if (chainType === ChainType.ALGORAND) {
+    throw new Error("Algorand cannot be a target chain");
+  }
+  chainHandlerFactories.set(chainType, factory);
+}
+
+/**
+ * Create the handler of a configured target chain
+ *
+ * @param chainType Chain type
+ * @param config Bridge configuration
+ * @returns Chain handler
+ * @throws Error if no handler is registered or the chain is not configured
+ */
+export function createChainHandler(
+  chainType: ChainType,
+  config: BridgeConfig
+): ChainHandler {
+  const factory = chainHandlerFactories.get(chainType);
+  if (!factory) {
+    throw new Error(`Unsupported target chain: ${chainType}`);
+  }
+  return factory(getChainConfig(config, chainType));
+}
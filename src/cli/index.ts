@@ -0,0 +1,555 @@
+#!/usr/bin/env node
+import { Command } from "commander";
+import { readFileSync } from "fs";
+import { CarbonCreditBridge } from "../bridge";
+import {
+  createBridgeConfig,
+  getTargetChainConfigs,
+  loadConfigFromEnv,
+} from "../config";
+import { bridgeEvents, BridgeEventType } from "../events";
+import {
+  BridgeConfig,
+  BridgeDirection,
+  BridgeEvent,
+  BridgeResult,
+  BridgeStatus,
+  CarbonCreditMetadata,
+  SerialRangeStatus,
+} from "../types";
+import { OutputMode, printOutput } from "./output";
+
+/**
+ * Options shared by every command
+ */
+interface GlobalOptions {
+  json?: boolean;
+  config?: string;
+}
+
+/**
+ * Columns shown when listing transactions as a table
+ */
+const TRANSACTION_COLUMNS = [
+  "id",
+  "status",
+  "sourceChain",
+  "targetChain",
+  "amount",
+  "sender",
+  "receiver",
+  "timestamp",
+];
+
+/**
+ * Columns shown when printing a status history as a table
+ */
+const HISTORY_COLUMNS = [
+  "timestamp",
+  "from",
+  "to",
+  "reason",
+  "chainTransactionId",
+];
+
+/**
+ * Columns shown when listing serial ranges as a table
+ */
+const SERIAL_COLUMNS = [
+  "block",
+  "start",
+  "end",
+  "status",
+  "lockBridgeId",
+  "bridgeId",
+  "updatedAt",
+];
+
+/**
+ * Read a JSON file
+ *
+ * @param path File path
+ * @param description Description used in error messages
+ * @returns Parsed JSON
+ */
+function readJsonFile(path: string, description: string): any {
+  try {
+    return JSON.parse(readFileSync(path, "utf8"));
+  } catch (error: any) {
+    throw new Error(
+      `Failed to read ${description} from ${path}: ${error.message}`
+    );
+  }
+}
+
+/**
+ * Load configuration from the environment and an optional JSON file
+ *
+ * @param options Global CLI options
+ * @returns Partial bridge configuration
+ */
+function loadCliConfig(options: GlobalOptions): Partial<BridgeConfig> {
+  const fileConfig = options.config
+    ? readJsonFile(options.config, "configuration")
+    : {};
+
+  return {
+    ...loadConfigFromEnv(),
+    ...fileConfig,
+  };
+}
+
+/**
+ * Create a bridge instance for a CLI command
+ *
+ * Only `watch` resumes interrupted bridges; one-shot commands would
+ * otherwise wait for every pending bridge to be completed first.
+ *
+ * @param options Global CLI options
+ * @param resumePending Whether interrupted bridges should be resumed
+ * @returns Initialized bridge
+ */
+async function createBridge(
+  options: GlobalOptions,
+  resumePending: boolean
+): Promise<CarbonCreditBridge> {
+  const bridge = new CarbonCreditBridge({
+    ...loadCliConfig(options),
+    resumePending,
+  });
+  await bridge.ready;
+  return bridge;
+}
+
+/**
+ * Get output mode from global options
+ */
+function outputMode(options: GlobalOptions): OutputMode {
+  return options.json ? "json" : "table";
+}
+
+/**
+ * Wrap a command action with error reporting and process exit
+ *
+ * Chain providers keep timers alive, so one-shot commands exit explicitly.
+ *
+ * @param action Command action
+ * @returns Commander action handler
+ */
+function run(
+  action: (...args: any[]) => Promise<number | void>
+): (...args: any[]) => Promise<void> {
+  return async (...args: any[]) => {
+    try {
+      const exitCode = await action(...args);
+      process.exit(exitCode ?? 0);
+    } catch (error: any) {
+      console.error(`Error: ${error.message || error}`);
+      process.exit(1);
+    }
+  };
+}
+
+/**
+ * Print a bridge result and derive the exit code
+ *
+ * @param options Global CLI options
+ * @param result Bridge operation result
+ * @returns Process exit code
+ */
+function printResult(options: GlobalOptions, result: BridgeResult): number {
+  printOutput(outputMode(options), result);
+  return result.success ? 0 : 1;
+}
+
+const program = new Command();
+
+program
+  .name("carbon-bridge")
+  .description("Bridge Algorand carbon credits to and from other chains")
+  .option("--json", "print machine-readable JSON output")
+  .option(
+    "-c, --config <path>",
+    "JSON configuration file (merged over environment variables)"
+  );
+
+const bridgeCommand = program
+  .command("bridge")
+  .description("start a bridge operation");
+
+bridgeCommand
+  .command("to-target")
+  .description(
+    "lock carbon credits on Algorand and mint them on the target chain"
+  )
+  .argument("<sender>", "Algorand sender address")
+  .argument("<receiver>", "target chain receiver address")
+  .argument("<amount>", "amount of carbon credits")
+  .option("-m, --metadata <path>", "carbon credit metadata JSON file")
+  .option("-c, --chain <chain>", "target chain (defaults to the primary one)")
+  .option("-w, --wait", "wait for confirmation")
+  .action(
+    run(
+      async (
+        sender: string,
+        receiver: string,
+        amount: string,
+        cmdOptions,
+        command: Command
+      ) => {
+        const options = command.optsWithGlobals<GlobalOptions>();
+        const metadata: CarbonCreditMetadata | undefined = cmdOptions.metadata
+          ? readJsonFile(cmdOptions.metadata, "metadata")
+          : undefined;
+
+        const bridge = await createBridge(options, false);
+        const result = await bridge.bridgeToTargetChain(
+          sender,
+          receiver,
+          amount,
+          metadata,
+          {
+            waitForConfirmation: Boolean(cmdOptions.wait),
+            targetChain: cmdOptions.chain,
+          }
+        );
+
+        return printResult(options, result);
+      }
+    )
+  );
+
+bridgeCommand
+  .command("to-algorand")
+  .description(
+    "burn wrapped carbon credits on the target chain and release them on Algorand"
+  )
+  .argument("<sender>", "target chain sender address")
+  .argument("<receiver>", "Algorand receiver address")
+  .argument("<amount>", "amount of wrapped carbon credits")
+  .option("-c, --chain <chain>", "target chain (defaults to the primary one)")
+  .option("-w, --wait", "wait for confirmation")
+  .option("--permit <signature>", "EIP-2612 permit signature for the burn")
+  .option("--permit-deadline <timestamp>", "deadline the permit was signed for")
+  .action(
+    run(
+      async (
+        sender: string,
+        receiver: string,
+        amount: string,
+        cmdOptions,
+        command: Command
+      ) => {
+        const options = command.optsWithGlobals<GlobalOptions>();
+
+        if (Boolean(cmdOptions.permit) !== Boolean(cmdOptions.permitDeadline)) {
+          throw new Error("--permit and --permit-deadline go together");
+        }
+
+        const bridge = await createBridge(options, false);
+        const result = await bridge.bridgeToAlgorand(sender, receiver, amount, {
+          waitForConfirmation: Boolean(cmdOptions.wait),
+          targetChain: cmdOptions.chain,
+          permit: cmdOptions.permit
+            ? {
+                signature: cmdOptions.permit,
+                deadline: parseInt(cmdOptions.permitDeadline),
+              }
+            : undefined,
+        });
+
+        return printResult(options, result);
+      }
+    )
+  );
+
+program
+  .command("retire")
+  .description(
+    "retire wrapped carbon credits and their escrowed units on Algorand"
+  )
+  .argument("<sender>", "target chain address holding the credits")
+  .argument("<amount>", "amount of wrapped carbon credits")
+  .requiredOption("-b, --beneficiary <name>", "who the offset is claimed for")
+  .requiredOption("-r, --reason <text>", "reason for the retirement")
+  .option("-c, --chain <chain>", "target chain (defaults to the primary one)")
+  .action(
+    run(async (sender: string, amount: string, cmdOptions, command: Command) => {
+      const options = command.optsWithGlobals<GlobalOptions>();
+
+      const bridge = await createBridge(options, false);
+      const result = await bridge.retireCredits(
+        sender,
+        amount,
+        {
+          beneficiary: cmdOptions.beneficiary,
+          reason: cmdOptions.reason,
+        },
+        cmdOptions.chain
+      );
+
+      return printResult(options, result);
+    })
+  );
+
+program
+  .command("claim")
+  .description(
+    "claim carbon credits held in the escrow until the receiver opts in"
+  )
+  .argument("<bridgeId>", "bridge transaction ID of the held release")
+  .action(
+    run(async (bridgeId: string, _cmdOptions, command: Command) => {
+      const options = command.optsWithGlobals<GlobalOptions>();
+
+      const bridge = await createBridge(options, false);
+      const result = await bridge.claimReleasedCredits(bridgeId);
+
+      return printResult(options, result);
+    })
+  );
+
+program
+  .command("quote")
+  .description("quote the fees for bridging an amount")
+  .argument("<direction>", "to-target or to-algorand")
+  .argument("<amount>", "amount of carbon credits to lock or burn")
+  .option("-c, --chain <chain>", "target chain (defaults to the primary one)")
+  .action(
+    run(
+      async (
+        direction: string,
+        amount: string,
+        cmdOptions,
+        command: Command
+      ) => {
+        const options = command.optsWithGlobals<GlobalOptions>();
+        const directions: Record<string, BridgeDirection> = {
+          "to-target": BridgeDirection.ALGORAND_TO_TARGET,
+          "to-algorand": BridgeDirection.TARGET_TO_ALGORAND,
+        };
+
+        if (!directions[direction]) {
+          throw new Error(
+            `Unknown direction "${direction}" (expected to-target or to-algorand)`
+          );
+        }
+
+        const bridge = await createBridge(options, false);
+        const quote = await bridge.quoteBridge(
+          directions[direction],
+          amount,
+          cmdOptions.chain
+        );
+
+        printOutput(outputMode(options), quote);
+      }
+    )
+  );
+
+program
+  .command("status")
+  .description("show the status of a bridge transaction")
+  .argument("<bridgeId>", "bridge transaction ID")
+  .action(
+    run(async (bridgeId: string, _cmdOptions, command: Command) => {
+      const options = command.optsWithGlobals<GlobalOptions>();
+
+      const bridge = await createBridge(options, false);
+      const transaction = bridge.getTransaction(bridgeId);
+      const status = await bridge.getTransactionStatus(bridgeId);
+
+      printOutput(
+        outputMode(options),
+        transaction ? { ...transaction, status } : { id: bridgeId, status }
+      );
+    })
+  );
+
+program
+  .command("history")
+  .description("show the status history of a bridge transaction")
+  .argument("<bridgeId>", "bridge transaction ID")
+  .action(
+    run(async (bridgeId: string, _cmdOptions, command: Command) => {
+      const options = command.optsWithGlobals<GlobalOptions>();
+
+      const bridge = await createBridge(options, false);
+      const history = bridge.getTransactionHistory(bridgeId);
+      if (!history) {
+        throw new Error(`Bridge transaction ${bridgeId} not found`);
+      }
+
+      printOutput(outputMode(options), history, HISTORY_COLUMNS);
+    })
+  );
+
+program
+  .command("list")
+  .description("list stored bridge transactions")
+  .option("-s, --status <status>", "only show transactions with this status")
+  .action(
+    run(async (cmdOptions, command: Command) => {
+      const options = command.optsWithGlobals<GlobalOptions>();
+      const statuses = Object.values(BridgeStatus) as string[];
+
+      if (cmdOptions.status && !statuses.includes(cmdOptions.status)) {
+        throw new Error(
+          `Unknown status "${cmdOptions.status}" (expected one of: ${statuses.join(", ")})`
+        );
+      }
+
+      const bridge = await createBridge(options, false);
+      const transactions = bridge
+        .listTransactions()
+        .filter((tx) => !cmdOptions.status || tx.status === cmdOptions.status)
+        .sort((a, b) => a.timestamp - b.timestamp);
+
+      printOutput(outputMode(options), transactions, TRANSACTION_COLUMNS);
+    })
+  );
+
+program
+  .command("watch")
+  .description(
+    "run the bridge, watching the chains and streaming events until interrupted"
+  )
+  .option("-t, --type <type>", "only show events of this type", "any")
+  .action(async (cmdOptions, command: Command) => {
+    const options = command.optsWithGlobals<GlobalOptions>();
+    const types = [...Object.values(BridgeEventType), "any"] as string[];
+
+    if (!types.includes(cmdOptions.type)) {
+      console.error(
+        `Error: Unknown event type "${cmdOptions.type}" (expected one of: ${types.join(", ")})`
+      );
+      process.exit(1);
+    }
+
+    bridgeEvents.onBridgeEvent(cmdOptions.type, (event: BridgeEvent) => {
+      if (options.json) {
+        // One JSON document per line so the stream can be piped
+        console.log(JSON.stringify(event));
+      } else {
+        const { transaction } = event;
+        console.log(
+          `${new Date(event.timestamp).toISOString()}  ${event.type.toUpperCase().padEnd(12)}  ` +
+            `${transaction.id}  ${transaction.status}  ${transaction.amount.toFixed()}  ` +
+            `${transaction.sender} -> ${transaction.receiver}`
+        );
+      }
+    });
+
+    process.on("SIGINT", () => process.exit(0));
+
+    try {
+      const bridge = await createBridge(options, true);
+      bridge.startWatching();
+      if (!options.json) {
+        console.log("Watching bridge events (Ctrl+C to stop)...");
+      }
+    } catch (error: any) {
+      console.error(`Error: ${error.message || error}`);
+      process.exit(1);
+    }
+  });
+
+const serialsCommand = program
+  .command("serials")
+  .description("inspect the serial ledger of bridged credits");
+
+serialsCommand
+  .command("list")
+  .description("list the serial ranges of bridged credits")
+  .option("-b, --block <block>", "only show ranges of this serial block")
+  .option("-s, --status <status>", "only show ranges with this status")
+  .action(
+    run(async (cmdOptions, command: Command) => {
+      const options = command.optsWithGlobals<GlobalOptions>();
+      const statuses = Object.values(SerialRangeStatus) as string[];
+
+      if (cmdOptions.status && !statuses.includes(cmdOptions.status)) {
+        throw new Error(
+          `Unknown status "${cmdOptions.status}" (expected one of: ${statuses.join(", ")})`
+        );
+      }
+
+      const bridge = await createBridge(options, false);
+      const ranges = await bridge.listSerialRanges(
+        cmdOptions.block,
+        cmdOptions.status
+      );
+
+      printOutput(outputMode(options), ranges, SERIAL_COLUMNS);
+    })
+  );
+
+serialsCommand
+  .command("locate")
+  .description("show where a registry serial number is")
+  .argument("<block>", "registry serial block")
+  .argument("<serial>", "serial number")
+  .action(
+    run(
+      async (
+        block: string,
+        serial: string,
+        _cmdOptions,
+        command: Command
+      ) => {
+        const options = command.optsWithGlobals<GlobalOptions>();
+
+        if (!/^\d+$/.test(serial)) {
+          throw new Error(`Invalid serial number "${serial}"`);
+        }
+
+        const bridge = await createBridge(options, false);
+        const record = await bridge.locateSerial(block, Number(serial));
+        if (!record) {
+          throw new Error(`Serial ${serial} of ${block} has not been bridged`);
+        }
+
+        printOutput(outputMode(options), record);
+      }
+    )
+  );
+
+const configCommand = program
+  .command("config")
+  .description("inspect bridge configuration");
+
+configCommand
+  .command("validate")
+  .description("validate the bridge configuration")
+  .action(
+    run(async (_cmdOptions, command: Command) => {
+      const options = command.optsWithGlobals<GlobalOptions>();
+
+      try {
+        const config = createBridgeConfig(loadCliConfig(options));
+        printOutput(outputMode(options), {
+          valid: true,
+          targetChain: config.targetChain.chainType,
+          targetChains: getTargetChainConfigs(config).map(
+            (targetChain) => targetChain.chainType
+          ),
+          escrowAppId: config.algorand.escrowAppId,
+          carbonAssetId: config.algorand.carbonAssetId,
+          verifiers: config.verifierNodes?.length ?? 0,
+          minVerifierSignatures: config.minVerifierSignatures,
+        });
+        return 0;
+      } catch (error: any) {
+        printOutput(outputMode(options), {
+          valid: false,
+          error: error.message,
+        });
+        return 1;
+      }
+    })
+  );
+
+program.parseAsync(process.argv).catch((error) => {
+  console.error(`Error: ${error.message || error}`);
+  process.exit(1);
+});
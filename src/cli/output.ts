@@ -0,0 +1,112 @@
+import { BigNumber } from "bignumber.js";
+
+/**
+ * Output mode for CLI commands
+ */
+export type OutputMode = "json" | "table";
+
+/**
+ * Format a single value for human-readable output
+ *
+ * @param key Field name
+ * @param value Field value
+ * @returns Display string
+ */
+function formatValue(key: string, value: any): string {
+  if (value === undefined || value === null || value === "") {
+    return "-";
+  }
+
+  if (BigNumber.isBigNumber(value)) {
+    return value.toFixed();
+  }
+
+  if (key === "timestamp" && typeof value === "number") {
+    return new Date(value).toISOString();
+  }
+
+  if (typeof value === "object") {
+    return JSON.stringify(value);
+  }
+
+  return String(value);
+}
+
+/**
+ * Print a value as indented JSON
+ *
+ * @param value Value to print
+ */
+export function printJson(value: any): void {
+  console.log(JSON.stringify(value, null, 2));
+}
+
+/**
+ * Print rows as an aligned text table
+ *
+ * @param rows Rows to print
+ * @param columns Columns to include, in order
+ */
+export function printTable(
+  rows: Record<string, any>[],
+  columns: string[]
+): void {
+  if (rows.length === 0) {
+    console.log("(no results)");
+    return;
+  }
+
+  const cells = rows.map((row) =>
+    columns.map((column) => formatValue(column, row[column]))
+  );
+  const widths = columns.map((column, i) =>
+    Math.max(column.length, ...cells.map((row) => row[i].length))
+  );
+
+  const formatRow = (values: string[]) =>
+    values
+      .map((value, i) => value.padEnd(widths[i]))
+      .join("  ")
+      .trimEnd();
+
+  console.log(formatRow(columns.map((column) => column.toUpperCase())));
+  console.log(formatRow(widths.map((width) => "-".repeat(width))));
+  for (const row of cells) {
+    console.log(formatRow(row));
+  }
+}
+
+/**
+ * Print a single record as key/value pairs
+ *
+ * @param record Record to print
+ */
+export function printRecord(record: Record<string, any>): void {
+  const keys = Object.keys(record).filter((key) => record[key] !== undefined);
+  const width = Math.max(...keys.map((key) => key.length));
+
+  for (const key of keys) {
+    console.log(`${key.padEnd(width)}  ${formatValue(key, record[key])}`);
+  }
+}
+
+/**
+ * Print a value using the selected output mode
+ *
+ * @param mode Output mode
+ * @param value Record or list of records
+ * @param columns Columns for table output of lists
+ */
+export function printOutput(
+  mode: OutputMode,
+  value: Record<string, any> | Record<string, any>[],
+  columns?: string[]
+): void {
+  if (mode === "json") {
+    printJson(value);
+  } else if (Array.isArray(value)) {
+    printTable(value, columns || Object.keys(value[0] || {}));
+  } else {
+    printRecord(value);
+  }
+}
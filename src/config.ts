@@ -1,9 +1,29 @@
-import { BridgeConfig, ChainType } from "./types";
+import {
+  BridgeConfig,
+  BridgeConfigInput,
+  BridgeTransaction,
+  ChainType,
+  TargetChainConfig,
+  VerifierNode,
+} from "./types";
 import * as dotenv from "dotenv";
-import algosdk from "algosdk";
+import { FileStorageAdapter } from "./storage";
+import { AccountSigner } from "./chains/algorand/signers";
+import {
+  loadAlgorandSignerFromEnv,
+  loadEthereumSignerFromEnv,
+} from "./signers/config";
+import { loadRegistriesFromEnv } from "./registry/config";
+import { EVM_NETWORKS } from "./chains/ethereum/networks";
 
 dotenv.config();
 
+/**
+ * Rounds or blocks before an uncompleted bridge times out (~10 minutes on
+ * Algorand)
+ */
+export const DEFAULT_TIMEOUT_BLOCKS = 150;
+
 /**
  * Default bridge configuration
  */
@@ -19,35 +39,47 @@ const defaultConfig: BridgeConfig = {
     rpcUrl: "https://mainnet.infura.io/v3/your-api-key",
     bridgeContractAddress: "",
     tokenContractAddress: "",
-    gasPrice: "5000000000", // 5 gwei
     gasLimit: 300000,
   },
   verifiers: [],
   minVerifierSignatures: 2,
   bridgeFee: 0.001, // 0.1%
-  timeoutBlocks: 150, // ~10 minutes on Algorand
+  timeoutBlocks: DEFAULT_TIMEOUT_BLOCKS,
 };
 
+/**
+ * Drop the keys of an object whose value is undefined
+ *
+ * Unset environment variables are loaded as undefined, which would otherwise
+ * override the defaults they are merged over.
+ *
+ * @param value Object to copy
+ * @returns Copy without undefined values
+ */
+function withoutUndefined<T extends object>(value: T | undefined): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(value ?? {}).filter(([, entry]) => entry !== undefined)
+  ) as Partial<T>;
+}
+
 /**
  * Creates a bridge configuration with sensible defaults
  *
  * @param config Partial bridge configuration
  * @returns Complete bridge configuration
  */
-export function createBridgeConfig(
-  config: Partial<BridgeConfig>
-): BridgeConfig {
+export function createBridgeConfig(config: BridgeConfigInput): BridgeConfig {
   // Merge provided config with defaults
   const mergedConfig = {
     ...defaultConfig,
-    ...config,
+    ...withoutUndefined(config),
     algorand: {
       ...defaultConfig.algorand,
-      ...config.algorand,
+      ...withoutUndefined(config.algorand),
     },
     targetChain: {
       ...defaultConfig.targetChain,
-      ...config.targetChain,
+      ...withoutUndefined(config.targetChain),
     },
   };
 
@@ -68,22 +100,80 @@ export function createBridgeConfig(
     throw new Error("Target chain token contract address is required");
   }
 
-  // Create Algorand account from mnemonic if provided
-  if (
-    process.env.BRIDGE_ACCOUNT_MNEMONIC &&
-    !mergedConfig.algorand.bridgeAccount
-  ) {
-    try {
-      mergedConfig.algorand.bridgeAccount = algosdk.mnemonicToSecretKey(
-        process.env.BRIDGE_ACCOUNT_MNEMONIC
+  // Validate further target chains
+  const chainTypes = new Set([mergedConfig.targetChain.chainType]);
+  for (const targetChain of mergedConfig.targetChains ?? []) {
+    if (targetChain.chainType === ChainType.ALGORAND) {
+      throw new Error("Algorand cannot be a target chain");
+    }
+    if (chainTypes.has(targetChain.chainType)) {
+      throw new Error(
+        `Target chain ${targetChain.chainType} is configured more than once`
       );
-    } catch (error) {
-      console.warn("Failed to create Algorand account from mnemonic:", error);
     }
+    if (
+      !targetChain.rpcUrl ||
+      !targetChain.bridgeContractAddress ||
+      !targetChain.tokenContractAddress
+    ) {
+      throw new Error(
+        `Target chain ${targetChain.chainType} requires an RPC URL, bridge contract and token contract`
+      );
+    }
+    chainTypes.add(targetChain.chainType);
+  }
+
+  if (
+    mergedConfig.bridgeFee !== undefined &&
+    !(mergedConfig.bridgeFee >= 0 && mergedConfig.bridgeFee < 1)
+  ) {
+    throw new Error("Bridge fee must be a fraction between 0 and 1");
+  }
+
+  // Resolve operator signers. An explicit bridge account is wrapped for
+  // backwards compatibility; otherwise signers come from the environment.
+  if (!mergedConfig.algorand.signer) {
+    mergedConfig.algorand.signer = mergedConfig.algorand.bridgeAccount
+      ? new AccountSigner(mergedConfig.algorand.bridgeAccount)
+      : loadAlgorandSignerFromEnv();
   }
 
-  // Validate verifiers
-  if (mergedConfig.verifiers.length < mergedConfig.minVerifierSignatures) {
+  if (!mergedConfig.targetChain.signer) {
+    mergedConfig.targetChain.signer = loadEthereumSignerFromEnv();
+  }
+
+  // Known EVM chains default to their network's chain ID
+  mergedConfig.targetChain.chainId =
+    mergedConfig.targetChain.chainId ??
+    EVM_NETWORKS[mergedConfig.targetChain.chainType]?.chainId;
+
+  // EVM chains share the operator key unless they have their own signer
+  if (mergedConfig.targetChains) {
+    mergedConfig.targetChains = mergedConfig.targetChains.map(
+      (targetChain) => ({
+        ...targetChain,
+        signer: targetChain.signer ?? mergedConfig.targetChain.signer,
+        chainId:
+          targetChain.chainId ?? EVM_NETWORKS[targetChain.chainType]?.chainId,
+      })
+    );
+  }
+
+  // Validate verifiers. Signatures are only accepted from the keys
+  // registered in `verifierNodes`; `verifiers` holds no endpoints.
+  const verifierNodes = mergedConfig.verifierNodes ?? [];
+  if (mergedConfig.minVerifierSignatures > 0 && !mergedConfig.verifierNodes) {
+    throw new Error("verifierNodes is required to collect verifier signatures");
+  }
+
+  const keyless = verifierNodes.find(
+    (node) => !node.algorandAddress && !node.ethereumAddress
+  );
+  if (keyless) {
+    throw new Error(`Verifier node ${keyless.url} has no registered key`);
+  }
+
+  if (verifierNodes.length < mergedConfig.minVerifierSignatures) {
     throw new Error(
       "Number of verifiers must be greater than or equal to minimum required signatures"
     );
@@ -92,10 +182,129 @@ export function createBridgeConfig(
   return mergedConfig;
 }
 
+/**
+ * Parse verifier nodes from a JSON array
+ *
+ * @param json JSON array of `{ url, algorandAddress?, ethereumAddress? }`
+ * @returns Verifier nodes
+ */
+function parseVerifierNodes(json: string): VerifierNode[] {
+  const nodes = JSON.parse(json);
+  if (
+    !Array.isArray(nodes) ||
+    nodes.some((node) => !node || typeof node.url !== "string")
+  ) {
+    throw new Error("VERIFIER_NODES must be a JSON array of { url } objects");
+  }
+  return nodes;
+}
+
+/**
+ * Parse further target chains from a JSON array
+ *
+ * @param json JSON array of target chain configurations
+ * @returns Target chain configurations
+ */
+function parseTargetChains(json: string): TargetChainConfig[] {
+  const chains = JSON.parse(json);
+  if (
+    !Array.isArray(chains) ||
+    chains.some((chain) => !chain || typeof chain.chainType !== "string")
+  ) {
+    throw new Error(
+      "TARGET_CHAINS must be a JSON array of { chainType, rpcUrl, ... } objects"
+    );
+  }
+  return chains;
+}
+
+/**
+ * Get the configurations of every target chain, primary first
+ *
+ * @param config Bridge configuration
+ * @returns Target chain configurations
+ */
+export function getTargetChainConfigs(
+  config: BridgeConfig
+): TargetChainConfig[] {
+  return [
+    config.targetChain,
+    ...(config.targetChains ?? []).filter(
+      (targetChain) => targetChain.chainType !== config.targetChain.chainType
+    ),
+  ];
+}
+
+/**
+ * Bridge configurations narrowed to one target chain, by configuration
+ */
+const chainConfigs = new WeakMap<BridgeConfig, Map<ChainType, BridgeConfig>>();
+
+/**
+ * Get the bridge configuration for one target chain
+ *
+ * Code that handles a single chain reads it from `targetChain`. The
+ * returned configuration has `targetChain` set to `chain` and is cached,
+ * so state resolved on it, such as token decimals, is kept.
+ *
+ * @param config Bridge configuration
+ * @param chain Target chain (Algorand returns `config` itself)
+ * @returns Bridge configuration for the chain
+ * @throws Error if the chain is not configured
+ */
+export function getChainConfig(
+  config: BridgeConfig,
+  chain: ChainType
+): BridgeConfig {
+  if (chain === ChainType.ALGORAND || chain === config.targetChain.chainType) {
+    return config;
+  }
+
+  let views = chainConfigs.get(config);
+  if (!views) {
+    views = new Map();
+    chainConfigs.set(config, views);
+  }
+
+  let view = views.get(chain);
+  if (!view) {
+    const targetChains = getTargetChainConfigs(config);
+    const targetChain = targetChains.find(
+      (candidate) => candidate.chainType === chain
+    );
+    if (!targetChain) {
+      throw new Error(`Unsupported target chain: ${chain}`);
+    }
+
+    view = { ...config, targetChain, targetChains };
+    views.set(chain, view);
+  }
+  return view;
+}
+
+/**
+ * Get the bridge configuration for the target chain of a transaction
+ *
+ * @param config Bridge configuration
+ * @param transaction Bridge transaction
+ * @returns Bridge configuration for the chain the credits are wrapped on
+ */
+export function getTransactionConfig(
+  config: BridgeConfig,
+  transaction: BridgeTransaction
+): BridgeConfig {
+  return getChainConfig(
+    config,
+    transaction.sourceChain === ChainType.ALGORAND
+      ? transaction.targetChain
+      : transaction.sourceChain
+  );
+}
+
 /**
  * Load configuration from environment variables
  */
-export function loadConfigFromEnv(): Partial<BridgeConfig> {
+export function loadConfigFromEnv(): BridgeConfigInput {
   return {
     algorand: {
       nodeUrl: process.env.ALGORAND_NODE_URL,
@@ -106,6 +315,7 @@ export function loadConfigFromEnv(): Partial<BridgeConfig> {
       carbonAssetId: process.env.ALGORAND_CARBON_ASSET_ID
         ? parseInt(process.env.ALGORAND_CARBON_ASSET_ID)
         : undefined,
+      genesisId: process.env.ALGORAND_GENESIS_ID,
     },
     targetChain: {
       chainType:
@@ -114,13 +324,31 @@ export function loadConfigFromEnv(): Partial<BridgeConfig> {
       bridgeContractAddress: process.env.TARGET_BRIDGE_CONTRACT_ADDRESS,
       tokenContractAddress: process.env.TARGET_TOKEN_CONTRACT_ADDRESS,
       gasPrice: process.env.TARGET_GAS_PRICE,
+      maxFeePerGas: process.env.TARGET_MAX_FEE_PER_GAS,
+      maxPriorityFeePerGas: process.env.TARGET_MAX_PRIORITY_FEE_PER_GAS,
       gasLimit: process.env.TARGET_GAS_LIMIT
         ? parseInt(process.env.TARGET_GAS_LIMIT)
         : undefined,
+      stuckTransactionMs: process.env.TARGET_STUCK_TRANSACTION_MS
+        ? parseInt(process.env.TARGET_STUCK_TRANSACTION_MS)
+        : undefined,
+      maxSpeedUps: process.env.TARGET_MAX_SPEED_UPS
+        ? parseInt(process.env.TARGET_MAX_SPEED_UPS)
+        : undefined,
+      chainId: process.env.TARGET_CHAIN_ID
+        ? parseInt(process.env.TARGET_CHAIN_ID)
+        : undefined,
+      permitVersion: process.env.TARGET_PERMIT_VERSION,
     },
+    targetChains: process.env.TARGET_CHAINS
+      ? parseTargetChains(process.env.TARGET_CHAINS)
+      : undefined,
     verifiers: process.env.VERIFIER_ADDRESSES
       ? process.env.VERIFIER_ADDRESSES.split(",")
       : [],
+    verifierNodes: process.env.VERIFIER_NODES
+      ? parseVerifierNodes(process.env.VERIFIER_NODES)
+      : undefined,
     minVerifierSignatures: process.env.MIN_VERIFIER_SIGNATURES
       ? parseInt(process.env.MIN_VERIFIER_SIGNATURES)
       : undefined,
@@ -130,5 +358,9 @@ export function loadConfigFromEnv(): Partial<BridgeConfig> {
     timeoutBlocks: process.env.TIMEOUT_BLOCKS
       ? parseInt(process.env.TIMEOUT_BLOCKS)
       : undefined,
+    storage: process.env.BRIDGE_STORAGE_PATH
+      ? new FileStorageAdapter(process.env.BRIDGE_STORAGE_PATH)
+      : undefined,
+    registries: loadRegistriesFromEnv(),
   };
 }
@@ -0,0 +1,145 @@
+import { BigNumber } from "bignumber.js";
+import {
+  calculateProtocolFee,
+  createQuote,
+  getNetAssetAmount,
+  getProtocolFee,
+} from "./fees";
+import {
+  BridgeConfig,
+  BridgeDirection,
+  BridgeStatus,
+  BridgeTransaction,
+  ChainType,
+} from "./types";
+
+const config = {
+  algorand: {
+    nodeUrl: "http://localhost:4001",
+    indexerUrl: "http://localhost:8980",
+    escrowAppId: 1234,
+    carbonAssetId: 5678,
+    decimals: 2,
+  },
+  targetChain: {
+    chainType: ChainType.ETHEREUM,
+    rpcUrl: "http://localhost:8545",
+    bridgeContractAddress: "0x0000000000000000000000000000000000000002",
+    tokenContractAddress: "0x0000000000000000000000000000000000000003",
+    decimals: 18,
+  },
+  verifiers: [],
+  minVerifierSignatures: 0,
+  bridgeFee: 0.001,
+  timeoutBlocks: 150,
+} as unknown as BridgeConfig;
+
+const lock: BridgeTransaction = {
+  id: "bridge-1",
+  sourceChain: ChainType.ALGORAND,
+  targetChain: ChainType.ETHEREUM,
+  sourceAssetId: "5678",
+  targetAssetId: "0x0000000000000000000000000000000000000003",
+  amount: new BigNumber(1000),
+  sender: "SENDER",
+  receiver: "0x000000000000000000000000000000000000dEaD",
+  status: BridgeStatus.LOCKED,
+  timestamp: 1700000000000,
+  nonce: 100,
+};
+
+describe("calculateProtocolFee", () => {
+  it("charges bridgeFee of the amount", () => {
+    expect(calculateProtocolFee(1000, config).toFixed()).toBe("1");
+  });
+
+  it("rounds down to the precision both chains share", () => {
+    expect(calculateProtocolFee("12.34", config).toFixed()).toBe("0.01");
+    expect(calculateProtocolFee(9, config).toFixed()).toBe("0");
+  });
+
+  it("charges nothing without a bridgeFee", () => {
+    expect(
+      calculateProtocolFee(1000, { ...config, bridgeFee: undefined }).toFixed()
+    ).toBe("0");
+  });
+});
+
+describe("getProtocolFee", () => {
+  it("charges locks and burns", () => {
+    expect(getProtocolFee(lock, config).toFixed()).toBe("1");
+  });
+
+  it("charges refunds and retirements nothing", () => {
+    expect(
+      getProtocolFee(
+        { ...lock, targetChain: ChainType.ALGORAND },
+        config
+      ).toFixed()
+    ).toBe("0");
+    expect(
+      getProtocolFee(
+        {
+          ...lock,
+          retirement: { beneficiary: "Acme Corp", reason: "Offset" },
+        },
+        config
+      ).toFixed()
+    ).toBe("0");
+  });
+});
+
+describe("getNetAssetAmount", () => {
+  it("mints the net amount in target chain base units", () => {
+    expect(getNetAssetAmount(lock, config)).toEqual({
+      baseUnits: "999000000000000000000",
+      decimals: 18,
+    });
+  });
+
+  it("releases the net amount in ASA base units", () => {
+    expect(
+      getNetAssetAmount(
+        {
+          ...lock,
+          sourceChain: ChainType.ETHEREUM,
+          targetChain: ChainType.ALGORAND,
+          amount: new BigNumber("12.34"),
+        },
+        config
+      )
+    ).toEqual({ baseUnits: "1233", decimals: 2 });
+  });
+});
+
+describe("createQuote", () => {
+  it("quotes the gross amount, fee and net amount", () => {
+    const networkFees = {
+      algorand: new BigNumber("0.002"),
+      ethereum: new BigNumber("0.0004"),
+    };
+
+    const quote = createQuote(
+      BridgeDirection.ALGORAND_TO_TARGET,
+      1000,
+      config,
+      networkFees
+    );
+
+    expect(quote.direction).toBe(BridgeDirection.ALGORAND_TO_TARGET);
+    expect(quote.grossAmount.toFixed()).toBe("1000");
+    expect(quote.feeRate).toBe(0.001);
+    expect(quote.protocolFee.toFixed()).toBe("1");
+    expect(quote.netAmount.toFixed()).toBe("999");
+    expect(quote.networkFees).toBe(networkFees);
+  });
+
+  it("rejects amounts that cannot be bridged exactly", () => {
+    expect(() =>
+      createQuote(BridgeDirection.TARGET_TO_ALGORAND, "1.001", config)
+    ).toThrow("Amount cannot have more than 2 decimal places");
+    expect(() =>
+      createQuote(BridgeDirection.TARGET_TO_ALGORAND, 0, config)
+    ).toThrow("Amount must be a positive number");
+  });
+});
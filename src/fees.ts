@@ -0,0 +1,146 @@
+import { BigNumber } from "bignumber.js";
+import {
+  AssetAmount,
+  BridgeConfig,
+  BridgeDirection,
+  BridgeQuote,
+  BridgeTransaction,
+} from "./types";
+import {
+  convertAssetAmount,
+  getBridgePrecision,
+  getChainDecimals,
+  toAssetAmount,
+  validateBridgeAmount,
+} from "./amounts";
+
+/**
+ * Get the number of decimals protocol fees are rounded to
+ *
+ * Fees are rounded to the smallest unit both chains can represent, so the
+ * net amount can be minted on one chain and released on the other.
+ *
+ * @param config Bridge configuration
+ * @returns Number of decimals
+ */
+export function getFeePrecision(config: BridgeConfig): number {
+  return getBridgePrecision(config);
+}
+
+/**
+ * Calculate the protocol fee for bridging an amount
+ *
+ * The fee is `bridgeFee` times the amount, rounded down.
+ *
+ * @param amount Gross amount locked or burned on the source chain
+ * @param config Bridge configuration
+ * @returns Protocol fee
+ */
+export function calculateProtocolFee(
+  amount: BigNumber | string | number,
+  config: BridgeConfig
+): BigNumber {
+  return new BigNumber(amount)
+    .times(config.bridgeFee ?? 0)
+    .decimalPlaces(getFeePrecision(config), BigNumber.ROUND_DOWN);
+}
+
+/**
+ * Get the protocol fee charged on a bridge transaction
+ *
+ * Refunds return the full amount to the sender and carry no fee. Nor do
+ * retirements, whose full amount is retired in the escrow.
+ *
+ * @param transaction Bridge transaction
+ * @param config Bridge configuration
+ * @returns Protocol fee
+ */
+export function getProtocolFee(
+  transaction: BridgeTransaction,
+  config: BridgeConfig
+): BigNumber {
+  if (
+    transaction.sourceChain === transaction.targetChain ||
+    transaction.retirement
+  ) {
+    return new BigNumber(0);
+  }
+
+  return calculateProtocolFee(transaction.amount, config);
+}
+
+/**
+ * Get the amount minted or released for a bridge transaction
+ *
+ * @param transaction Bridge transaction
+ * @param config Bridge configuration
+ * @returns Gross amount less the protocol fee
+ */
+export function getNetAmount(
+  transaction: BridgeTransaction,
+  config: BridgeConfig
+): BigNumber {
+  return new BigNumber(transaction.amount).minus(
+    getProtocolFee(transaction, config)
+  );
+}
+
+/**
+ * Get the exact amount minted or released for a bridge transaction
+ *
+ * The net amount is counted in source chain base units and converted to
+ * the target chain's decimals, so nothing is lost to rounding.
+ *
+ * @param transaction Bridge transaction
+ * @param config Bridge configuration
+ * @returns Net amount in target chain base units
+ * @throws Error if the amount cannot be represented on the target chain
+ */
+export function getNetAssetAmount(
+  transaction: BridgeTransaction,
+  config: BridgeConfig
+): AssetAmount {
+  const sourceAmount = toAssetAmount(
+    getNetAmount(transaction, config),
+    getChainDecimals(transaction.sourceChain, config)
+  );
+
+  return convertAssetAmount(
+    sourceAmount,
+    getChainDecimals(transaction.targetChain, config)
+  );
+}
+
+/**
+ * Build a quote for bridging an amount
+ *
+ * @param direction Bridge direction
+ * @param amount Gross amount locked or burned on the source chain
+ * @param config Bridge configuration
+ * @param networkFees Estimated network fees on each chain
+ * @returns Bridge quote
+ */
+export function createQuote(
+  direction: BridgeDirection,
+  amount: BigNumber | string | number,
+  config: BridgeConfig,
+  networkFees: BridgeQuote["networkFees"] = {}
+): BridgeQuote {
+  const error = validateBridgeAmount(amount, config);
+  if (error) {
+    throw new Error(error);
+  }
+
+  const grossAmount = new BigNumber(amount);
+
+  const protocolFee = calculateProtocolFee(grossAmount, config);
+
+  return {
+    direction,
+    grossAmount,
+    feeRate: config.bridgeFee ?? 0,
+    protocolFee,
+    netAmount: grossAmount.minus(protocolFee),
+    networkFees,
+  };
+}
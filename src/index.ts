@@ -3,6 +3,24 @@ export * from "./config";
 export * from "./types";
 export * from "./events";
 export * from "./chains/algorand";
+export * from "./chains/algorand/watcher";
+export * from "./chains/algorand/signers";
 export * from "./chains/ethereum";
+export * from "./chains/ethereum/watcher";
+export * from "./chains/ethereum/networks";
+export * from "./chains/ethereum/gas";
+export * from "./chains/ethereum/nonces";
+export * from "./chains/registry";
 export * from "./verification";
+export * from "./attestation";
+export * from "./replay";
+export * from "./serials";
+export * from "./lifecycle";
+export * from "./fees";
+export * from "./amounts";
+export * from "./metadata";
+export * from "./timeouts";
+export * from "./storage";
+export * from "./signers";
+export * from "./registry";
 export * from "./utils";
@@ -0,0 +1,225 @@
+import {
+  BridgeStatus,
+  BridgeStorageAdapter,
+  BridgeTransaction,
+  ChainType,
+  StatusTransition,
+} from "./types";
+
+/**
+ * Legal status transitions of a bridge transaction
+ *
+ * A lock starts PENDING and becomes LOCKED once confirmed on Algorand; a
+ * burn becomes BURNED once confirmed on the target chain. Either moves to
+ * VERIFYING while verifier signatures are collected, and back again if
+ * verification fails so it can be retried. A retirement is a burn that
+ * ends RETIRED instead of RELEASED. A release to a receiver that has not
+ * opted into the carbon asset is CLAIMABLE until the receiver claims it.
+ * MINTED, RELEASED, REFUNDED, RETIRED and FAILED are final.
+ *
+ * The chain handlers record a mint, release or retirement they submit as
+ * PENDING, and move it straight to its completed status once confirmed.
+ */
+export const BRIDGE_TRANSITIONS: Record<BridgeStatus, BridgeStatus[]> = {
+  [BridgeStatus.PENDING]: [
+    BridgeStatus.LOCKED,
+    BridgeStatus.BURNED,
+    BridgeStatus.VERIFYING,
+    BridgeStatus.MINTED,
+    BridgeStatus.RELEASED,
+    BridgeStatus.CLAIMABLE,
+    BridgeStatus.RETIRED,
+    BridgeStatus.EXPIRED,
+    BridgeStatus.FAILED,
+  ],
+  [BridgeStatus.LOCKED]: [
+    BridgeStatus.VERIFYING,
+    BridgeStatus.MINTED,
+    BridgeStatus.EXPIRED,
+    BridgeStatus.FAILED,
+  ],
+  [BridgeStatus.BURNED]: [
+    BridgeStatus.VERIFYING,
+    BridgeStatus.RELEASED,
+    BridgeStatus.CLAIMABLE,
+    BridgeStatus.RETIRED,
+    BridgeStatus.EXPIRED,
+    BridgeStatus.FAILED,
+  ],
+  [BridgeStatus.VERIFYING]: [
+    BridgeStatus.LOCKED,
+    BridgeStatus.BURNED,
+    BridgeStatus.MINTED,
+    BridgeStatus.RELEASED,
+    BridgeStatus.CLAIMABLE,
+    BridgeStatus.RETIRED,
+    BridgeStatus.EXPIRED,
+    BridgeStatus.FAILED,
+  ],
+  // The mint or release may still land after the timeout
+  [BridgeStatus.EXPIRED]: [
+    BridgeStatus.MINTED,
+    BridgeStatus.RELEASED,
+    BridgeStatus.CLAIMABLE,
+    BridgeStatus.REFUNDED,
+    BridgeStatus.FAILED,
+  ],
+  [BridgeStatus.CLAIMABLE]: [BridgeStatus.RELEASED],
+  [BridgeStatus.MINTED]: [],
+  [BridgeStatus.RELEASED]: [],
+  [BridgeStatus.REFUNDED]: [],
+  [BridgeStatus.RETIRED]: [],
+  [BridgeStatus.FAILED]: [],
+};
+
+/**
+ * Check whether a status change is allowed
+ *
+ * @param from Current status
+ * @param to New status
+ * @returns True if the transition is legal
+ */
+export function canTransition(from: BridgeStatus, to: BridgeStatus): boolean {
+  return BRIDGE_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Check whether a status is final
+ *
+ * @param status Bridge status
+ * @returns True if no further transitions are allowed
+ */
+export function isFinalStatus(status: BridgeStatus): boolean {
+  return BRIDGE_TRANSITIONS[status]?.length === 0;
+}
+
+/**
+ * Get the status a bridge transaction ends in once completed on-chain
+ *
+ * @param transaction Bridge transaction
+ * @returns RETIRED for retirements, RELEASED for other transactions to
+ * Algorand and MINTED for transactions from Algorand
+ */
+export function getCompletedStatus(
+  transaction: BridgeTransaction
+): BridgeStatus {
+  if (transaction.retirement) {
+    return BridgeStatus.RETIRED;
+  }
+
+  return transaction.targetChain === ChainType.ALGORAND
+    ? BridgeStatus.RELEASED
+    : BridgeStatus.MINTED;
+}
+
+/**
+ * Start the history of a new bridge transaction
+ *
+ * @param transaction Bridge transaction
+ * @param reason Why the transaction was recorded
+ * @returns Transaction with its initial history entry
+ */
+export function withInitialHistory(
+  transaction: BridgeTransaction,
+  reason?: string
+): BridgeTransaction {
+  if (transaction.history && transaction.history.length > 0) {
+    return transaction;
+  }
+
+  return {
+    ...transaction,
+    history: [
+      {
+        to: transaction.status,
+        timestamp: transaction.timestamp,
+        reason,
+        chainTransactionId: transaction.sourceTransactionId,
+      },
+    ],
+  };
+}
+
+/**
+ * Move a bridge transaction to a new status
+ *
+ * Moving to the current status is a no-op and records nothing.
+ *
+ * @param transaction Bridge transaction
+ * @param to New status
+ * @param details Reason and on-chain transaction for the history entry
+ * @returns Updated copy of the transaction
+ * @throws Error if the transition is not allowed
+ */
+export function transitionTransaction(
+  transaction: BridgeTransaction,
+  to: BridgeStatus,
+  details: Pick<StatusTransition, "reason" | "chainTransactionId"> = {}
+): BridgeTransaction {
+  const from = transaction.status;
+  if (from === to) {
+    return transaction;
+  }
+
+  if (!canTransition(from, to)) {
+    throw new Error(
+      `Illegal status transition for bridge ${transaction.id}: ${from} -> ${to}`
+    );
+  }
+
+  const history = withInitialHistory(transaction).history || [];
+
+  return {
+    ...transaction,
+    status: to,
+    history: [
+      ...history,
+      {
+        from,
+        to,
+        timestamp: Date.now(),
+        reason: details.reason,
+        chainTransactionId: details.chainTransactionId,
+      },
+    ],
+  };
+}
+
+/**
+ * Persist a source transaction a watcher found confirmed on-chain
+ *
+ * Watchers call this before emitting the transaction and checkpointing past
+ * it, so a restart resumes it from storage even if the bridge never handled
+ * the event. A stored record is only updated while it is still PENDING;
+ * anything further along is left to the bridge.
+ *
+ * @param storage Bridge storage
+ * @param transaction Confirmed lock or burn
+ * @param reason Why the transaction was recorded
+ */
+export async function recordConfirmedSource(
+  storage: BridgeStorageAdapter,
+  transaction: BridgeTransaction,
+  reason: string
+): Promise<void> {
+  const stored = await storage.getTransaction(transaction.id);
+  if (!stored) {
+    await storage.saveTransaction(withInitialHistory(transaction, reason));
+    return;
+  }
+
+  if (stored.status === BridgeStatus.PENDING) {
+    await storage.saveTransaction(
+      transitionTransaction(
+        {
+          ...stored,
+          ...transaction,
+          status: stored.status,
+          history: stored.history,
+        },
+        transaction.status,
+        { reason, chainTransactionId: transaction.sourceTransactionId }
+      )
+    );
+  }
+}
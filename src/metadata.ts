@@ -0,0 +1,98 @@
+import { ethers } from "ethers";
+import { BridgeTransaction, CarbonCreditMetadata } from "./types";
+import { validateCarbonMetadata } from "./utils";
+
+/**
+ * Metadata hash of a bridge that carries no carbon credit metadata
+ */
+export const EMPTY_METADATA_HASH = ethers.ZeroHash;
+
+/**
+ * Serialize carbon credit metadata deterministically
+ *
+ * Object keys are sorted at every level, so the same metadata always
+ * produces the same bytes regardless of property order.
+ *
+ * @param metadata Carbon credit metadata
+ * @returns Canonical JSON string
+ */
+export function canonicalizeMetadata(metadata: CarbonCreditMetadata): string {
+  const sortKeys = (value: any): any => {
+    if (Array.isArray(value)) {
+      return value.map(sortKeys);
+    }
+    if (value !== null && typeof value === "object") {
+      return Object.keys(value)
+        .sort()
+        .reduce((sorted: Record<string, any>, key) => {
+          if (value[key] !== undefined) {
+            sorted[key] = sortKeys(value[key]);
+          }
+          return sorted;
+        }, {});
+    }
+    return value;
+  };
+
+  return JSON.stringify(sortKeys(metadata));
+}
+
+/**
+ * Hash carbon credit metadata for an on-chain commitment
+ *
+ * @param metadata Carbon credit metadata
+ * @returns keccak256 of the canonical JSON, as 0x-prefixed hex
+ * @throws Error if the metadata is invalid
+ */
+export function hashCarbonMetadata(metadata: CarbonCreditMetadata): string {
+  const error = validateCarbonMetadata(metadata);
+  if (error) {
+    throw new Error(`Invalid metadata: ${error}`);
+  }
+
+  return ethers.id(canonicalizeMetadata(metadata));
+}
+
+/**
+ * Get the metadata hash committed for a bridge transaction
+ *
+ * @param transaction Bridge transaction
+ * @returns Metadata hash, or EMPTY_METADATA_HASH without metadata
+ */
+export function getMetadataHash(transaction: BridgeTransaction): string {
+  return transaction.metadataHash ?? EMPTY_METADATA_HASH;
+}
+
+/**
+ * Check that a transaction's metadata matches its committed hash
+ *
+ * A transaction without metadata only needs a well-formed hash, if any;
+ * the hash itself is checked against the lock on-chain.
+ *
+ * @param transaction Bridge transaction
+ * @returns True if the metadata hashes to `metadataHash`
+ */
+export function verifyMetadataCommitment(
+  transaction: BridgeTransaction
+): boolean {
+  if (
+    transaction.metadataHash !== undefined &&
+    !ethers.isHexString(transaction.metadataHash, 32)
+  ) {
+    return false;
+  }
+
+  if (!transaction.metadata) {
+    return true;
+  }
+
+  try {
+    return (
+      transaction.metadataHash !== undefined &&
+      hashCarbonMetadata(transaction.metadata) ===
+        transaction.metadataHash.toLowerCase()
+    );
+  } catch (error) {
+    return false;
+  }
+}
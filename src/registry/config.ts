@@ -0,0 +1,38 @@
+import { CarbonRegistryAdapter } from "../types";
+import { GoldStandardRegistryAdapter } from "./goldstandard";
+import { VerraRegistryAdapter } from "./verra";
+
+/**
+ * Load the carbon registries from environment variables
+ *
+ * `VERRA_REGISTRY_URL` and `GOLD_STANDARD_REGISTRY_URL` enable the registry
+ * APIs. The mock registry is never loaded from the environment, so a
+ * deployment cannot check credits against a local fixture.
+ *
+ * @returns Registries, or undefined if none is configured
+ */
+export function loadRegistriesFromEnv(): CarbonRegistryAdapter[] | undefined {
+  const env = process.env;
+  const timeoutMs = env.CARBON_REGISTRY_TIMEOUT_MS
+    ? parseInt(env.CARBON_REGISTRY_TIMEOUT_MS)
+    : undefined;
+  const registries: CarbonRegistryAdapter[] = [];
+
+  if (env.VERRA_REGISTRY_URL) {
+    registries.push(
+      new VerraRegistryAdapter({ url: env.VERRA_REGISTRY_URL, timeoutMs })
+    );
+  }
+
+  if (env.GOLD_STANDARD_REGISTRY_URL) {
+    registries.push(
+      new GoldStandardRegistryAdapter({
+        url: env.GOLD_STANDARD_REGISTRY_URL,
+        apiKey: env.GOLD_STANDARD_API_KEY,
+        timeoutMs,
+      })
+    );
+  }
+
+  return registries.length > 0 ? registries : undefined;
+}
@@ -0,0 +1,119 @@
+import {
+  CarbonRegistryAdapter,
+  RegistryCreditStatus,
+  RegistryProject,
+  RegistrySerialRange,
+} from "../types";
+import { fetchRegistryJson } from "./http";
+import { parseRangedSerial } from "./serials";
+
+/**
+ * Connection settings for a Gold Standard-style registry API
+ *
+ * Protocol:
+ * - `GET {url}/projects/{projectId}` returns `{ id, name, status }`; a
+ *   project is active while `status` is `CERTIFIED`
+ * - `GET {url}/credits?project_id={projectId}` returns
+ *   `[{ serial_number, status }]`, where `status` is `ISSUED`, `RETIRED`,
+ *   `CANCELLED` or `TOKENISED`
+ *
+ * Serials end with their range, e.g. `GS1-1-BR-GS1234-12-2019-12345-100-199`.
+ */
+export interface GoldStandardRegistryOptions {
+  url?: string; // Registry base URL (default https://api.goldstandard.org)
+  apiKey?: string; // Sent as a bearer token
+  timeoutMs?: number; // Request timeout (default 30s)
+}
+
+/**
+ * Gold Standard credit statuses
+ */
+const GOLD_STANDARD_STATUSES: Record<string, RegistryCreditStatus> = {
+  ISSUED: RegistryCreditStatus.ACTIVE,
+  RETIRED: RegistryCreditStatus.RETIRED,
+  CANCELLED: RegistryCreditStatus.CANCELLED,
+  TOKENISED: RegistryCreditStatus.BRIDGED,
+};
+
+/**
+ * Carbon registry adapter for the Gold Standard Impact Registry
+ */
+export class GoldStandardRegistryAdapter implements CarbonRegistryAdapter {
+  readonly standard = "Gold Standard";
+  private url: string;
+  private apiKey?: string;
+  private timeoutMs?: number;
+
+  /**
+   * Constructor
+   *
+   * @param options Registry connection settings
+   */
+  constructor(options: GoldStandardRegistryOptions = {}) {
+    this.url = (options.url ?? "https://api.goldstandard.org").replace(
+      /\/+$/,
+      ""
+    );
+    this.apiKey = options.apiKey;
+    this.timeoutMs = options.timeoutMs;
+  }
+
+  async getProject(projectId: string): Promise<RegistryProject | undefined> {
+    const data = await this.request(
+      `/projects/${encodeURIComponent(projectId)}`
+    );
+    if (!data) {
+      return undefined;
+    }
+
+    return {
+      projectId: String(data.id ?? projectId),
+      name: data.name,
+      active: String(data.status).toUpperCase() === "CERTIFIED",
+    };
+  }
+
+  async getSerialRanges(
+    projectId: string,
+    block: string
+  ): Promise<RegistrySerialRange[]> {
+    const data = await this.request(
+      `/credits?project_id=${encodeURIComponent(projectId)}`
+    );
+
+    const blockKey = parseRangedSerial(block, -2)?.key ?? block;
+    const ranges: RegistrySerialRange[] = [];
+
+    for (const credit of data ?? []) {
+      const serial = parseRangedSerial(String(credit.serial_number), -2);
+      if (!serial || serial.key !== blockKey) {
+        continue;
+      }
+
+      const status =
+        GOLD_STANDARD_STATUSES[String(credit.status).toUpperCase()];
+      if (!status) {
+        throw new Error(
+          `Unknown Gold Standard status "${credit.status}" for ${credit.serial_number}`
+        );
+      }
+
+      ranges.push({ block, start: serial.start, end: serial.end, status });
+    }
+
+    return ranges;
+  }
+
+  /**
+   * Perform a GET request against the registry API
+   *
+   * @param path Request path
+   * @returns Response body, or undefined if not found
+   */
+  private request(path: string): Promise<any | undefined> {
+    return fetchRegistryJson(this.standard, `${this.url}${path}`, {
+      headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {},
+      timeoutMs: this.timeoutMs,
+    });
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Options for a registry API request
+ */
+export interface RegistryRequestOptions {
+  method?: string;
+  body?: any; // Sent as JSON
+  headers?: Record<string, string>;
+  timeoutMs?: number; // Request timeout (default 30s)
+}
+
+/**
+ * Fetch JSON from a registry API
+ *
+ * @param registry Registry name used in error messages
+ * @param url Request URL
+ * @param options Request options
+ * @returns Response body, or undefined if the registry answers 404
+ * @throws Error on other HTTP errors and timeouts
+ */
+export async function fetchRegistryJson(
+  registry: string,
+  url: string,
+  options: RegistryRequestOptions = {}
+): Promise<any | undefined> {
+  const controller = new AbortController();
+  const timeoutMs = options.timeoutMs ?? 30000;
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(url, {
+      method: options.method ?? "GET",
+      headers: {
+        Accept: "application/json",
+        ...(options.body !== undefined
+          ? { "Content-Type": "application/json" }
+          : {}),
+        ...options.headers,
+      },
+      body:
+        options.body !== undefined ? JSON.stringify(options.body) : undefined,
+      signal: controller.signal,
+    });
+
+    if (response.status === 404) {
+      return undefined;
+    }
+    if (!response.ok) {
+      throw new Error(`${registry} registry error: HTTP ${response.status}`);
+    }
+    return await response.json();
+  } catch (error) {
+    if (error instanceof Error && error.name === "AbortError") {
+      throw new Error(`${registry} registry timed out after ${timeoutMs}ms`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
@@ -0,0 +1,7 @@
+export * from "./http";
+export * from "./serials";
+export * from "./verra";
+export * from "./goldstandard";
+export * from "./mock";
+export * from "./validation";
+export * from "./config";
@@ -0,0 +1,63 @@
+import { readFileSync } from "fs";
+import {
+  CarbonRegistryAdapter,
+  RegistryProject,
+  RegistrySerialRange,
+} from "../types";
+
+/**
+ * Registry contents served by the mock registry
+ */
+export interface CarbonRegistryFixture {
+  standard: string; // e.g. "Verra"
+  projects: RegistryProject[];
+  serialRanges: Array<RegistrySerialRange & { projectId: string }>;
+}
+
+/**
+ * Carbon registry adapter backed by a local fixture
+ *
+ * For tests and local networks; nothing is fetched from a real registry.
+ */
+export class MockCarbonRegistryAdapter implements CarbonRegistryAdapter {
+  readonly standard: string;
+  private fixture: CarbonRegistryFixture;
+
+  /**
+   * Constructor
+   *
+   * @param fixture Projects and serial ranges the registry lists
+   */
+  constructor(fixture: CarbonRegistryFixture) {
+    this.standard = fixture.standard;
+    this.fixture = fixture;
+  }
+
+  /**
+   * Create a mock registry from a JSON fixture file
+   *
+   * @param path Fixture file path
+   * @returns Mock registry
+   */
+  static fromFile(path: string): MockCarbonRegistryAdapter {
+    return new MockCarbonRegistryAdapter(
+      JSON.parse(readFileSync(path, "utf8"))
+    );
+  }
+
+  async getProject(projectId: string): Promise<RegistryProject | undefined> {
+    const project = this.fixture.projects.find(
+      (candidate) => candidate.projectId === projectId
+    );
+    return project ? { ...project } : undefined;
+  }
+
+  async getSerialRanges(
+    projectId: string,
+    block: string
+  ): Promise<RegistrySerialRange[]> {
+    return this.fixture.serialRanges
+      .filter((range) => range.projectId === projectId && range.block === block)
+      .map(({ block, start, end, status }) => ({ block, start, end, status }));
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Split a registry serial number into its serial block and range
+ *
+ * Registries print a range of serials as one string with the first and
+ * last serial as dash-separated parts, e.g. Verra's
+ * `9876-154168449-154168548-VCS-VCU-...`. The block is the serial with
+ * those two parts removed, so every range of one issuance shares it.
+ *
+ * @param serial Registry serial number
+ * @param startIndex Index of the first serial among the dash-separated
+ * parts (negative counts from the end)
+ * @returns Block key and range, or undefined if the serial has no range
+ */
+export function parseRangedSerial(
+  serial: string,
+  startIndex: number
+): { key: string; start: number; end: number } | undefined {
+  const parts = serial.split("-");
+  const index = startIndex < 0 ? parts.length + startIndex : startIndex;
+  const [start, end] = [parts[index], parts[index + 1]];
+
+  if (!/^\d+$/.test(start ?? "") || !/^\d+$/.test(end ?? "")) {
+    return undefined;
+  }
+
+  return {
+    key: [...parts.slice(0, index), ...parts.slice(index + 2)].join("-"),
+    start: Number(start),
+    end: Number(end),
+  };
+}
@@ -0,0 +1,102 @@
+import { join } from "path";
+import { MockCarbonRegistryAdapter } from "./mock";
+import { findRegistry, validateRegistryCredits } from "./validation";
+import { CarbonCreditMetadata } from "../types";
+
+const registry = MockCarbonRegistryAdapter.fromFile(
+  join(__dirname, "__fixtures__", "verra.json")
+);
+
+/**
+ * Build lock metadata for a project's serial block
+ */
+function metadata(
+  projectId: string,
+  serialNumber: string
+): CarbonCreditMetadata {
+  return {
+    projectId,
+    vintage: 2019,
+    standard: "Verra",
+    creditType: "VCU",
+    serialNumber,
+    issuanceDate: 1577836800,
+    retirementStatus: false,
+  };
+}
+
+describe("findRegistry", () => {
+  it("matches the registry by standard, ignoring case", () => {
+    expect(findRegistry([registry], "verra")).toBe(registry);
+    expect(findRegistry([registry], "Gold Standard")).toBeUndefined();
+  });
+});
+
+describe("validateRegistryCredits", () => {
+  it("accepts active serials issued to an active project", async () => {
+    await expect(
+      validateRegistryCredits(registry, metadata("VCS-1234", "VCS-1234-2019"), [
+        { block: "VCS-1234-2019", start: 1, end: 100 },
+        { block: "VCS-1234-2019", start: 201, end: 250 },
+      ])
+    ).resolves.toBeNull();
+  });
+
+  it("accepts a serial block that is active throughout", async () => {
+    await expect(
+      validateRegistryCredits(registry, metadata("VCS-1234", "VCS-1234-2020"))
+    ).resolves.toBeNull();
+  });
+
+  it("rejects projects the registry does not list", async () => {
+    await expect(
+      validateRegistryCredits(registry, metadata("VCS-0000", "VCS-0000-2019"))
+    ).resolves.toBe("Project VCS-0000 is not listed in the Verra registry");
+  });
+
+  it("rejects inactive projects", async () => {
+    await expect(
+      validateRegistryCredits(registry, metadata("VCS-5678", "VCS-5678-2018"))
+    ).resolves.toBe("Project VCS-5678 is not active in the Verra registry");
+  });
+
+  it("rejects serial blocks not issued to the project", async () => {
+    await expect(
+      validateRegistryCredits(registry, metadata("VCS-1234", "VCS-1234-2021"))
+    ).resolves.toBe(
+      "Serial block VCS-1234-2021 is not issued to project VCS-1234"
+    );
+  });
+
+  it("rejects retired serials", async () => {
+    await expect(
+      validateRegistryCredits(registry, metadata("VCS-1234", "VCS-1234-2019"), [
+        { block: "VCS-1234-2019", start: 91, end: 110 },
+      ])
+    ).resolves.toBe("Serials 101-150 of VCS-1234-2019 are retired");
+  });
+
+  it("rejects serials already bridged", async () => {
+    await expect(
+      validateRegistryCredits(registry, metadata("VCS-1234", "VCS-1234-2019"), [
+        { block: "VCS-1234-2019", start: 160, end: 170 },
+      ])
+    ).resolves.toBe("Serials 151-200 of VCS-1234-2019 are bridged");
+  });
+
+  it("rejects a block with inactive ranges when no serials are given", async () => {
+    await expect(
+      validateRegistryCredits(registry, metadata("VCS-1234", "VCS-1234-2019"))
+    ).resolves.toBe("Serials 101-150 of VCS-1234-2019 are retired");
+  });
+
+  it("rejects serials past the issued ranges", async () => {
+    await expect(
+      validateRegistryCredits(registry, metadata("VCS-1234", "VCS-1234-2019"), [
+        { block: "VCS-1234-2019", start: 290, end: 310 },
+      ])
+    ).resolves.toBe(
+      "Serial 301 of VCS-1234-2019 is not issued to project VCS-1234"
+    );
+  });
+});
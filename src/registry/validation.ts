@@ -0,0 +1,84 @@
+import {
+  CarbonCreditMetadata,
+  CarbonRegistryAdapter,
+  RegistryCreditStatus,
+  SerialRange,
+} from "../types";
+
+/**
+ * Find the registry that issues credits of a carbon standard
+ *
+ * @param registries Configured registries
+ * @param standard Carbon standard, e.g. "Verra"
+ * @returns Registry, or undefined if none issues the standard
+ */
+export function findRegistry(
+  registries: CarbonRegistryAdapter[],
+  standard: string
+): CarbonRegistryAdapter | undefined {
+  return registries.find(
+    (registry) => registry.standard.toLowerCase() === standard.toLowerCase()
+  );
+}
+
+/**
+ * Confirm with the registry that credits can be locked
+ *
+ * The project must be listed and active. Every serial to be locked must be
+ * issued to the project and active: not retired, cancelled or already
+ * immobilized for another bridge. Without serials to check, every range of
+ * the serial block must be active.
+ *
+ * @param registry Registry of the credits' standard
+ * @param metadata Carbon credit metadata of the lock
+ * @param serials Serials the lock will be assigned
+ * @returns Error message, or null if the credits can be locked
+ */
+export async function validateRegistryCredits(
+  registry: CarbonRegistryAdapter,
+  metadata: CarbonCreditMetadata,
+  serials: SerialRange[] = []
+): Promise<string | null> {
+  const project = await registry.getProject(metadata.projectId);
+  if (!project) {
+    return `Project ${metadata.projectId} is not listed in the ${registry.standard} registry`;
+  }
+  if (!project.active) {
+    return `Project ${metadata.projectId} is not active in the ${registry.standard} registry`;
+  }
+
+  const ranges = await registry.getSerialRanges(
+    metadata.projectId,
+    metadata.serialNumber
+  );
+  if (ranges.length === 0) {
+    return `Serial block ${metadata.serialNumber} is not issued to project ${metadata.projectId}`;
+  }
+
+  const unavailable = ranges.find(
+    (range) =>
+      range.status !== RegistryCreditStatus.ACTIVE &&
+      (serials.length === 0 ||
+        serials.some(
+          (serial) => serial.start <= range.end && range.start <= serial.end
+        ))
+  );
+  if (unavailable) {
+    return `Serials ${unavailable.start}-${unavailable.end} of ${metadata.serialNumber} are ${unavailable.status}`;
+  }
+
+  for (const serial of serials) {
+    let next = serial.start;
+    for (const range of [...ranges].sort((a, b) => a.start - b.start)) {
+      if (range.start <= next && next <= range.end) {
+        next = range.end + 1;
+      }
+    }
+
+    if (next <= serial.end) {
+      return `Serial ${next} of ${metadata.serialNumber} is not issued to project ${metadata.projectId}`;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,113 @@
+import {
+  CarbonRegistryAdapter,
+  RegistryCreditStatus,
+  RegistryProject,
+  RegistrySerialRange,
+} from "../types";
+import { fetchRegistryJson } from "./http";
+import { parseRangedSerial } from "./serials";
+
+/**
+ * Connection settings for a Verra-style registry API
+ *
+ * Protocol:
+ * - `GET  {url}/uiapi/resource/resourceSummary/{projectId}` returns
+ *   `{ resourceIdentifier, resourceName, resourceStatus }`; a project is
+ *   active while `resourceStatus` is `Registered`
+ * - `POST {url}/uiapi/asset/asset/search` with `{ program: "VCS",
+ *   resourceIdentifier }` returns `{ value: [{ serialNumbers, status }] }`,
+ *   where `status` is `Active`, `Retired`, `Cancelled` or `Immobilized`
+ *
+ * VCU serials carry their range as the second and third parts, e.g.
+ * `9876-154168449-154168548-VCS-VCU-263-VER-BR-14-1234-01012015-31122015-0`.
+ */
+export interface VerraRegistryOptions {
+  url?: string; // Registry base URL (default https://registry.verra.org)
+  timeoutMs?: number; // Request timeout (default 30s)
+}
+
+/**
+ * Verra asset statuses
+ */
+const VERRA_STATUSES: Record<string, RegistryCreditStatus> = {
+  active: RegistryCreditStatus.ACTIVE,
+  retired: RegistryCreditStatus.RETIRED,
+  cancelled: RegistryCreditStatus.CANCELLED,
+  immobilized: RegistryCreditStatus.BRIDGED,
+  immobilised: RegistryCreditStatus.BRIDGED,
+};
+
+/**
+ * Carbon registry adapter for the Verra registry (VCS)
+ */
+export class VerraRegistryAdapter implements CarbonRegistryAdapter {
+  readonly standard = "Verra";
+  private url: string;
+  private timeoutMs?: number;
+
+  /**
+   * Constructor
+   *
+   * @param options Registry connection settings
+   */
+  constructor(options: VerraRegistryOptions = {}) {
+    this.url = (options.url ?? "https://registry.verra.org").replace(
+      /\/+$/,
+      ""
+    );
+    this.timeoutMs = options.timeoutMs;
+  }
+
+  async getProject(projectId: string): Promise<RegistryProject | undefined> {
+    const data = await fetchRegistryJson(
+      this.standard,
+      `${this.url}/uiapi/resource/resourceSummary/${encodeURIComponent(projectId)}`,
+      { timeoutMs: this.timeoutMs }
+    );
+    if (!data) {
+      return undefined;
+    }
+
+    return {
+      projectId: String(data.resourceIdentifier ?? projectId),
+      name: data.resourceName,
+      active: data.resourceStatus === "Registered",
+    };
+  }
+
+  async getSerialRanges(
+    projectId: string,
+    block: string
+  ): Promise<RegistrySerialRange[]> {
+    const data = await fetchRegistryJson(
+      this.standard,
+      `${this.url}/uiapi/asset/asset/search`,
+      {
+        method: "POST",
+        body: { program: "VCS", resourceIdentifier: projectId },
+        timeoutMs: this.timeoutMs,
+      }
+    );
+
+    const blockKey = parseRangedSerial(block, 1)?.key ?? block;
+    const ranges: RegistrySerialRange[] = [];
+
+    for (const asset of data?.value ?? []) {
+      const serial = parseRangedSerial(String(asset.serialNumbers), 1);
+      if (!serial || serial.key !== blockKey) {
+        continue;
+      }
+
+      const status = VERRA_STATUSES[String(asset.status).toLowerCase()];
+      if (!status) {
+        throw new Error(
+          `Unknown Verra status "${asset.status}" for ${asset.serialNumbers}`
+        );
+      }
+
+      ranges.push({ block, start: serial.start, end: serial.end, status });
+    }
+
+    return ranges;
+  }
+}
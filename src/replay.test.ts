@@ -0,0 +1,96 @@
+import { BigNumber } from "bignumber.js";
+import { ReplayRegistry } from "./replay";
+import { InMemoryStorageAdapter } from "./storage";
+import { BridgeStatus, BridgeTransaction, ChainType } from "./types";
+
+const lock: BridgeTransaction = {
+  id: "bridge-1",
+  sourceChain: ChainType.ALGORAND,
+  targetChain: ChainType.ETHEREUM,
+  sourceAssetId: "5678",
+  targetAssetId: "0x0000000000000000000000000000000000000003",
+  amount: new BigNumber(10),
+  sender: "SENDER",
+  receiver: "0x000000000000000000000000000000000000dEaD",
+  status: BridgeStatus.LOCKED,
+  sourceTransactionId: "LOCKTXID",
+  timestamp: 1700000000000,
+  nonce: 100,
+};
+
+describe("ReplayRegistry", () => {
+  let storage: InMemoryStorageAdapter;
+  let registry: ReplayRegistry;
+
+  beforeEach(() => {
+    storage = new InMemoryStorageAdapter();
+    registry = new ReplayRegistry(storage);
+  });
+
+  it("keys records by source chain, source transaction and bridge ID", () => {
+    expect(ReplayRegistry.getKey(lock)).toBe("algorand:LOCKTXID:bridge-1");
+    expect(() =>
+      ReplayRegistry.getKey({ ...lock, sourceTransactionId: undefined })
+    ).toThrow("Bridge transaction bridge-1 has no source transaction ID");
+  });
+
+  it("lets only one of concurrent claims through", async () => {
+    const claims = await Promise.all([
+      registry.claim(lock),
+      registry.claim(lock),
+    ]);
+
+    expect(claims).toEqual([true, false]);
+    await expect(
+      storage.getProcessedSource("algorand:LOCKTXID:bridge-1")
+    ).resolves.toMatchObject({ status: "processing", bridgeId: "bridge-1" });
+  });
+
+  it("never claims a completed transaction again", async () => {
+    await registry.claim(lock);
+    await registry.complete(lock, "0xmint");
+
+    await expect(registry.claim(lock)).resolves.toBe(false);
+    await expect(registry.isProcessed(lock)).resolves.toBe(true);
+    await expect(new ReplayRegistry(storage).claim(lock)).resolves.toBe(false);
+    await expect(
+      storage.getProcessedSource("algorand:LOCKTXID:bridge-1")
+    ).resolves.toMatchObject({
+      status: "completed",
+      targetTransactionId: "0xmint",
+    });
+  });
+
+  it("drops a released claim so the transaction can be retried", async () => {
+    await registry.claim(lock);
+    await registry.release(lock);
+
+    await expect(
+      storage.getProcessedSource("algorand:LOCKTXID:bridge-1")
+    ).resolves.toBeUndefined();
+    await expect(registry.claim(lock)).resolves.toBe(true);
+  });
+
+  it("keeps a completed record when released", async () => {
+    await registry.claim(lock);
+    await registry.complete(lock);
+    await registry.release(lock);
+
+    await expect(registry.isProcessed(lock)).resolves.toBe(true);
+  });
+
+  it("takes over a claim left processing by an earlier run", async () => {
+    await registry.claim(lock);
+
+    await expect(new ReplayRegistry(storage).claim(lock)).resolves.toBe(true);
+  });
+
+  it("tracks the same bridge ID from another source transaction apart", async () => {
+    await registry.claim(lock);
+    await registry.complete(lock);
+
+    await expect(
+      registry.claim({ ...lock, sourceTransactionId: "OTHERTXID" })
+    ).resolves.toBe(true);
+  });
+});
@@ -0,0 +1,146 @@
+import {
+  BridgeStorageAdapter,
+  BridgeTransaction,
+  ProcessedSourceRecord,
+} from "./types";
+
+/**
+ * Registry of source transactions the bridge has minted or released for
+ *
+ * Each Algorand lock or Ethereum burn is claimed before the bridge acts on
+ * it and marked completed afterwards, so a repeated event cannot mint or
+ * release twice. Records live in the bridge storage adapter, alongside the
+ * bridge transactions.
+ */
+export class ReplayRegistry {
+  private storage: BridgeStorageAdapter;
+  private inFlight: Set<string> = new Set();
+
+  /**
+   * Constructor
+   *
+   * @param storage Storage adapter holding the registry records
+   */
+  constructor(storage: BridgeStorageAdapter) {
+    this.storage = storage;
+  }
+
+  /**
+   * Get the registry key for a bridge transaction
+   *
+   * @param transaction Bridge transaction
+   * @returns Registry key
+   */
+  static getKey(transaction: BridgeTransaction): string {
+    if (!transaction.sourceTransactionId) {
+      throw new Error(
+        `Bridge transaction ${transaction.id} has no source transaction ID`
+      );
+    }
+
+    return [
+      transaction.sourceChain,
+      transaction.sourceTransactionId,
+      transaction.id,
+    ].join(":");
+  }
+
+  /**
+   * Check whether a source transaction has already been acted on
+   *
+   * @param transaction Bridge transaction
+   * @returns True if the mint or release was completed
+   */
+  async isProcessed(transaction: BridgeTransaction): Promise<boolean> {
+    const record = await this.storage.getProcessedSource(
+      ReplayRegistry.getKey(transaction)
+    );
+    return record?.status === "completed";
+  }
+
+  /**
+   * Claim a source transaction before minting or releasing
+   *
+   * A claim left in `processing` by an earlier run (e.g. after a crash) can
+   * be taken over; callers must check the on-chain status before acting.
+   *
+   * @param transaction Bridge transaction
+   * @returns False if the transaction was completed or is being processed
+   */
+  async claim(transaction: BridgeTransaction): Promise<boolean> {
+    const key = ReplayRegistry.getKey(transaction);
+
+    // Checked and set synchronously so concurrent events cannot both claim
+    if (this.inFlight.has(key)) {
+      return false;
+    }
+    this.inFlight.add(key);
+
+    try {
+      const record = await this.storage.getProcessedSource(key);
+      if (record?.status === "completed") {
+        this.inFlight.delete(key);
+        return false;
+      }
+
+      await this.storage.saveProcessedSource({
+        key,
+        sourceChain: transaction.sourceChain,
+        sourceTransactionId: transaction.sourceTransactionId!,
+        bridgeId: transaction.id,
+        status: "processing",
+        updatedAt: Date.now(),
+      });
+      return true;
+    } catch (error) {
+      this.inFlight.delete(key);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark a claimed source transaction as completed
+   *
+   * @param transaction Bridge transaction
+   * @param targetTransactionId Mint or release transaction ID, if known
+   */
+  async complete(
+    transaction: BridgeTransaction,
+    targetTransactionId?: string
+  ): Promise<void> {
+    const key = ReplayRegistry.getKey(transaction);
+    const record: ProcessedSourceRecord = {
+      key,
+      sourceChain: transaction.sourceChain,
+      sourceTransactionId: transaction.sourceTransactionId!,
+      bridgeId: transaction.id,
+      status: "completed",
+      targetTransactionId,
+      updatedAt: Date.now(),
+    };
+
+    try {
+      await this.storage.saveProcessedSource(record);
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+
+  /**
+   * Drop a claim after a failure so the transaction can be retried
+   *
+   * @param transaction Bridge transaction
+   */
+  async release(transaction: BridgeTransaction): Promise<void> {
+    const key = ReplayRegistry.getKey(transaction);
+
+    try {
+      const record = await this.storage.getProcessedSource(key);
+      if (record && record.status !== "completed") {
+        await this.storage.deleteProcessedSource(key);
+      }
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+}
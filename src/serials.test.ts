@@ -0,0 +1,200 @@
+import { BigNumber } from "bignumber.js";
+import { SerialLedger } from "./serials";
+import { InMemoryStorageAdapter } from "./storage";
+import {
+  BridgeConfig,
+  BridgeStatus,
+  BridgeTransaction,
+  CarbonCreditMetadata,
+  ChainType,
+  SerialRangeStatus,
+} from "./types";
+
+const config = {
+  algorand: {
+    nodeUrl: "http://localhost:4001",
+    indexerUrl: "http://localhost:8980",
+    escrowAppId: 1234,
+    carbonAssetId: 5678,
+    decimals: 0,
+  },
+  targetChain: {
+    chainType: ChainType.ETHEREUM,
+    rpcUrl: "http://localhost:8545",
+    bridgeContractAddress: "0x0000000000000000000000000000000000000002",
+    tokenContractAddress: "0x0000000000000000000000000000000000000003",
+    decimals: 18,
+  },
+  verifiers: [],
+  minVerifierSignatures: 0,
+  bridgeFee: 0.1,
+  timeoutBlocks: 150,
+} as unknown as BridgeConfig;
+
+const metadata: CarbonCreditMetadata = {
+  projectId: "VCS-1234",
+  vintage: 2022,
+  standard: "Verra",
+  creditType: "VCU",
+  serialNumber: "VCS-1234-2022",
+  serialRange: { start: 1, end: 100 },
+  issuanceDate: 1700000000,
+  retirementStatus: false,
+};
+
+/**
+ * Build a lock of whole credits drawn from a serial range
+ */
+function lock(
+  id: string,
+  amount: number,
+  serialRange = metadata.serialRange
+): BridgeTransaction {
+  return {
+    id,
+    sourceChain: ChainType.ALGORAND,
+    targetChain: ChainType.ETHEREUM,
+    sourceAssetId: "5678",
+    targetAssetId: "0x0000000000000000000000000000000000000003",
+    amount: new BigNumber(amount),
+    sender: "SENDER",
+    receiver: "0x000000000000000000000000000000000000dEaD",
+    status: BridgeStatus.LOCKED,
+    metadata: { ...metadata, serialRange },
+    timestamp: 1700000000000,
+    nonce: 100,
+  };
+}
+
+/**
+ * Build a burn of wrapped credits back to Algorand
+ */
+function burn(id: string, amount: number): BridgeTransaction {
+  return {
+    ...lock(id, amount),
+    sourceChain: ChainType.ETHEREUM,
+    targetChain: ChainType.ALGORAND,
+    sourceAssetId: "0x0000000000000000000000000000000000000003",
+    targetAssetId: "5678",
+    status: BridgeStatus.RELEASED,
+    metadata: undefined,
+  };
+}
+
+describe("SerialLedger", () => {
+  let ledger: SerialLedger;
+
+  beforeEach(() => {
+    ledger = new SerialLedger(new InMemoryStorageAdapter(), config);
+  });
+
+  it("assigns overlapping locks disjoint serials, lowest first", async () => {
+    await expect(ledger.record(lock("bridge-1", 10))).resolves.toEqual([
+      { block: "VCS-1234-2022", start: 1, end: 10 },
+    ]);
+    await expect(
+      ledger.record(lock("bridge-2", 10, { start: 5, end: 30 }))
+    ).resolves.toEqual([{ block: "VCS-1234-2022", start: 11, end: 20 }]);
+  });
+
+  it("does not assign a lock twice", async () => {
+    await ledger.record(lock("bridge-1", 10));
+
+    await expect(ledger.record(lock("bridge-1", 10))).resolves.toBeUndefined();
+    await expect(ledger.listRanges()).resolves.toHaveLength(1);
+  });
+
+  it("rejects locks of serials already bridged", async () => {
+    await ledger.record(lock("bridge-1", 10));
+
+    await expect(
+      ledger.checkAvailable(
+        { ...metadata, serialRange: { start: 5, end: 15 } },
+        10
+      )
+    ).rejects.toThrow("Only 5 serials of VCS-1234-2022 are free to bridge");
+    await expect(
+      ledger.record(lock("bridge-2", 10, { start: 5, end: 15 }))
+    ).rejects.toThrow(
+      "Not enough free serials of VCS-1234-2022 for bridge bridge-2"
+    );
+    await expect(ledger.listRanges()).resolves.toHaveLength(1);
+  });
+
+  it("rejects fractional credits with a serial range", async () => {
+    await expect(ledger.checkAvailable(metadata, "1.5")).rejects.toThrow(
+      "Credits with a serial range must be bridged in whole credits"
+    );
+  });
+
+  it("frees the serials of a refunded lock", async () => {
+    await ledger.record(lock("bridge-1", 10));
+    await ledger.record({
+      ...lock("bridge-1", 10),
+      status: BridgeStatus.REFUNDED,
+    });
+
+    await expect(ledger.locate("VCS-1234-2022", 5)).resolves.toMatchObject({
+      status: SerialRangeStatus.RETURNED,
+    });
+    await expect(ledger.record(lock("bridge-2", 4))).resolves.toEqual([
+      { block: "VCS-1234-2022", start: 1, end: 4 },
+    ]);
+    await expect(ledger.locate("VCS-1234-2022", 5)).resolves.toMatchObject({
+      status: SerialRangeStatus.RETURNED,
+      start: 5,
+      end: 10,
+    });
+  });
+
+  it("wraps the minted amount and returns the protocol fee's share", async () => {
+    await ledger.record(lock("bridge-1", 10));
+    await ledger.record({
+      ...lock("bridge-1", 10),
+      status: BridgeStatus.MINTED,
+    });
+
+    await expect(ledger.listRanges("VCS-1234-2022")).resolves.toMatchObject([
+      { start: 1, end: 9, status: SerialRangeStatus.WRAPPED },
+      { start: 10, end: 10, status: SerialRangeStatus.RETURNED },
+    ]);
+  });
+
+  it("takes wrapped serials for a release or retirement", async () => {
+    await ledger.record(lock("bridge-1", 10));
+    await ledger.record({
+      ...lock("bridge-1", 10),
+      status: BridgeStatus.MINTED,
+    });
+
+    await expect(ledger.record(burn("bridge-2", 3))).resolves.toEqual([
+      { block: "VCS-1234-2022", start: 1, end: 3 },
+    ]);
+    await expect(
+      ledger.record({
+        ...burn("bridge-3", 2),
+        status: BridgeStatus.RETIRED,
+        retirement: { beneficiary: "Acme Corp", reason: "Offset" },
+      })
+    ).resolves.toEqual([{ block: "VCS-1234-2022", start: 4, end: 5 }]);
+
+    await expect(ledger.locate("VCS-1234-2022", 2)).resolves.toMatchObject({
+      status: SerialRangeStatus.RETURNED,
+      lockBridgeId: "bridge-1",
+      bridgeId: "bridge-2",
+    });
+    await expect(ledger.locate("VCS-1234-2022", 4)).resolves.toMatchObject({
+      status: SerialRangeStatus.RETIRED,
+      bridgeId: "bridge-3",
+    });
+    await expect(
+      ledger.listRanges(undefined, SerialRangeStatus.WRAPPED)
+    ).resolves.toMatchObject([{ start: 6, end: 9 }]);
+  });
+
+  it("does not locate serials that were never bridged", async () => {
+    await ledger.record(lock("bridge-1", 10));
+
+    await expect(ledger.locate("VCS-1234-2022", 11)).resolves.toBeUndefined();
+  });
+});
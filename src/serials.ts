@@ -0,0 +1,530 @@
+import { BigNumber } from "bignumber.js";
+import {
+  BridgeConfig,
+  BridgeStatus,
+  BridgeStorageAdapter,
+  BridgeTransaction,
+  CarbonCreditMetadata,
+  ChainType,
+  SerialRange,
+  SerialRangeRecord,
+  SerialRangeStatus,
+} from "./types";
+import { getNetAmount } from "./fees";
+import { getTransactionConfig } from "./config";
+
+/**
+ * Statuses of a lock that can still be assigned serials
+ */
+const ASSIGNABLE_STATUSES = [
+  BridgeStatus.PENDING,
+  BridgeStatus.LOCKED,
+  BridgeStatus.VERIFYING,
+  BridgeStatus.MINTED,
+];
+
+/**
+ * Free part of a serial range
+ */
+interface FreeSegment {
+  start: number;
+  end: number;
+  record?: SerialRangeRecord; // RETURNED record the segment lies in
+}
+
+/**
+ * Ledger of the registry serial numbers carried by bridged credits
+ *
+ * A lock whose metadata names a serial block and range is assigned the
+ * lowest free serials of that range, one per whole credit. The serials are
+ * WRAPPED once minted; the protocol fee's share stays in the escrow and is
+ * RETURNED. Wrapped tokens are fungible, so a burn or retirement takes the
+ * longest-wrapped serials first. Records live in the bridge storage adapter,
+ * alongside the bridge transactions.
+ */
+export class SerialLedger {
+  private storage: BridgeStorageAdapter;
+  private config: BridgeConfig;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Constructor
+   *
+   * @param storage Storage adapter holding the ledger records
+   * @param config Bridge configuration
+   */
+  constructor(storage: BridgeStorageAdapter, config: BridgeConfig) {
+    this.storage = storage;
+    this.config = config;
+  }
+
+  /**
+   * Get the number of serials an amount of credits carries
+   *
+   * @param amount Amount in whole tokens
+   * @returns Number of whole credits
+   */
+  static getSerialCount(amount: BigNumber | string | number): number {
+    return new BigNumber(amount).integerValue(BigNumber.ROUND_DOWN).toNumber();
+  }
+
+  /**
+   * Check that a lock can be assigned serials from its metadata
+   *
+   * @param metadata Carbon credit metadata of the lock
+   * @param amount Amount to lock
+   * @returns Serials the lock would be assigned (none without a range)
+   * @throws Error if the amount is not whole credits or too few serials of
+   * the range are free
+   */
+  async checkAvailable(
+    metadata: CarbonCreditMetadata,
+    amount: BigNumber | string | number
+  ): Promise<SerialRange[]> {
+    if (!metadata.serialRange) {
+      return [];
+    }
+
+    if (!new BigNumber(amount).isInteger()) {
+      throw new Error(
+        "Credits with a serial range must be bridged in whole credits"
+      );
+    }
+
+    const free = await this.getFreeSegments(
+      metadata.serialNumber,
+      metadata.serialRange
+    );
+    const count = SerialLedger.getSerialCount(amount);
+    if (countSerials(free) < count) {
+      throw new Error(
+        `Only ${countSerials(free)} serials of ${metadata.serialNumber} are free to bridge`
+      );
+    }
+
+    return takeSegments(free, count).map(({ start, end }) => ({
+      block: metadata.serialNumber,
+      start,
+      end,
+    }));
+  }
+
+  /**
+   * Update the ledger for a bridge transaction's current status
+   *
+   * Assigns serials to a new lock, wraps them once minted, returns them if
+   * the lock is refunded or fails, and takes wrapped serials for a release
+   * or retirement. Calls for a transaction that was already recorded are
+   * no-ops.
+   *
+   * @param transaction Bridge transaction
+   * @returns Serials newly assigned to or taken by the transaction, if any
+   */
+  record(transaction: BridgeTransaction): Promise<SerialRange[] | undefined> {
+    const next = this.queue.then(() => this.apply(transaction));
+
+    // Keep the queue alive even if this update fails
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  /**
+   * Find where a serial number currently is
+   *
+   * @param block Registry serial block
+   * @param serial Serial number
+   * @returns Ledger record containing the serial, or undefined if it was
+   * never bridged
+   */
+  async locate(
+    block: string,
+    serial: number
+  ): Promise<SerialRangeRecord | undefined> {
+    const records = await this.storage.listSerialRanges(block);
+    return records.find(
+      (record) => record.start <= serial && serial <= record.end
+    );
+  }
+
+  /**
+   * List ledger records in serial order
+   *
+   * @param block Registry serial block (all blocks if omitted)
+   * @param status Only records with this status
+   * @returns Ledger records
+   */
+  async listRanges(
+    block?: string,
+    status?: SerialRangeStatus
+  ): Promise<SerialRangeRecord[]> {
+    const records = await this.storage.listSerialRanges(block);
+    return records
+      .filter((record) => !status || record.status === status)
+      .sort((a, b) => a.block.localeCompare(b.block) || a.start - b.start);
+  }
+
+  /**
+   * Apply the ledger update for a transaction
+   *
+   * @param transaction Bridge transaction
+   * @returns Serials newly assigned to or taken by the transaction, if any
+   */
+  private async apply(
+    transaction: BridgeTransaction
+  ): Promise<SerialRange[] | undefined> {
+    if (transaction.sourceChain === ChainType.ALGORAND) {
+      if (!transaction.metadata?.serialRange) {
+        return undefined;
+      }
+
+      let records = await this.getLockRecords(transaction);
+      let assigned: SerialRange[] | undefined;
+      if (records.length === 0) {
+        if (!ASSIGNABLE_STATUSES.includes(transaction.status)) {
+          return undefined;
+        }
+        assigned = await this.assign(transaction);
+        records = await this.getLockRecords(transaction);
+      }
+
+      switch (transaction.status) {
+        case BridgeStatus.MINTED:
+          await this.wrap(transaction, records);
+          break;
+        case BridgeStatus.REFUNDED:
+        case BridgeStatus.FAILED:
+          await this.move(
+            records,
+            Number.MAX_SAFE_INTEGER,
+            SerialRangeStatus.RETURNED,
+            transaction.id
+          );
+          break;
+      }
+      return assigned;
+    }
+
+    if (
+      transaction.status === BridgeStatus.CLAIMABLE ||
+      transaction.status === BridgeStatus.RELEASED ||
+      transaction.status === BridgeStatus.RETIRED
+    ) {
+      return this.take(transaction);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Assign the lowest free serials of a lock's range to the lock
+   *
+   * @param transaction Lock transaction
+   * @returns Assigned serials
+   * @throws Error if too few serials are free
+   */
+  private async assign(transaction: BridgeTransaction): Promise<SerialRange[]> {
+    const { serialNumber, serialRange } = transaction.metadata!;
+    const count = SerialLedger.getSerialCount(transaction.amount);
+    const pieces = takeSegments(
+      await this.getFreeSegments(serialNumber, serialRange!),
+      count
+    );
+
+    // Nothing is written unless the whole amount can be assigned
+    if (countSerials(pieces) < count) {
+      throw new Error(
+        `Not enough free serials of ${serialNumber} for bridge ${transaction.id}`
+      );
+    }
+
+    const assigned: SerialRange[] = [];
+    for (const piece of pieces) {
+      await this.carve(piece.record, {
+        id: getRecordId(serialNumber, piece.start),
+        block: serialNumber,
+        start: piece.start,
+        end: piece.end,
+        status: SerialRangeStatus.LOCKED,
+        lockBridgeId: transaction.id,
+        bridgeId: transaction.id,
+        updatedAt: Date.now(),
+      });
+      assigned.push({
+        block: serialNumber,
+        start: piece.start,
+        end: piece.end,
+      });
+    }
+
+    return assigned;
+  }
+
+  /**
+   * Mark a minted lock's serials as wrapped
+   *
+   * Serials beyond the minted amount cover the protocol fee, which stays
+   * in the escrow.
+   *
+   * @param transaction Minted lock transaction
+   * @param records Ledger records of the lock
+   */
+  private async wrap(
+    transaction: BridgeTransaction,
+    records: SerialRangeRecord[]
+  ): Promise<void> {
+    const isLocked = (record: SerialRangeRecord) =>
+      record.status === SerialRangeStatus.LOCKED;
+
+    const netAmount = getNetAmount(
+      transaction,
+      getTransactionConfig(this.config, transaction)
+    );
+
+    await this.move(
+      records.filter(isLocked),
+      SerialLedger.getSerialCount(netAmount),
+      SerialRangeStatus.WRAPPED,
+      transaction.id
+    );
+    await this.move(
+      (await this.getLockRecords(transaction)).filter(isLocked),
+      Number.MAX_SAFE_INTEGER,
+      SerialRangeStatus.RETURNED,
+      transaction.id
+    );
+  }
+
+  /**
+   * Take the longest-wrapped serials for a release or retirement
+   *
+   * @param transaction Burn or retirement transaction
+   * @returns Serials taken
+   */
+  private async take(transaction: BridgeTransaction): Promise<SerialRange[]> {
+    const records = await this.storage.listSerialRanges();
+
+    // The burn was already recorded
+    const taken = records.filter(
+      (record) =>
+        record.bridgeId === transaction.id &&
+        record.lockBridgeId !== transaction.id
+    );
+    if (taken.length > 0) {
+      return taken.map(toSerialRange);
+    }
+
+    const wrapped = records
+      .filter((record) => record.status === SerialRangeStatus.WRAPPED)
+      .sort(
+        (a, b) =>
+          a.updatedAt - b.updatedAt ||
+          a.block.localeCompare(b.block) ||
+          a.start - b.start
+      );
+
+    const count = SerialLedger.getSerialCount(transaction.amount);
+    const status = transaction.retirement
+      ? SerialRangeStatus.RETIRED
+      : SerialRangeStatus.RETURNED;
+    const moved = await this.move(wrapped, count, status, transaction.id);
+
+    const result = (await this.storage.listSerialRanges())
+      .filter((record) => moved.includes(record.id))
+      .map(toSerialRange);
+
+    const matched = result.reduce(
+      (total, range) => total + range.end - range.start + 1,
+      0
+    );
+    if (matched < count) {
+      console.error(
+        `Only ${matched} of ${count} serials for bridge ${transaction.id} are in the ledger`
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Move up to `count` serials of records, in order, to a new status
+   *
+   * @param records Records to move serials from
+   * @param count Maximum number of serials to move
+   * @param status New status
+   * @param bridgeId Bridge transaction moving the serials
+   * @returns IDs of the records holding the moved serials
+   */
+  private async move(
+    records: SerialRangeRecord[],
+    count: number,
+    status: SerialRangeStatus,
+    bridgeId: string
+  ): Promise<string[]> {
+    const moved: string[] = [];
+    let remaining = count;
+
+    for (const record of records) {
+      if (remaining === 0) {
+        break;
+      }
+
+      const end = Math.min(record.end, record.start + remaining - 1);
+      await this.carve(record, {
+        ...record,
+        end,
+        status,
+        bridgeId,
+        updatedAt: Date.now(),
+      });
+      moved.push(record.id);
+      remaining -= end - record.start + 1;
+    }
+
+    return moved;
+  }
+
+  /**
+   * Save a range, splitting off the parts of the record it is carved from
+   *
+   * @param record Record the range lies in, if any
+   * @param range New record for the range
+   */
+  private async carve(
+    record: SerialRangeRecord | undefined,
+    range: SerialRangeRecord
+  ): Promise<void> {
+    if (record && record.start < range.start) {
+      await this.storage.saveSerialRange({
+        ...record,
+        end: range.start - 1,
+      });
+    }
+    if (record && record.end > range.end) {
+      await this.storage.saveSerialRange({
+        ...record,
+        id: getRecordId(record.block, range.end + 1),
+        start: range.end + 1,
+      });
+    }
+
+    await this.storage.saveSerialRange(range);
+  }
+
+  /**
+   * Get the ledger records assigned to a lock
+   *
+   * @param transaction Lock transaction
+   * @returns Records in serial order
+   */
+  private async getLockRecords(
+    transaction: BridgeTransaction
+  ): Promise<SerialRangeRecord[]> {
+    const records = await this.storage.listSerialRanges(
+      transaction.metadata!.serialNumber
+    );
+    return records
+      .filter((record) => record.lockBridgeId === transaction.id)
+      .sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * Get the free parts of a serial range, lowest first
+   *
+   * Serials that were never bridged and RETURNED serials are free.
+   *
+   * @param block Registry serial block
+   * @param range Serial range
+   * @returns Free segments, with the RETURNED record each lies in
+   */
+  private async getFreeSegments(
+    block: string,
+    range: { start: number; end: number }
+  ): Promise<FreeSegment[]> {
+    const records = (await this.storage.listSerialRanges(block))
+      .filter(
+        (record) => record.end >= range.start && record.start <= range.end
+      )
+      .sort((a, b) => a.start - b.start);
+
+    const segments: FreeSegment[] = [];
+    let next = range.start;
+
+    for (const record of records) {
+      if (record.start > next) {
+        segments.push({ start: next, end: record.start - 1 });
+      }
+      if (record.status === SerialRangeStatus.RETURNED) {
+        segments.push({
+          start: Math.max(record.start, range.start),
+          end: Math.min(record.end, range.end),
+          record,
+        });
+      }
+      next = Math.max(next, record.end + 1);
+    }
+
+    if (next <= range.end) {
+      segments.push({ start: next, end: range.end });
+    }
+
+    return segments;
+  }
+}
+
+/**
+ * Take the first `count` serials of free segments
+ *
+ * @param segments Free segments, lowest first
+ * @param count Number of serials to take
+ * @returns Segments holding the serials taken
+ */
+function takeSegments(segments: FreeSegment[], count: number): FreeSegment[] {
+  const taken: FreeSegment[] = [];
+  let remaining = count;
+
+  for (const segment of segments) {
+    if (remaining === 0) {
+      break;
+    }
+
+    const end = Math.min(segment.end, segment.start + remaining - 1);
+    taken.push({ ...segment, end });
+    remaining -= end - segment.start + 1;
+  }
+
+  return taken;
+}
+
+/**
+ * Count the serials in ranges
+ *
+ * @param ranges Serial ranges
+ * @returns Number of serials
+ */
+function countSerials(ranges: Array<{ start: number; end: number }>): number {
+  return ranges.reduce(
+    (total, range) => total + range.end - range.start + 1,
+    0
+  );
+}
+
+/**
+ * Get the ledger record ID of a range
+ *
+ * @param block Registry serial block
+ * @param start First serial of the range
+ * @returns Record ID
+ */
+function getRecordId(block: string, start: number): string {
+  return `${block}:${start}`;
+}
+
+/**
+ * Strip a ledger record down to its serial range
+ *
+ * @param record Ledger record
+ * @returns Serial range
+ */
+function toSerialRange(record: SerialRangeRecord): SerialRange {
+  return { block: record.block, start: record.start, end: record.end };
+}
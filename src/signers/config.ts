@@ -0,0 +1,114 @@
+import algosdk, { Kmd } from "algosdk";
+import { AlgorandBridgeSigner, EthereumBridgeSigner } from "../types";
+import { AccountSigner, KmdBridgeSigner } from "../chains/algorand/signers";
+import { AlgorandKeystoreSigner, EthereumKeystoreSigner } from "./keystore";
+import { RemoteAlgorandSigner, RemoteEthereumSigner } from "./remote";
+import { EthereumWalletSigner } from "./wallet";
+
+/**
+ * Remote signer settings from the environment, if any
+ */
+function remoteSignerOptionsFromEnv() {
+  if (!process.env.BRIDGE_REMOTE_SIGNER_URL) {
+    return undefined;
+  }
+
+  return {
+    url: process.env.BRIDGE_REMOTE_SIGNER_URL,
+    authToken: process.env.BRIDGE_REMOTE_SIGNER_TOKEN,
+    timeoutMs: process.env.BRIDGE_REMOTE_SIGNER_TIMEOUT_MS
+      ? parseInt(process.env.BRIDGE_REMOTE_SIGNER_TIMEOUT_MS)
+      : undefined,
+  };
+}
+
+/**
+ * Load the Algorand operator signer from environment variables
+ *
+ * Checked in order: JSON keystore, KMD wallet, remote signer, and finally
+ * the legacy plain-text mnemonic.
+ *
+ * @returns Algorand signer or undefined if none is configured
+ */
+export function loadAlgorandSignerFromEnv(): AlgorandBridgeSigner | undefined {
+  const env = process.env;
+
+  if (env.BRIDGE_ALGORAND_KEYSTORE) {
+    return AlgorandKeystoreSigner.fromFile(
+      env.BRIDGE_ALGORAND_KEYSTORE,
+      env.BRIDGE_ALGORAND_KEYSTORE_PASSWORD || ""
+    );
+  }
+
+  if (env.BRIDGE_ALGORAND_KMD_URL) {
+    if (!env.BRIDGE_ALGORAND_KMD_WALLET || !env.BRIDGE_ALGORAND_KMD_ADDRESS) {
+      throw new Error(
+        "BRIDGE_ALGORAND_KMD_WALLET and BRIDGE_ALGORAND_KMD_ADDRESS are required with BRIDGE_ALGORAND_KMD_URL"
+      );
+    }
+
+    return new KmdBridgeSigner(
+      new Kmd(
+        env.BRIDGE_ALGORAND_KMD_TOKEN || "",
+        env.BRIDGE_ALGORAND_KMD_URL,
+        ""
+      ),
+      env.BRIDGE_ALGORAND_KMD_WALLET,
+      env.BRIDGE_ALGORAND_KMD_PASSWORD || "",
+      env.BRIDGE_ALGORAND_KMD_ADDRESS
+    );
+  }
+
+  const remote = remoteSignerOptionsFromEnv();
+  if (remote) {
+    return new RemoteAlgorandSigner(remote);
+  }
+
+  if (env.BRIDGE_ACCOUNT_MNEMONIC) {
+    console.warn(
+      "BRIDGE_ACCOUNT_MNEMONIC is deprecated; use a keystore, KMD or remote signer instead"
+    );
+    try {
+      return new AccountSigner(
+        algosdk.mnemonicToSecretKey(env.BRIDGE_ACCOUNT_MNEMONIC)
+      );
+    } catch (error) {
+      console.warn("Failed to create Algorand account from mnemonic:", error);
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Load the Ethereum operator signer from environment variables
+ *
+ * Checked in order: JSON keystore, remote signer, and finally the legacy
+ * plain-text private key.
+ *
+ * @returns Ethereum signer or undefined if none is configured
+ */
+export function loadEthereumSignerFromEnv(): EthereumBridgeSigner | undefined {
+  const env = process.env;
+
+  if (env.BRIDGE_ETHEREUM_KEYSTORE) {
+    return EthereumKeystoreSigner.fromFile(
+      env.BRIDGE_ETHEREUM_KEYSTORE,
+      env.BRIDGE_ETHEREUM_KEYSTORE_PASSWORD || ""
+    );
+  }
+
+  const remote = remoteSignerOptionsFromEnv();
+  if (remote) {
+    return new RemoteEthereumSigner(remote);
+  }
+
+  if (env.BRIDGE_ETHEREUM_PRIVATE_KEY) {
+    console.warn(
+      "BRIDGE_ETHEREUM_PRIVATE_KEY is deprecated; use a keystore or remote signer instead"
+    );
+    return new EthereumWalletSigner(env.BRIDGE_ETHEREUM_PRIVATE_KEY);
+  }
+
+  return undefined;
+}
@@ -0,0 +1,5 @@
+export * from "./keystore";
+export * from "./remote";
+export * from "./standin";
+export * from "./wallet";
+export * from "./config";
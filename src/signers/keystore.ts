@@ -0,0 +1,157 @@
+import { readFileSync } from "fs";
+import algosdk, { Account, Transaction } from "algosdk";
+import { ethers } from "ethers";
+import {
+  AlgorandBridgeSigner,
+  ChainType,
+  EthereumBridgeSigner,
+} from "../types";
+
+/**
+ * Encrypt an Algorand account into a JSON keystore
+ *
+ * Uses the same scrypt/AES-128-CTR keystore format as Ethereum (Web3 Secret
+ * Storage), holding the 32-byte ed25519 seed of the account.
+ *
+ * @param account Algorand account
+ * @param password Keystore password
+ * @returns Keystore JSON
+ */
+export async function encryptAlgorandKeystore(
+  account: Account,
+  password: string
+): Promise<string> {
+  const seed = account.sk.slice(0, 32);
+  const json = await ethers.encryptKeystoreJson(
+    {
+      address: ethers.computeAddress(ethers.hexlify(seed)),
+      privateKey: ethers.hexlify(seed),
+    },
+    password
+  );
+
+  // Record the Algorand address for operators inspecting the file
+  return JSON.stringify({ ...JSON.parse(json), algorandAddress: account.addr });
+}
+
+/**
+ * Algorand operator signer backed by an encrypted JSON keystore
+ *
+ * The keystore is decrypted on first use and kept in memory afterwards.
+ */
+export class AlgorandKeystoreSigner implements AlgorandBridgeSigner {
+  readonly chainType = ChainType.ALGORAND;
+  private keystoreJson: string;
+  private password: string;
+  private account: Promise<Account> | null = null;
+
+  /**
+   * Constructor
+   *
+   * @param keystoreJson Keystore JSON created by encryptAlgorandKeystore
+   * @param password Keystore password
+   */
+  constructor(keystoreJson: string, password: string) {
+    this.keystoreJson = keystoreJson;
+    this.password = password;
+  }
+
+  /**
+   * Create a signer from a keystore file
+   *
+   * @param path Keystore file path
+   * @param password Keystore password
+   * @returns Keystore signer
+   */
+  static fromFile(path: string, password: string): AlgorandKeystoreSigner {
+    return new AlgorandKeystoreSigner(readFileSync(path, "utf8"), password);
+  }
+
+  async getAddress(): Promise<string> {
+    return (await this.getAccount()).addr;
+  }
+
+  async signTransactions(txns: Transaction[]): Promise<Uint8Array[]> {
+    const account = await this.getAccount();
+    return txns.map((txn) => txn.signTxn(account.sk));
+  }
+
+  /**
+   * Decrypt the keystore
+   */
+  private getAccount(): Promise<Account> {
+    if (!this.account) {
+      this.account = ethers
+        .decryptKeystoreJson(this.keystoreJson, this.password)
+        .then(({ privateKey }) =>
+          algosdk.mnemonicToSecretKey(
+            algosdk.mnemonicFromSeed(ethers.getBytes(privateKey))
+          )
+        );
+
+      // Allow a retry after a failed decryption (e.g. wrong password)
+      this.account.catch(() => {
+        this.account = null;
+      });
+    }
+    return this.account;
+  }
+}
+
+/**
+ * Ethereum operator signer backed by an encrypted JSON keystore
+ */
+export class EthereumKeystoreSigner implements EthereumBridgeSigner {
+  readonly chainType = ChainType.ETHEREUM;
+  private keystoreJson: string;
+  private password: string;
+  private wallet: Promise<ethers.Wallet | ethers.HDNodeWallet> | null = null;
+
+  /**
+   * Constructor
+   *
+   * @param keystoreJson Web3 Secret Storage keystore JSON
+   * @param password Keystore password
+   */
+  constructor(keystoreJson: string, password: string) {
+    this.keystoreJson = keystoreJson;
+    this.password = password;
+  }
+
+  /**
+   * Create a signer from a keystore file
+   *
+   * @param path Keystore file path
+   * @param password Keystore password
+   * @returns Keystore signer
+   */
+  static fromFile(path: string, password: string): EthereumKeystoreSigner {
+    return new EthereumKeystoreSigner(readFileSync(path, "utf8"), password);
+  }
+
+  async getAddress(): Promise<string> {
+    return (await this.getWallet()).address;
+  }
+
+  async getSigner(provider: ethers.Provider): Promise<ethers.Signer> {
+    return (await this.getWallet()).connect(provider);
+  }
+
+  /**
+   * Decrypt the keystore
+   */
+  private getWallet(): Promise<ethers.Wallet | ethers.HDNodeWallet> {
+    if (!this.wallet) {
+      this.wallet = ethers.Wallet.fromEncryptedJson(
+        this.keystoreJson,
+        this.password
+      );
+
+      // Allow a retry after a failed decryption (e.g. wrong password)
+      this.wallet.catch(() => {
+        this.wallet = null;
+      });
+    }
+    return this.wallet;
+  }
+}
@@ -0,0 +1,287 @@
+import algosdk, { Transaction } from "algosdk";
+import { ethers } from "ethers";
+import {
+  AlgorandBridgeSigner,
+  ChainType,
+  EthereumBridgeSigner,
+} from "../types";
+
+/**
+ * Connection settings for a remote signing service
+ *
+ * Protocol:
+ * - `GET  {url}/address?chain=<chain>` returns `{ address }`
+ * - `POST {url}/sign` with `{ chain: "algorand", transactions }` (base64
+ *   msgpack) returns `{ signedTransactions }` (base64)
+ * - `POST {url}/sign` with `{ chain: "ethereum", transaction }` (unsigned
+ *   serialized hex) returns `{ signedTransaction }`
+ * - `POST {url}/sign` with `{ chain: "ethereum", message }` (hex) or
+ *   `{ chain: "ethereum", typedData }` (EIP-712 payload) returns `{ signature }`
+ */
+export interface RemoteSignerOptions {
+  url: string;
+  authToken?: string; // Sent as a bearer token
+  timeoutMs?: number; // Request timeout (default 30s)
+}
+
+/**
+ * Minimal HTTP client for the remote signer protocol
+ */
+export class RemoteSignerClient {
+  private options: RemoteSignerOptions;
+
+  /**
+   * Constructor
+   *
+   * @param options Remote signer connection settings
+   */
+  constructor(options: RemoteSignerOptions) {
+    this.options = {
+      ...options,
+      url: options.url.replace(/\/+$/, ""),
+    };
+  }
+
+  /**
+   * Get the signer address for a chain
+   *
+   * @param chain Chain type
+   * @returns Address
+   */
+  async getAddress(chain: ChainType): Promise<string> {
+    const data = await this.request(
+      "GET",
+      `/address?chain=${encodeURIComponent(chain)}`
+    );
+    if (typeof data.address !== "string") {
+      throw new Error("Remote signer returned an invalid address");
+    }
+    return data.address;
+  }
+
+  /**
+   * Send a signing request
+   *
+   * @param body Request body
+   * @returns Response body
+   */
+  async sign(body: Record<string, any>): Promise<any> {
+    return this.request("POST", "/sign", body);
+  }
+
+  /**
+   * Perform an HTTP request against the remote signer
+   */
+  private async request(
+    method: string,
+    path: string,
+    body?: any
+  ): Promise<any> {
+    const controller = new AbortController();
+    const timeoutMs = this.options.timeoutMs ?? 30000;
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (this.options.authToken) {
+      headers["Authorization"] = `Bearer ${this.options.authToken}`;
+    }
+
+    try {
+      const response = await fetch(`${this.options.url}${path}`, {
+        method,
+        headers,
+        body: body ? JSON.stringify(body) : undefined,
+        signal: controller.signal,
+      });
+
+      const data: any = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(
+          `Remote signer error: HTTP ${response.status}${data.error ? ` - ${data.error}` : ""}`
+        );
+      }
+      return data;
+    } catch (error) {
+      if (error instanceof Error && error.name === "AbortError") {
+        throw new Error(`Remote signer timed out after ${timeoutMs}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
+
+/**
+ * Algorand operator signer backed by a remote signing service
+ */
+export class RemoteAlgorandSigner implements AlgorandBridgeSigner {
+  readonly chainType = ChainType.ALGORAND;
+  private client: RemoteSignerClient;
+
+  /**
+   * Constructor
+   *
+   * @param options Remote signer connection settings
+   */
+  constructor(options: RemoteSignerOptions | RemoteSignerClient) {
+    this.client =
+      options instanceof RemoteSignerClient
+        ? options
+        : new RemoteSignerClient(options);
+  }
+
+  async getAddress(): Promise<string> {
+    return this.client.getAddress(ChainType.ALGORAND);
+  }
+
+  async signTransactions(txns: Transaction[]): Promise<Uint8Array[]> {
+    const data = await this.client.sign({
+      chain: ChainType.ALGORAND,
+      transactions: txns.map((txn) =>
+        Buffer.from(algosdk.encodeUnsignedTransaction(txn)).toString("base64")
+      ),
+    });
+
+    if (!Array.isArray(data.signedTransactions)) {
+      throw new Error("Remote signer returned no signed transactions");
+    }
+
+    return data.signedTransactions.map(
+      (blob: string) => new Uint8Array(Buffer.from(blob, "base64"))
+    );
+  }
+}
+
+/**
+ * Ethereum operator signer backed by a remote signing service
+ *
+ * Implements the ethers Signer interface so contracts can send transactions
+ * through it directly.
+ */
+export class RemoteEthereumSigner
+  extends ethers.AbstractSigner
+  implements EthereumBridgeSigner
+{
+  readonly chainType = ChainType.ETHEREUM;
+  private client: RemoteSignerClient;
+  private address: Promise<string> | null = null;
+
+  /**
+   * Constructor
+   *
+   * @param options Remote signer connection settings
+   * @param provider Provider to connect to
+   */
+  constructor(
+    options: RemoteSignerOptions | RemoteSignerClient,
+    provider: ethers.Provider | null = null
+  ) {
+    super(provider);
+    this.client =
+      options instanceof RemoteSignerClient
+        ? options
+        : new RemoteSignerClient(options);
+  }
+
+  connect(provider: ethers.Provider | null): RemoteEthereumSigner {
+    return new RemoteEthereumSigner(this.client, provider);
+  }
+
+  async getSigner(provider: ethers.Provider): Promise<ethers.Signer> {
+    return this.connect(provider);
+  }
+
+  getAddress(): Promise<string> {
+    if (!this.address) {
+      this.address = this.client.getAddress(ChainType.ETHEREUM);
+      this.address.catch(() => {
+        this.address = null;
+      });
+    }
+    return this.address;
+  }
+
+  async signTransaction(tx: ethers.TransactionRequest): Promise<string> {
+    const request = ethers.copyRequest(tx);
+    const address = await this.getAddress();
+
+    // Resolve ENS names and check the sender, as ethers.Wallet does
+    const { to, from } = await ethers.resolveProperties({
+      to: request.to
+        ? ethers.resolveAddress(request.to, this.provider)
+        : undefined,
+      from: request.from
+        ? ethers.resolveAddress(request.from, this.provider)
+        : undefined,
+    });
+
+    if (to != null) {
+      request.to = to;
+    }
+    if (
+      from != null &&
+      ethers.getAddress(from) !== ethers.getAddress(address)
+    ) {
+      throw new Error("Transaction from address does not match remote signer");
+    }
+    delete request.from;
+
+    const unsigned = ethers.Transaction.from(
+      request as ethers.TransactionLike<string>
+    );
+    const data = await this.client.sign({
+      chain: ChainType.ETHEREUM,
+      transaction: unsigned.unsignedSerialized,
+    });
+
+    const signed = ethers.Transaction.from(data.signedTransaction);
+    if (
+      signed.unsignedHash !== unsigned.unsignedHash ||
+      !signed.from ||
+      ethers.getAddress(signed.from) !== ethers.getAddress(address)
+    ) {
+      throw new Error("Remote signer returned an invalid signed transaction");
+    }
+
+    return signed.serialized;
+  }
+
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    const bytes =
+      typeof message === "string" ? ethers.toUtf8Bytes(message) : message;
+    const data = await this.client.sign({
+      chain: ChainType.ETHEREUM,
+      message: ethers.hexlify(bytes),
+    });
+
+    if (
+      ethers.verifyMessage(bytes, data.signature) !==
+      ethers.getAddress(await this.getAddress())
+    ) {
+      throw new Error("Remote signer returned an invalid message signature");
+    }
+    return data.signature;
+  }
+
+  async signTypedData(
+    domain: ethers.TypedDataDomain,
+    types: Record<string, ethers.TypedDataField[]>,
+    value: Record<string, any>
+  ): Promise<string> {
+    const data = await this.client.sign({
+      chain: ChainType.ETHEREUM,
+      typedData: ethers.TypedDataEncoder.getPayload(domain, types, value),
+    });
+
+    if (
+      ethers.verifyTypedData(domain, types, value, data.signature) !==
+      ethers.getAddress(await this.getAddress())
+    ) {
+      throw new Error("Remote signer returned an invalid typed data signature");
+    }
+    return data.signature;
+  }
+}
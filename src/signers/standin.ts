@@ -0,0 +1,112 @@
+import express from "express";
+import algosdk, { Account } from "algosdk";
+import { ethers } from "ethers";
+import { ChainType } from "../types";
+
+/**
+ * Keys and settings for the remote signer stand-in
+ */
+export interface RemoteSignerStandInOptions {
+  algorandAccount?: Account;
+  ethereumWallet?: ethers.Wallet;
+  authToken?: string; // Require this bearer token when set
+}
+
+/**
+ * Create a local stand-in for the remote signing service
+ *
+ * Implements the protocol used by RemoteSignerClient with in-process keys,
+ * so the remote signers can be exercised in tests and local development
+ * without a real HSM or signing service.
+ *
+ * @param options Stand-in keys and settings
+ * @returns Express application
+ */
+export function createRemoteSignerStandIn(
+  options: RemoteSignerStandInOptions
+): express.Express {
+  const app = express();
+  app.use(express.json({ limit: "1mb" }));
+
+  if (options.authToken) {
+    app.use((req, res, next) => {
+      if (req.headers.authorization !== `Bearer ${options.authToken}`) {
+        res.status(401).json({ error: "Unauthorized" });
+        return;
+      }
+      next();
+    });
+  }
+
+  app.get("/address", (req, res) => {
+    const chain = req.query.chain as ChainType;
+
+    if (chain === ChainType.ALGORAND && options.algorandAccount) {
+      res.json({ address: options.algorandAccount.addr });
+    } else if (chain === ChainType.ETHEREUM && options.ethereumWallet) {
+      res.json({ address: options.ethereumWallet.address });
+    } else {
+      res.status(404).json({ error: `No key for chain ${chain}` });
+    }
+  });
+
+  app.post("/sign", async (req, res) => {
+    try {
+      const { chain, transactions, transaction, message, typedData } =
+        req.body || {};
+
+      if (chain === ChainType.ALGORAND && options.algorandAccount) {
+        const account = options.algorandAccount;
+        if (!Array.isArray(transactions)) {
+          res.status(400).json({ error: "transactions must be an array" });
+          return;
+        }
+
+        const signedTransactions = transactions.map((blob: string) => {
+          const txn = algosdk.decodeUnsignedTransaction(
+            Buffer.from(blob, "base64")
+          );
+          return Buffer.from(txn.signTxn(account.sk)).toString("base64");
+        });
+
+        res.json({ signedTransactions });
+        return;
+      }
+
+      if (chain === ChainType.ETHEREUM && options.ethereumWallet) {
+        const wallet = options.ethereumWallet;
+
+        if (transaction) {
+          const unsigned = ethers.Transaction.from(transaction);
+          unsigned.signature = wallet.signingKey.sign(unsigned.unsignedHash);
+          res.json({ signedTransaction: unsigned.serialized });
+        } else if (message) {
+          res.json({
+            signature: await wallet.signMessage(ethers.getBytes(message)),
+          });
+        } else if (typedData) {
+          const types = { ...typedData.types };
+          delete types.EIP712Domain;
+          res.json({
+            signature: await wallet.signTypedData(
+              typedData.domain,
+              types,
+              typedData.message
+            ),
+          });
+        } else {
+          res.status(400).json({ error: "Nothing to sign" });
+        }
+        return;
+      }
+
+      res.status(404).json({ error: `No key for chain ${chain}` });
+    } catch (error) {
+      res.status(400).json({
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  return app;
+}
@@ -0,0 +1,30 @@
+import { ethers } from "ethers";
+import { ChainType, EthereumBridgeSigner } from "../types";
+
+/**
+ * Ethereum operator signer backed by a raw private key
+ *
+ * Intended for development. Production deployments should use a keystore
+ * or remote signer so the key is never held in plain configuration.
+ */
+export class EthereumWalletSigner implements EthereumBridgeSigner {
+  readonly chainType = ChainType.ETHEREUM;
+  private wallet: ethers.Wallet;
+
+  /**
+   * Constructor
+   *
+   * @param privateKey Hex encoded private key
+   */
+  constructor(privateKey: string) {
+    this.wallet = new ethers.Wallet(privateKey);
+  }
+
+  async getAddress(): Promise<string> {
+    return this.wallet.address;
+  }
+
+  async getSigner(provider: ethers.Provider): Promise<ethers.Signer> {
+    return this.wallet.connect(provider);
+  }
+}
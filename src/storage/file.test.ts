@@ -0,0 +1,95 @@
+import { promises as fs } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { BigNumber } from "bignumber.js";
+import { FileStorageAdapter } from "./file";
+import { BridgeStatus, BridgeTransaction, ChainType } from "../types";
+
+/**
+ * Build a lock with amounts beyond double precision
+ */
+function transaction(id: string): BridgeTransaction {
+  return {
+    id,
+    sourceChain: ChainType.ALGORAND,
+    targetChain: ChainType.ETHEREUM,
+    sourceAssetId: "5678",
+    targetAssetId: "0x0000000000000000000000000000000000000003",
+    amount: new BigNumber("123456789012345678.123456789"),
+    protocolFee: new BigNumber("0.000000000000000001"),
+    targetAmount: {
+      baseUnits: "123456789012345678123456789000000000",
+      decimals: 18,
+    },
+    sender: "SENDER",
+    receiver: "0x000000000000000000000000000000000000dEaD",
+    status: BridgeStatus.LOCKED,
+    timestamp: 1700000000000,
+    nonce: 100,
+  };
+}
+
+describe("FileStorageAdapter", () => {
+  let directory: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(join(tmpdir(), "bridge-storage-"));
+    filePath = join(directory, "bridge.json");
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it("restores BigNumber amounts exactly after a reload", async () => {
+    await new FileStorageAdapter(filePath).saveTransaction(
+      transaction("bridge-1")
+    );
+
+    const restored = await new FileStorageAdapter(filePath).getTransaction(
+      "bridge-1"
+    );
+
+    expect(BigNumber.isBigNumber(restored!.amount)).toBe(true);
+    expect(restored!.amount.toFixed()).toBe("123456789012345678.123456789");
+    expect(BigNumber.isBigNumber(restored!.protocolFee)).toBe(true);
+    expect(restored!.protocolFee!.toFixed()).toBe("0.000000000000000001");
+    expect(restored!.targetAmount).toEqual(
+      transaction("bridge-1").targetAmount
+    );
+  });
+
+  it("filters restored transactions by status", async () => {
+    const storage = new FileStorageAdapter(filePath);
+    await storage.saveTransaction(transaction("bridge-1"));
+    await storage.saveTransaction({
+      ...transaction("bridge-2"),
+      status: BridgeStatus.MINTED,
+    });
+
+    const locked = await new FileStorageAdapter(filePath).listTransactions([
+      BridgeStatus.LOCKED,
+    ]);
+
+    expect(locked.map((tx) => tx.id)).toEqual(["bridge-1"]);
+    expect(locked[0].amount.toFixed()).toBe("123456789012345678.123456789");
+  });
+
+  it("keeps every write of concurrent saves", async () => {
+    const storage = new FileStorageAdapter(filePath);
+    await Promise.all(
+      ["bridge-1", "bridge-2", "bridge-3"].map((id) =>
+        storage.saveTransaction(transaction(id))
+      )
+    );
+
+    const stored = await new FileStorageAdapter(filePath).listTransactions();
+
+    expect(stored.map((tx) => tx.id).sort()).toEqual([
+      "bridge-1",
+      "bridge-2",
+      "bridge-3",
+    ]);
+  });
+});
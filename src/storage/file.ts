@@ -0,0 +1,187 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import {
+  BridgeStatus,
+  BridgeStorageAdapter,
+  BridgeTransaction,
+  ProcessedSourceRecord,
+  SerialRangeRecord,
+} from "../types";
+import { fromStoredTransaction, toStoredTransaction } from "./serialization";
+
+/**
+ * On-disk layout of the storage file
+ */
+interface StorageFileContents {
+  version: number;
+  transactions: Record<string, any>;
+  checkpoints: Record<string, number>;
+  processedSources: Record<string, ProcessedSourceRecord>;
+  serialRanges: Record<string, SerialRangeRecord>;
+}
+
+const STORAGE_FILE_VERSION = 1;
+
+/**
+ * File-backed storage adapter
+ *
+ * Keeps all records in a single JSON file. Writes go to a temporary file
+ * that is renamed over the original, so a crash mid-write never leaves a
+ * truncated store behind.
+ */
+export class FileStorageAdapter implements BridgeStorageAdapter {
+  private filePath: string;
+  private contents: StorageFileContents | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  /**
+   * Constructor
+   *
+   * @param filePath Path of the JSON storage file (created if missing)
+   */
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  async saveTransaction(transaction: BridgeTransaction): Promise<void> {
+    await this.update((contents) => {
+      contents.transactions[transaction.id] = toStoredTransaction(transaction);
+    });
+  }
+
+  async getTransaction(
+    bridgeId: string
+  ): Promise<BridgeTransaction | undefined> {
+    const contents = await this.load();
+    const stored = contents.transactions[bridgeId];
+    return stored ? fromStoredTransaction(stored) : undefined;
+  }
+
+  async listTransactions(
+    statuses?: BridgeStatus[]
+  ): Promise<BridgeTransaction[]> {
+    const contents = await this.load();
+    return Object.values(contents.transactions)
+      .map(fromStoredTransaction)
+      .filter((tx) => !statuses || statuses.includes(tx.status));
+  }
+
+  async deleteTransaction(bridgeId: string): Promise<void> {
+    await this.update((contents) => {
+      delete contents.transactions[bridgeId];
+    });
+  }
+
+  async getCheckpoint(name: string): Promise<number | undefined> {
+    const contents = await this.load();
+    return contents.checkpoints[name];
+  }
+
+  async saveCheckpoint(name: string, value: number): Promise<void> {
+    await this.update((contents) => {
+      contents.checkpoints[name] = value;
+    });
+  }
+
+  async getProcessedSource(
+    key: string
+  ): Promise<ProcessedSourceRecord | undefined> {
+    const contents = await this.load();
+    const record = contents.processedSources[key];
+    return record ? { ...record } : undefined;
+  }
+
+  async saveProcessedSource(record: ProcessedSourceRecord): Promise<void> {
+    await this.update((contents) => {
+      contents.processedSources[record.key] = { ...record };
+    });
+  }
+
+  async deleteProcessedSource(key: string): Promise<void> {
+    await this.update((contents) => {
+      delete contents.processedSources[key];
+    });
+  }
+
+  async listSerialRanges(block?: string): Promise<SerialRangeRecord[]> {
+    const contents = await this.load();
+    return Object.values(contents.serialRanges)
+      .filter((record) => block === undefined || record.block === block)
+      .map((record) => ({ ...record }));
+  }
+
+  async saveSerialRange(record: SerialRangeRecord): Promise<void> {
+    await this.update((contents) => {
+      contents.serialRanges[record.id] = { ...record };
+    });
+  }
+
+  /**
+   * Load the storage file, creating an empty store if it does not exist
+   */
+  private async load(): Promise<StorageFileContents> {
+    if (this.contents) {
+      return this.contents;
+    }
+
+    try {
+      const raw = await fs.readFile(this.filePath, "utf8");
+      const parsed = JSON.parse(raw);
+      this.contents = {
+        version: parsed.version ?? STORAGE_FILE_VERSION,
+        transactions: parsed.transactions ?? {},
+        checkpoints: parsed.checkpoints ?? {},
+        processedSources: parsed.processedSources ?? {},
+        serialRanges: parsed.serialRanges ?? {},
+      };
+    } catch (error: any) {
+      if (error.code !== "ENOENT") {
+        throw new Error(
+          `Failed to read bridge storage file ${this.filePath}: ${error.message}`
+        );
+      }
+      this.contents = {
+        version: STORAGE_FILE_VERSION,
+        transactions: {},
+        checkpoints: {},
+        processedSources: {},
+        serialRanges: {},
+      };
+    }
+
+    return this.contents;
+  }
+
+  /**
+   * Apply a mutation and persist the result
+   *
+   * Updates are queued so concurrent writers never interleave.
+   *
+   * @param mutate Function that modifies the loaded contents
+   */
+  private update(
+    mutate: (contents: StorageFileContents) => void
+  ): Promise<void> {
+    const next = this.writeQueue.then(async () => {
+      const contents = await this.load();
+      mutate(contents);
+      await this.persist(contents);
+    });
+
+    // Keep the queue alive even if this write fails
+    this.writeQueue = next.catch(() => undefined);
+    return next;
+  }
+
+  /**
+   * Atomically write the contents to disk
+   *
+   * @param contents Storage contents
+   */
+  private async persist(contents: StorageFileContents): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(contents, null, 2), "utf8");
+    await fs.rename(tempPath, this.filePath);
+  }
+}
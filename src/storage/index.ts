@@ -0,0 +1,3 @@
+export * from "./memory";
+export * from "./file";
+export * from "./serialization";
@@ -0,0 +1,77 @@
+import {
+  BridgeStatus,
+  BridgeStorageAdapter,
+  BridgeTransaction,
+  ProcessedSourceRecord,
+  SerialRangeRecord,
+} from "../types";
+import { deserializeTransaction, serializeTransaction } from "./serialization";
+
+/**
+ * In-memory storage adapter
+ *
+ * Transactions are lost when the process exits. Records are stored as
+ * serialized copies so callers cannot mutate stored state by reference.
+ */
+export class InMemoryStorageAdapter implements BridgeStorageAdapter {
+  private transactions: Map<string, string> = new Map();
+  private checkpoints: Map<string, number> = new Map();
+  private processedSources: Map<string, ProcessedSourceRecord> = new Map();
+  private serialRanges: Map<string, SerialRangeRecord> = new Map();
+
+  async saveTransaction(transaction: BridgeTransaction): Promise<void> {
+    this.transactions.set(transaction.id, serializeTransaction(transaction));
+  }
+
+  async getTransaction(
+    bridgeId: string
+  ): Promise<BridgeTransaction | undefined> {
+    const stored = this.transactions.get(bridgeId);
+    return stored ? deserializeTransaction(stored) : undefined;
+  }
+
+  async listTransactions(
+    statuses?: BridgeStatus[]
+  ): Promise<BridgeTransaction[]> {
+    return Array.from(this.transactions.values())
+      .map(deserializeTransaction)
+      .filter((tx) => !statuses || statuses.includes(tx.status));
+  }
+
+  async deleteTransaction(bridgeId: string): Promise<void> {
+    this.transactions.delete(bridgeId);
+  }
+
+  async getCheckpoint(name: string): Promise<number | undefined> {
+    return this.checkpoints.get(name);
+  }
+
+  async saveCheckpoint(name: string, value: number): Promise<void> {
+    this.checkpoints.set(name, value);
+  }
+
+  async getProcessedSource(
+    key: string
+  ): Promise<ProcessedSourceRecord | undefined> {
+    const record = this.processedSources.get(key);
+    return record ? { ...record } : undefined;
+  }
+
+  async saveProcessedSource(record: ProcessedSourceRecord): Promise<void> {
+    this.processedSources.set(record.key, { ...record });
+  }
+
+  async deleteProcessedSource(key: string): Promise<void> {
+    this.processedSources.delete(key);
+  }
+
+  async listSerialRanges(block?: string): Promise<SerialRangeRecord[]> {
+    return Array.from(this.serialRanges.values())
+      .filter((record) => block === undefined || record.block === block)
+      .map((record) => ({ ...record }));
+  }
+
+  async saveSerialRange(record: SerialRangeRecord): Promise<void> {
+    this.serialRanges.set(record.id, { ...record });
+  }
+}
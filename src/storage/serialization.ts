@@ -0,0 +1,78 @@
+import { BigNumber } from "bignumber.js";
+import { BridgeTransaction } from "../types";
+
+/**
+ * Marker key used to tag serialized BigNumber values
+ */
+const BIG_NUMBER_TAG = "$bigNumber";
+
+/**
+ * Serialize a bridge transaction to JSON
+ *
+ * BigNumber values are written as tagged decimal strings so that amounts
+ * survive the round trip without losing precision.
+ *
+ * @param transaction Bridge transaction
+ * @returns JSON string
+ */
+export function serializeTransaction(transaction: BridgeTransaction): string {
+  return JSON.stringify(transaction, replaceBigNumbers);
+}
+
+/**
+ * Deserialize a bridge transaction from JSON
+ *
+ * @param json JSON string produced by serializeTransaction
+ * @returns Bridge transaction
+ */
+export function deserializeTransaction(json: string): BridgeTransaction {
+  return JSON.parse(json, reviveBigNumbers);
+}
+
+/**
+ * Convert a bridge transaction to a plain JSON-compatible object
+ *
+ * @param transaction Bridge transaction
+ * @returns Plain object with tagged BigNumber values
+ */
+export function toStoredTransaction(transaction: BridgeTransaction): any {
+  return JSON.parse(serializeTransaction(transaction));
+}
+
+/**
+ * Restore a bridge transaction from a plain stored object
+ *
+ * @param stored Plain object produced by toStoredTransaction
+ * @returns Bridge transaction
+ */
+export function fromStoredTransaction(stored: any): BridgeTransaction {
+  return deserializeTransaction(JSON.stringify(stored));
+}
+
+/**
+ * JSON replacer that tags BigNumber values
+ *
+ * JSON.stringify calls toJSON() before the replacer, so the original value
+ * is read from the holder object.
+ */
+function replaceBigNumbers(this: any, key: string, value: any): any {
+  const original = this[key];
+  if (BigNumber.isBigNumber(original)) {
+    return { [BIG_NUMBER_TAG]: original.toFixed() };
+  }
+  return value;
+}
+
+/**
+ * JSON reviver that restores tagged BigNumber values
+ */
+function reviveBigNumbers(_key: string, value: any): any {
+  if (
+    value !== null &&
+    typeof value === "object" &&
+    typeof value[BIG_NUMBER_TAG] === "string"
+  ) {
+    return new BigNumber(value[BIG_NUMBER_TAG]);
+  }
+  return value;
+}
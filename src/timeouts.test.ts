@@ -0,0 +1,200 @@
+import algosdk from "algosdk";
+import { BigNumber } from "bignumber.js";
+import {
+  getRefundTransaction,
+  getTimeoutBlocks,
+  hasTimedOut,
+  isAwaitingCompletion,
+  isRefundable,
+} from "./timeouts";
+import { createBridgeConfig, DEFAULT_TIMEOUT_BLOCKS } from "./config";
+import { AlgorandChainHandler } from "./chains/algorand";
+import {
+  BridgeConfig,
+  BridgeStatus,
+  BridgeTransaction,
+  ChainType,
+} from "./types";
+
+const targetStatus = jest.fn();
+
+jest.mock("./chains/registry", () => ({
+  createChainHandler: () => ({ getBridgeTransactionStatus: targetStatus }),
+}));
+
+const config = {
+  algorand: {
+    nodeUrl: "http://localhost:4001",
+    indexerUrl: "http://localhost:8980",
+    escrowAppId: 1234,
+    carbonAssetId: 5678,
+  },
+  targetChain: {
+    chainType: ChainType.ETHEREUM,
+    rpcUrl: "http://localhost:8545",
+    bridgeContractAddress: "0x0000000000000000000000000000000000000002",
+    tokenContractAddress: "0x0000000000000000000000000000000000000003",
+  },
+  verifiers: [],
+  minVerifierSignatures: 0,
+  timeoutBlocks: 150,
+} as unknown as BridgeConfig;
+
+const lock: BridgeTransaction = {
+  id: "bridge-1",
+  sourceChain: ChainType.ALGORAND,
+  targetChain: ChainType.ETHEREUM,
+  sourceAssetId: "5678",
+  targetAssetId: "0x0000000000000000000000000000000000000003",
+  amount: new BigNumber(10),
+  sender: "SENDER",
+  receiver: "0x000000000000000000000000000000000000dEaD",
+  status: BridgeStatus.LOCKED,
+  sourceTransactionId: "LOCKTXID",
+  sourceBlock: 100,
+  timestamp: 1700000000000,
+  nonce: 100,
+};
+
+describe("getTimeoutBlocks", () => {
+  it("defaults to 150 blocks when unset", () => {
+    expect(DEFAULT_TIMEOUT_BLOCKS).toBe(150);
+    expect(
+      getTimeoutBlocks({ ...config, timeoutBlocks: undefined } as any)
+    ).toBe(150);
+    expect(getTimeoutBlocks({ ...config, timeoutBlocks: 20 })).toBe(20);
+  });
+
+  it("is not cleared by an unset environment variable", () => {
+    const created = createBridgeConfig({
+      ...config,
+      timeoutBlocks: undefined,
+    });
+
+    expect(created.timeoutBlocks).toBe(DEFAULT_TIMEOUT_BLOCKS);
+  });
+});
+
+describe("hasTimedOut", () => {
+  it("times out once timeoutBlocks have passed", () => {
+    expect(hasTimedOut(100, 249, config)).toBe(false);
+    expect(hasTimedOut(100, 250, config)).toBe(true);
+  });
+});
+
+describe("isAwaitingCompletion", () => {
+  it("includes locks not minted and burns not released", () => {
+    expect(isAwaitingCompletion(lock)).toBe(true);
+    expect(
+      isAwaitingCompletion({
+        ...lock,
+        sourceChain: ChainType.ETHEREUM,
+        targetChain: ChainType.ALGORAND,
+        status: BridgeStatus.BURNED,
+      })
+    ).toBe(true);
+    expect(isAwaitingCompletion({ ...lock, status: BridgeStatus.MINTED })).toBe(
+      false
+    );
+  });
+
+  it("includes retirements only while their retirement is pending", () => {
+    const retirement = {
+      ...lock,
+      sourceChain: ChainType.ETHEREUM,
+      targetChain: ChainType.ALGORAND,
+      status: BridgeStatus.VERIFYING,
+      retirement: { beneficiary: "Acme Corp", reason: "Offset" },
+    };
+
+    expect(isAwaitingCompletion(retirement)).toBe(false);
+    expect(
+      isAwaitingCompletion({
+        ...retirement,
+        pendingTransactionIds: ["RETIRETXID"],
+      })
+    ).toBe(true);
+  });
+});
+
+describe("getRefundTransaction", () => {
+  it("keeps the bridge ID and returns the credits to the sender", () => {
+    expect(
+      getRefundTransaction({ ...lock, targetTransactionId: "0xmint" })
+    ).toMatchObject({
+      id: "bridge-1",
+      sourceChain: ChainType.ALGORAND,
+      targetChain: ChainType.ALGORAND,
+      targetAssetId: "5678",
+      receiver: "SENDER",
+      targetTransactionId: undefined,
+    });
+  });
+});
+
+describe("isRefundable", () => {
+  let currentRound: number;
+  let sourceStatus: BridgeStatus;
+
+  beforeEach(() => {
+    currentRound = 250;
+    sourceStatus = BridgeStatus.LOCKED;
+    targetStatus.mockResolvedValue(BridgeStatus.PENDING);
+
+    jest
+      .spyOn(algosdk.Indexer.prototype, "lookupTransactionByID")
+      .mockReturnValue({
+        do: async () => ({ transaction: { "confirmed-round": 100 } }),
+      } as any);
+    jest
+      .spyOn(algosdk.Indexer.prototype, "makeHealthCheck")
+      .mockReturnValue({ do: async () => ({ round: currentRound }) } as any);
+    jest
+      .spyOn(AlgorandChainHandler.prototype, "getBridgeTransactionStatus")
+      .mockImplementation(async () => sourceStatus);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("refunds a lock not minted within timeoutBlocks", async () => {
+    await expect(isRefundable(lock, config)).resolves.toBe(true);
+  });
+
+  it("does not refund before timeoutBlocks have passed", async () => {
+    currentRound = 249;
+
+    await expect(isRefundable(lock, config)).resolves.toBe(false);
+  });
+
+  it("does not refund a lock refunded on the source chain", async () => {
+    sourceStatus = BridgeStatus.REFUNDED;
+
+    await expect(isRefundable(lock, config)).resolves.toBe(false);
+  });
+
+  it("does not refund a lock minted on the target chain", async () => {
+    targetStatus.mockResolvedValue(BridgeStatus.MINTED);
+
+    await expect(isRefundable(lock, config)).resolves.toBe(false);
+  });
+
+  it("does not refund when the target chain status is unreadable", async () => {
+    targetStatus.mockResolvedValue(BridgeStatus.FAILED);
+
+    await expect(isRefundable(lock, config)).resolves.toBe(false);
+  });
+
+  it("never refunds a retirement", async () => {
+    await expect(
+      isRefundable(
+        {
+          ...lock,
+          retirement: { beneficiary: "Acme Corp", reason: "Offset" },
+        },
+        config
+      )
+    ).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,428 @@
+import { Indexer } from "algosdk";
+import { ethers } from "ethers";
+import {
+  BridgeConfig,
+  BridgeStatus,
+  BridgeStorageAdapter,
+  BridgeTransaction,
+  ChainType,
+} from "./types";
+import { bridgeEvents, BridgeEventType } from "./events";
+import { AlgorandChainHandler } from "./chains/algorand";
+import { createChainHandler } from "./chains/registry";
+import { DEFAULT_TIMEOUT_BLOCKS, getChainConfig } from "./config";
+
+/**
+ * Options for the timeout scheduler
+ */
+export interface TimeoutSchedulerOptions {
+  pollIntervalMs?: number; // Delay between timeout checks (default 15s)
+}
+
+/**
+ * Get the current round or block number of a chain
+ *
+ * @param chain Chain type
+ * @param config Bridge configuration
+ * @returns Current Algorand round or EVM block number
+ */
+export async function getCurrentHeight(
+  chain: ChainType,
+  config: BridgeConfig
+): Promise<number> {
+  if (chain === ChainType.ALGORAND) {
+    const indexerClient = new Indexer(
+      config.algorand.token ?? "",
+      config.algorand.indexerUrl,
+      config.algorand.port
+    );
+    const health = await indexerClient.makeHealthCheck().do();
+    return health["round"];
+  }
+
+  const provider = new ethers.JsonRpcProvider(
+    getChainConfig(config, chain).targetChain.rpcUrl
+  );
+  try {
+    return await provider.getBlockNumber();
+  } finally {
+    provider.destroy();
+  }
+}
+
+/**
+ * Get the round or block a source transaction was confirmed in
+ *
+ * Read from the source chain rather than trusted from the stored record.
+ *
+ * @param transaction Bridge transaction
+ * @param config Bridge configuration
+ * @returns Confirmed round or block number, or undefined if unconfirmed
+ */
+export async function getConfirmedHeight(
+  transaction: BridgeTransaction,
+  config: BridgeConfig
+): Promise<number | undefined> {
+  if (!transaction.sourceTransactionId) {
+    return undefined;
+  }
+
+  if (transaction.sourceChain === ChainType.ALGORAND) {
+    const indexerClient = new Indexer(
+      config.algorand.token ?? "",
+      config.algorand.indexerUrl,
+      config.algorand.port
+    );
+    const response = await indexerClient
+      .lookupTransactionByID(transaction.sourceTransactionId)
+      .do();
+    const round = response?.transaction?.["confirmed-round"];
+    return round > 0 ? round : undefined;
+  }
+
+  const provider = new ethers.JsonRpcProvider(
+    getChainConfig(config, transaction.sourceChain).targetChain.rpcUrl
+  );
+  try {
+    const receipt = await provider.getTransactionReceipt(
+      transaction.sourceTransactionId
+    );
+    return receipt && receipt.status === 1 ? receipt.blockNumber : undefined;
+  } finally {
+    provider.destroy();
+  }
+}
+
+/**
+ * Get the rounds or blocks before an uncompleted bridge times out
+ *
+ * @param config Bridge configuration
+ * @returns `timeoutBlocks`, or the default of 150 if unset
+ */
+export function getTimeoutBlocks(config: BridgeConfig): number {
+  return config.timeoutBlocks ?? DEFAULT_TIMEOUT_BLOCKS;
+}
+
+/**
+ * Check whether `timeoutBlocks` have elapsed since a source transaction
+ *
+ * @param sourceBlock Round or block the source transaction was confirmed in
+ * @param currentHeight Current round or block of the source chain
+ * @param config Bridge configuration
+ * @returns True if the transaction has timed out
+ */
+export function hasTimedOut(
+  sourceBlock: number,
+  currentHeight: number,
+  config: BridgeConfig
+): boolean {
+  return currentHeight - sourceBlock >= getTimeoutBlocks(config);
+}
+
+/**
+ * Check whether a transaction is still waiting for its mint or release
+ *
+ * Expired transactions are included until their refund goes through.
+ * Retirements are never refunded, so they are only included while their
+ * retirement on Algorand is pending.
+ *
+ * @param transaction Bridge transaction
+ * @returns True for confirmed locks not yet minted and burns not yet released
+ */
+export function isAwaitingCompletion(transaction: BridgeTransaction): boolean {
+  if (
+    !transaction.sourceTransactionId ||
+    (transaction.retirement && !transaction.pendingTransactionIds?.length)
+  ) {
+    return false;
+  }
+
+  switch (transaction.status) {
+    case BridgeStatus.PENDING:
+    case BridgeStatus.LOCKED:
+      return transaction.sourceChain === ChainType.ALGORAND;
+    case BridgeStatus.BURNED:
+      return transaction.sourceChain !== ChainType.ALGORAND;
+    case BridgeStatus.VERIFYING:
+    case BridgeStatus.EXPIRED:
+      return true;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Get the refund for a bridge transaction
+ *
+ * A refund returns the credits to the sender on the source chain: the
+ * escrow returns the locked ASA on Algorand, and the bridge contract
+ * re-mints the burned tokens on the EVM side. It keeps the bridge ID and is
+ * recorded on the source transaction's own on-chain record, which can then
+ * be neither refunded again nor completed.
+ *
+ * @param transaction Timed out bridge transaction
+ * @returns Refund transaction
+ */
+export function getRefundTransaction(
+  transaction: BridgeTransaction
+): BridgeTransaction {
+  return {
+    ...transaction,
+    targetChain: transaction.sourceChain,
+    targetAssetId: transaction.sourceAssetId,
+    receiver: transaction.sender,
+    targetTransactionId: undefined,
+  };
+}
+
+/**
+ * Get the on-chain status of a bridge transaction on one of its chains
+ *
+ * @param transaction Bridge transaction
+ * @param chain Source or target chain of the transaction
+ * @param config Bridge configuration
+ * @returns Bridge status recorded on the chain, FAILED if unreadable
+ */
+async function getStatusOnChain(
+  transaction: BridgeTransaction,
+  chain: ChainType,
+  config: BridgeConfig
+): Promise<BridgeStatus> {
+  return chain === ChainType.ALGORAND
+    ? new AlgorandChainHandler(config).getBridgeTransactionStatus(
+        transaction.id
+      )
+    : createChainHandler(chain, config).getBridgeTransactionStatus(
+        transaction.id
+      );
+}
+
+/**
+ * Check on-chain whether a bridge transaction was refunded on its source
+ * chain
+ *
+ * @param transaction Bridge transaction
+ * @param config Bridge configuration
+ * @returns True if the source chain record shows the refund
+ * @throws Error if the source chain status cannot be read
+ */
+export async function isRefundedOnSourceChain(
+  transaction: BridgeTransaction,
+  config: BridgeConfig
+): Promise<boolean> {
+  const sourceStatus = await getStatusOnChain(
+    transaction,
+    transaction.sourceChain,
+    config
+  );
+  if (sourceStatus === BridgeStatus.FAILED) {
+    throw new Error(`Unable to read source status of bridge ${transaction.id}`);
+  }
+  return sourceStatus === BridgeStatus.REFUNDED;
+}
+
+/**
+ * Check on-chain whether a bridge transaction may be refunded
+ *
+ * The source transaction must be confirmed at least `timeoutBlocks` rounds
+ * or blocks ago and not refunded yet, and the target chain must show no
+ * mint or release for it.
+ *
+ * @param transaction Bridge transaction
+ * @param config Bridge configuration
+ * @returns True if the transaction can be refunded
+ */
+export async function isRefundable(
+  transaction: BridgeTransaction,
+  config: BridgeConfig
+): Promise<boolean> {
+  if (transaction.retirement) {
+    console.error(`Bridge ${transaction.id} is a retirement and cannot be refunded`);
+    return false;
+  }
+
+  try {
+    const sourceBlock = await getConfirmedHeight(transaction, config);
+    if (sourceBlock === undefined) {
+      console.error(
+        `Source transaction of bridge ${transaction.id} is not confirmed`
+      );
+      return false;
+    }
+
+    const currentHeight = await getCurrentHeight(
+      transaction.sourceChain,
+      config
+    );
+    if (!hasTimedOut(sourceBlock, currentHeight, config)) {
+      console.error(`Bridge ${transaction.id} has not timed out`);
+      return false;
+    }
+
+    if (await isRefundedOnSourceChain(transaction, config)) {
+      console.error(`Bridge ${transaction.id} was already refunded`);
+      return false;
+    }
+
+    return await isOpenOnTargetChain(transaction, config);
+  } catch (error) {
+    console.error("Error checking refund eligibility:", error);
+    return false;
+  }
+}
+
+/**
+ * Check on-chain that a bridge transaction was not completed on its target
+ * chain
+ *
+ * @param transaction Bridge transaction
+ * @param config Bridge configuration
+ * @returns True if the target chain shows no mint, release, held release
+ * or retirement for it; false if it does or its status cannot be read
+ */
+export async function isOpenOnTargetChain(
+  transaction: BridgeTransaction,
+  config: BridgeConfig
+): Promise<boolean> {
+  const targetStatus = await getStatusOnChain(
+    transaction,
+    transaction.targetChain,
+    config
+  );
+
+  if (targetStatus === BridgeStatus.FAILED) {
+    console.error(`Unable to read target status of bridge ${transaction.id}`);
+    return false;
+  }
+
+  if (
+    targetStatus === BridgeStatus.MINTED ||
+    targetStatus === BridgeStatus.RELEASED ||
+    targetStatus === BridgeStatus.CLAIMABLE ||
+    targetStatus === BridgeStatus.RETIRED
+  ) {
+    console.error(`Bridge ${transaction.id} was already completed`);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Emits TIMEOUT for bridges whose mint or release has not happened within
+ * `timeoutBlocks` rounds or blocks of the source transaction
+ *
+ * Pending transactions are read from the bridge storage and compared with
+ * the current height of their source chain, so timeouts survive restarts.
+ * TIMEOUT is emitted on every poll until the bridge refunds or completes
+ * the transaction.
+ */
+export class TimeoutScheduler {
+  private config: BridgeConfig;
+  private storage: BridgeStorageAdapter;
+  private pollIntervalMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  /**
+   * Constructor
+   *
+   * @param config Bridge configuration
+   * @param storage Storage adapter holding the bridge transactions
+   * @param options Scheduler options
+   */
+  constructor(
+    config: BridgeConfig,
+    storage: BridgeStorageAdapter,
+    options: TimeoutSchedulerOptions = {}
+  ) {
+    this.config = config;
+    this.storage = storage;
+    this.pollIntervalMs = options.pollIntervalMs ?? 15000;
+  }
+
+  /**
+   * Start checking for timed out transactions
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    this.schedule(0);
+  }
+
+  /**
+   * Stop checking for timed out transactions
+   */
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Schedule the next check
+   *
+   * @param delayMs Delay in milliseconds
+   */
+  private schedule(delayMs: number): void {
+    this.timer = setTimeout(async () => {
+      try {
+        await this.poll();
+      } catch (error) {
+        console.error("Error checking bridge timeouts:", error);
+      }
+
+      if (this.running) {
+        this.schedule(this.pollIntervalMs);
+      }
+    }, delayMs);
+  }
+
+  /**
+   * Emit TIMEOUT for every pending transaction past `timeoutBlocks`
+   *
+   * @returns Timed out transactions that were emitted
+   */
+  async poll(): Promise<BridgeTransaction[]> {
+    const transactions = await this.storage.listTransactions();
+    const heights = new Map<ChainType, number>();
+    const timedOut: BridgeTransaction[] = [];
+
+    for (const transaction of transactions) {
+      if (
+        !isAwaitingCompletion(transaction) ||
+        transaction.sourceBlock === undefined
+      ) {
+        continue;
+      }
+
+      // Read each source chain height once per poll
+      let currentHeight = heights.get(transaction.sourceChain);
+      if (currentHeight === undefined) {
+        currentHeight = await getCurrentHeight(
+          transaction.sourceChain,
+          this.config
+        );
+        heights.set(transaction.sourceChain, currentHeight);
+      }
+
+      if (!hasTimedOut(transaction.sourceBlock, currentHeight, this.config)) {
+        continue;
+      }
+
+      timedOut.push(transaction);
+      bridgeEvents.emitBridgeEvent(BridgeEventType.TIMEOUT, transaction, {
+        sourceBlock: transaction.sourceBlock,
+        currentBlock: currentHeight,
+        timeoutBlocks: getTimeoutBlocks(this.config),
+      });
+    }
+
+    return timedOut;
+  }
+}
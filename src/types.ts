@@ -1,4 +1,5 @@
-import { Account } from "algosdk";
+import { Account, Transaction } from "algosdk";
+import { ethers } from "ethers";
 
 /**
  * Supported blockchain types
@@ -6,6 +7,10 @@ import { Account } from "algosdk";
 export enum ChainType {
   ALGORAND = "algorand",
   ETHEREUM = "ethereum",
+  POLYGON = "polygon",
+  BASE = "base",
+  ARBITRUM = "arbitrum",
+  LOCAL = "local", // Local anvil or hardhat node
   // Add more chains as needed
 }
 
@@ -19,6 +24,11 @@ export enum BridgeStatus {
   BURNED = "burned",
   RELEASED = "released",
   FAILED = "failed",
+  VERIFYING = "verifying", // Collecting verifier signatures
+  EXPIRED = "expired", // Timed out, awaiting refund
+  REFUNDED = "refunded",
+  RETIRED = "retired", // Burned on the target chain and retired in the escrow
+  CLAIMABLE = "claimable", // Released into the escrow until the receiver opts in and claims
 }
 
 /**
@@ -38,14 +48,101 @@ export interface BridgeTransaction {
   targetChain: ChainType;
   sourceAssetId: string; // Algorand ASA ID or contract address
   targetAssetId: string; // Target chain token address
-  amount: BigNumber;
+  amount: BigNumber; // Amount locked or burned on the source chain
+  protocolFee?: BigNumber; // Bridge fee deducted from the minted or released amount
+  sourceAmount?: AssetAmount; // Exact amount locked or burned on the source chain
+  targetAmount?: AssetAmount; // Exact amount minted or released on the target chain
   sender: string;
   receiver: string;
   status: BridgeStatus;
   sourceTransactionId?: string;
   targetTransactionId?: string;
+  refundTransactionId?: string; // Refund to the sender after a timeout
+  sourceBlock?: number; // Confirmed round or block number of the source transaction
   timestamp: number;
   nonce: number;
+  history?: StatusTransition[]; // Status changes, oldest first
+  metadata?: CarbonCreditMetadata; // Provenance of the locked credits
+  metadataHash?: string; // keccak256 of the canonical metadata, committed in the lock
+  retirement?: RetirementDetails; // Set when the burn retires the credits
+  serialRanges?: SerialRange[]; // Registry serials assigned to the lock, or taken by the burn
+  replacements?: TransactionReplacement[]; // Stuck operator transactions that were replaced, oldest first
+  pendingTransactionIds?: string[]; // Submitted mint, release or retirement (and mint replacements), while none of them is confirmed
+}
+
+/**
+ * Beneficiary and reason of a carbon credit retirement
+ */
+export interface RetirementDetails {
+  beneficiary: string; // Who the offset is claimed for
+  reason: string; // e.g. "2024 Scope 1 emissions"
+}
+
+/**
+ * Contiguous range of registry serial numbers, one per whole credit
+ */
+export interface SerialRange {
+  block: string; // Registry serial block (`serialNumber` of the metadata)
+  start: number; // First serial, inclusive
+  end: number; // Last serial, inclusive
+}
+
+/**
+ * How a stuck operator transaction was replaced
+ */
+export enum ReplacementType {
+  SPEED_UP = "speed-up", // Same call with higher fees
+  CANCEL = "cancel", // Empty transfer to the operator, so the call is dropped
+}
+
+/**
+ * Operator transaction sent with the nonce of a stuck one
+ */
+export interface TransactionReplacement {
+  type: ReplacementType;
+  replacedTransactionId: string; // Transaction that was stuck
+  transactionId: string; // Replacement transaction
+  timestamp: number;
+}
+
+/**
+ * Where the credits of a serial range currently are
+ */
+export enum SerialRangeStatus {
+  LOCKED = "locked", // Locked in the escrow, not yet minted
+  WRAPPED = "wrapped", // Represented by wrapped tokens on the target chain
+  RETIRED = "retired", // Retired through the bridge
+  RETURNED = "returned", // Back on Algorand and free to be bridged again
+}
+
+/**
+ * Serial ledger entry for a range of bridged credits
+ */
+export interface SerialRangeRecord extends SerialRange {
+  id: string; // Block and first serial
+  status: SerialRangeStatus;
+  lockBridgeId: string; // Lock the range was assigned to
+  bridgeId: string; // Bridge transaction that last moved the range
+  updatedAt: number;
+}
+
+/**
+ * Token amount in an asset's smallest unit
+ */
+export interface AssetAmount {
+  baseUnits: string; // Whole number of base units, as a decimal string
+  decimals: number; // Decimals of the asset the amount is counted in
+}
+
+/**
+ * Recorded change of a bridge transaction's status
+ */
+export interface StatusTransition {
+  from?: BridgeStatus; // Omitted for the status the transaction was created with
+  to: BridgeStatus;
+  timestamp: number;
+  reason?: string;
+  chainTransactionId?: string; // On-chain transaction that caused the change
 }
 
 /**
@@ -56,41 +153,345 @@ export interface CarbonCreditMetadata {
   vintage: number;
   standard: string; // e.g. "Verra", "Gold Standard"
   creditType: string; // e.g. "VCU", "CRT"
-  serialNumber: string;
+  serialNumber: string; // Registry serial block the credits are drawn from
+  serialRange?: { start: number; end: number }; // Serials in the block, inclusive
   issuanceDate: number; // UNIX timestamp
   retirementStatus: boolean;
   additionalAttributes?: Record<string, any>;
 }
 
+/**
+ * Registry status of a carbon credit serial range
+ */
+export enum RegistryCreditStatus {
+  ACTIVE = "active", // Issued and free to be transferred
+  RETIRED = "retired",
+  CANCELLED = "cancelled",
+  BRIDGED = "bridged", // Immobilized for tokenization
+}
+
+/**
+ * Carbon project as listed by a registry
+ */
+export interface RegistryProject {
+  projectId: string;
+  name?: string;
+  active: boolean; // Registered and allowed to hold credits
+}
+
+/**
+ * Serial range as listed by a registry
+ */
+export interface RegistrySerialRange extends SerialRange {
+  status: RegistryCreditStatus;
+}
+
+/**
+ * Carbon registry consulted before credits are locked
+ */
+export interface CarbonRegistryAdapter {
+  /**
+   * Carbon standard the registry issues, matched against `metadata.standard`
+   */
+  readonly standard: string;
+
+  /**
+   * Get a project by ID, or undefined if the registry does not list it
+   */
+  getProject(projectId: string): Promise<RegistryProject | undefined>;
+
+  /**
+   * List the project's serial ranges in a serial block
+   */
+  getSerialRanges(
+    projectId: string,
+    block: string
+  ): Promise<RegistrySerialRange[]>;
+}
+
 /**
  * Bridge configuration interface
  */
 export interface BridgeConfig {
   algorand: {
-    token: string;
-    port: string | number | undefined;
+    token?: string;
+    port?: string | number;
     tokenId?: any;
-    escrowAddress: any;
+    escrowAddress?: any;
     nodeUrl: string;
     indexerUrl: string;
     escrowAppId: number;
     carbonAssetId: number;
-    bridgeAccount?: Account;
-    decimals?: number;
-  };
-  targetChain: {
-    decimals?: number;
-    chainType: ChainType;
-    rpcUrl: string;
-    bridgeContractAddress: string;
-    tokenContractAddress: string;
-    gasPrice?: string;
-    gasLimit?: number;
+    bridgeAccount?: Account; // Prefer `signer`; wrapped in an AccountSigner if set
+    signer?: AlgorandBridgeSigner; // Operator signer for releases
+    decimals?: number; // ASA decimals (read from the asset params if unset)
+    genesisId?: string; // Network genesis ID, e.g. "mainnet-v1.0" (used in attestations)
   };
+  targetChain: TargetChainConfig; // Primary target chain
+  targetChains?: TargetChainConfig[]; // Further target chains served alongside it
   verifiers: string[]; // List of verifier public keys
+  verifierNodes?: VerifierNode[]; // Verifier endpoints and registered keys (required if minVerifierSignatures > 0)
   minVerifierSignatures: number; // Minimum required signatures
   bridgeFee?: number; // Fee for bridge operations
   timeoutBlocks: number; // Number of blocks before transaction is considered timed out
+  storage?: BridgeStorageAdapter; // Persistence for bridge transactions (in-memory if omitted)
+  registries?: CarbonRegistryAdapter[]; // Registries checked before a lock, by `standard`
+  resumePending?: boolean; // Resume interrupted bridges on startup (default true)
+}
+
+/**
+ * Bridge configuration to complete with defaults, e.g. loaded from the
+ * environment or a file
+ */
+export type BridgeConfigInput = Partial<
+  Omit<BridgeConfig, "algorand" | "targetChain">
+> & {
+  algorand?: Partial<BridgeConfig["algorand"]>;
+  targetChain?: Partial<TargetChainConfig>;
+};
+
+/**
+ * Configuration of a chain credits are bridged to from Algorand
+ */
+export interface TargetChainConfig {
+  decimals?: number; // ERC-20 decimals (read from the token if unset)
+  chainType: ChainType;
+  rpcUrl: string;
+  bridgeContractAddress: string;
+  tokenContractAddress: string;
+  gasPrice?: string; // Legacy gas price in gwei (EIP-1559 fees from fee history if unset)
+  maxFeePerGas?: string; // Cap on the EIP-1559 fee per gas, in wei
+  maxPriorityFeePerGas?: string; // EIP-1559 priority fee in wei (from fee history if unset)
+  gasLimit?: number;
+  stuckTransactionMs?: number; // Replace operator transactions pending this long (default 3 min)
+  maxSpeedUps?: number; // Fee bumps before a stuck transaction is cancelled (default 3)
+  signer?: EthereumBridgeSigner; // Operator signer for mints
+  chainId?: number; // EVM chain ID, checked against the RPC (defaults by chain type)
+  permitVersion?: string; // EIP-712 version of the token's permits if it has no eip712Domain() (default "1")
+}
+
+/**
+ * Handler for a target chain
+ *
+ * Mints wrapped credits for locks on Algorand, and burns or retires them
+ * to bring the credits back. Handlers are created per target chain by
+ * `createChainHandler`.
+ */
+export interface ChainHandler {
+  readonly chainType: ChainType;
+
+  /**
+   * Mint wrapped credits for a verified lock
+   */
+  mintWrappedCarbonCredits(
+    bridgeId: string,
+    receiver: string,
+    amount: number | string | BigNumber,
+    sourceTransactionId: string,
+    options?: BridgeOptions,
+    verifierSignatures?: VerifierSignature[],
+    metadataHash?: string
+  ): Promise<BridgeResult>;
+
+  /**
+   * Burn wrapped credits to release them on Algorand
+   */
+  burnWrappedCarbonCredits(
+    sender: string,
+    algorandReceiver: string,
+    amount: number | string | BigNumber,
+    options?: BridgeOptions
+  ): Promise<BridgeResult>;
+
+  /**
+   * Burn wrapped credits to retire them
+   */
+  retireWrappedCarbonCredits(
+    sender: string,
+    amount: number | string | BigNumber,
+    retirement: RetirementDetails
+  ): Promise<BridgeResult>;
+
+  /**
+   * Get the outcome of a mint left pending by the operator's nonce manager
+   */
+  getPendingMintStatus(
+    transactionIds: string[]
+  ): Promise<{ status: BridgeStatus; transactionId?: string }>;
+
+  /**
+   * Re-mint burned wrapped credits to their sender after a timeout
+   */
+  refundWrappedCarbonCredits(
+    bridgeId: string,
+    sender: string,
+    amount: number | string | BigNumber,
+    verifierSignatures?: VerifierSignature[]
+  ): Promise<BridgeResult>;
+
+  /**
+   * Get the on-chain status of a bridge transaction
+   */
+  getBridgeTransactionStatus(bridgeId: string): Promise<BridgeStatus>;
+
+  /**
+   * Estimate the network fee of a bridge contract call, in the native
+   * currency
+   */
+  estimateNetworkFee(): Promise<BigNumber>;
+
+  /**
+   * Create a watcher that emits confirmed burns and retirements
+   */
+  createWatcher(
+    storage: BridgeStorageAdapter,
+    options?: ChainWatcherOptions
+  ): ChainWatcher;
+}
+
+/**
+ * Options for a target chain watcher
+ */
+export interface ChainWatcherOptions {
+  pollIntervalMs?: number; // Delay between scans (default 15s)
+  startBlock?: number; // Block to start from when no checkpoint exists
+  confirmations?: number; // Blocks to wait before processing a log (default 2)
+}
+
+/**
+ * Watcher that emits confirmed bridge transactions of a chain
+ */
+export interface ChainWatcher {
+  /**
+   * Start watching
+   */
+  start(): void;
+
+  /**
+   * Stop watching
+   */
+  stop(): void;
+
+  /**
+   * Process all confirmed transactions since the last checkpoint
+   */
+  poll(): Promise<BridgeTransaction[]>;
+}
+
+/**
+ * Storage adapter for persisting bridge transactions
+ */
+export interface BridgeStorageAdapter {
+  /**
+   * Insert or replace a bridge transaction
+   */
+  saveTransaction(transaction: BridgeTransaction): Promise<void>;
+
+  /**
+   * Get a bridge transaction by ID
+   */
+  getTransaction(bridgeId: string): Promise<BridgeTransaction | undefined>;
+
+  /**
+   * List stored bridge transactions, optionally filtered by status
+   */
+  listTransactions(statuses?: BridgeStatus[]): Promise<BridgeTransaction[]>;
+
+  /**
+   * Remove a bridge transaction
+   */
+  deleteTransaction(bridgeId: string): Promise<void>;
+
+  /**
+   * Get a named checkpoint (e.g. last processed round or block)
+   */
+  getCheckpoint(name: string): Promise<number | undefined>;
+
+  /**
+   * Store a named checkpoint
+   */
+  saveCheckpoint(name: string, value: number): Promise<void>;
+
+  /**
+   * Get a processed source transaction record by registry key
+   */
+  getProcessedSource(key: string): Promise<ProcessedSourceRecord | undefined>;
+
+  /**
+   * Insert or replace a processed source transaction record
+   */
+  saveProcessedSource(record: ProcessedSourceRecord): Promise<void>;
+
+  /**
+   * Remove a processed source transaction record
+   */
+  deleteProcessedSource(key: string): Promise<void>;
+
+  /**
+   * List serial ledger records, optionally of one serial block
+   */
+  listSerialRanges(block?: string): Promise<SerialRangeRecord[]>;
+
+  /**
+   * Insert or replace a serial ledger record
+   */
+  saveSerialRange(record: SerialRangeRecord): Promise<void>;
+}
+
+/**
+ * Replay registry entry for a source transaction the bridge acted on
+ */
+export interface ProcessedSourceRecord {
+  key: string; // Source chain, source transaction ID and bridge ID
+  sourceChain: ChainType;
+  sourceTransactionId: string;
+  bridgeId: string;
+  status: "processing" | "completed";
+  targetTransactionId?: string;
+  updatedAt: number;
+}
+
+/**
+ * Operator key used by the bridge to sign on one chain
+ */
+export interface BridgeSigner {
+  readonly chainType: ChainType;
+
+  /**
+   * Get the operator address on the signer's chain
+   */
+  getAddress(): Promise<string>;
+}
+
+/**
+ * Operator signer for Algorand transactions
+ */
+export interface AlgorandBridgeSigner extends BridgeSigner {
+  /**
+   * Sign transactions, returning signed blobs in the same order
+   */
+  signTransactions(txns: Transaction[]): Promise<Uint8Array[]>;
+}
+
+/**
+ * Operator signer for Ethereum transactions
+ */
+export interface EthereumBridgeSigner extends BridgeSigner {
+  /**
+   * Get an ethers signer connected to the provider
+   */
+  getSigner(provider: ethers.Provider): Promise<ethers.Signer>;
+}
+
+/**
+ * EIP-2612 permit signed by the sender of a burn
+ *
+ * Approves the bridge contract for exactly the burned amount, so the burn
+ * needs no separate `approve` transaction.
+ */
+export interface PermitSignature {
+  deadline: number; // Unix timestamp in seconds
+  signature: string; // Hex signature over the permit's EIP-712 typed data
 }
 
 /**
@@ -101,6 +502,24 @@ export interface BridgeOptions {
   timeoutMs?: number;
   callbackUrl?: string;
   metadata?: any;
+  feeExempt?: boolean; // Mint or release the full amount, e.g. for refunds
+  targetChain?: ChainType; // Chain the credits are wrapped on (default primary)
+  permit?: PermitSignature; // Burn through an EIP-2612 permit (EVM chains)
+}
+
+/**
+ * Fee breakdown for bridging an amount
+ */
+export interface BridgeQuote {
+  direction: BridgeDirection;
+  grossAmount: BigNumber; // Amount locked or burned on the source chain
+  feeRate: number; // Protocol fee as a fraction of the gross amount
+  protocolFee: BigNumber;
+  netAmount: BigNumber; // Amount minted or released on the target chain
+  networkFees: {
+    algorand?: BigNumber; // Estimated ALGO for the lock or release
+    ethereum?: BigNumber; // Estimated target chain gas token for the burn or mint
+  };
 }
 
 /**
@@ -111,8 +530,11 @@ export interface BridgeResult {
   transactionId: string;
   bridgeId: string;
   status: BridgeStatus;
+  confirmedRound?: number; // Round or block the transaction was confirmed in
   error?: string;
   receipt?: any;
+  replacements?: TransactionReplacement[]; // Stuck transactions replaced while waiting
+  pendingTransactionIds?: string[]; // Transaction and its replacements, if none was mined yet
 }
 
 /**
@@ -123,6 +545,34 @@ export interface VerificationResult {
   signatures: string[];
   timestamp: number;
   error?: string;
+  signedBy?: VerifierSignature[]; // Verifiers whose signatures were accepted
+  rejected?: VerifierRejection[]; // Verifiers whose responses were not counted
+}
+
+/**
+ * Verifier node endpoint and the keys its signatures must match
+ */
+export interface VerifierNode {
+  url: string;
+  algorandAddress?: string; // Key for signatures checked on Algorand
+  ethereumAddress?: string; // Key for signatures checked on Ethereum
+}
+
+/**
+ * Signature accepted from a verifier
+ */
+export interface VerifierSignature {
+  verifier: string; // Verifier URL
+  signer: string; // Registered key the signature was checked against
+  signature: string;
+}
+
+/**
+ * Verifier response that was not counted toward quorum
+ */
+export interface VerifierRejection {
+  verifier: string; // Verifier URL
+  reason: string;
 }
 
 /**
@@ -136,6 +586,7 @@ export enum BridgeEventType {
   ERROR = "error",
   TIMEOUT = "timeout",
   VERIFICATION = "verification",
+  RETIRE = "retire",
 }
 
 /**
@@ -3,6 +3,7 @@ import algosdk from 'algosdk';
 import { ethers } from 'ethers';
 import { BigNumber } from 'bignumber.js';
 import { ChainType, CarbonCreditMetadata } from './types';
+import { EVM_NETWORKS, isEvmChain } from './chains/ethereum/networks';
 
 /**
  * Generate a unique bridge transaction ID
@@ -67,9 +68,10 @@ export function formatAddress(address: string, chainType: ChainType): string {
     switch (chainType) {
       case ChainType.ALGORAND:
         return formatAlgorandAddress(address);
-      case ChainType.ETHEREUM:
-        return formatEthereumAddress(address);
       default:
+        if (isEvmChain(chainType)) {
+          return formatEthereumAddress(address);
+        }
         throw new Error(`Unsupported chain type: ${chainType}`);
     }
   } catch (error: any) {
@@ -78,12 +80,13 @@ export function formatAddress(address: string, chainType: ChainType): string {
 }
 
 /**
- * Convert amount between chains with validation
+ * Convert an amount of base units between chains with validation
  * 
- * @param amount Amount to convert
+ * @param amount Amount in source chain base units
  * @param fromDecimals Source chain decimals
  * @param toDecimals Target chain decimals
- * @returns Converted amount
+ * @returns Amount in target chain base units
+ * @throws Error if the amount cannot be represented exactly on the target chain
  */
 export function convertAmount(
   amount: BigNumber | string | number,
@@ -102,6 +105,10 @@ export function convertAmount(
     if (!value.isFinite() || value.isNaN()) {
       throw new Error('Invalid amount value');
     }
+
+    if (!value.isInteger()) {
+      throw new Error('Amount must be a whole number of base units');
+    }
     
     if (fromDecimals === toDecimals) {
       return value;
@@ -112,9 +119,15 @@ export function convertAmount(
     
     if (decimalDifference > 0) {
       return value.times(factor);
-    } else {
-      return value.div(factor);
     }
+
+    const converted = value.div(factor);
+    if (!converted.isInteger()) {
+      throw new Error(
+        `Amount ${value.toFixed()} cannot be represented with ${toDecimals} decimals`
+      );
+    }
+    return converted;
   } catch (error: any) {
     if (error.name === "BigNumber Error") {
       throw new Error(`BigNumber error: ${error.message}`);
@@ -221,9 +234,36 @@ export function isTransactionTimedOut(timestamp: number, timeoutMs: number): boo
   return now - timestamp > timeoutMs;
 }
 
+/**
+ * Calculate the EIP-1559 max fee per gas
+ * 
+ * The base fee rises at most 12.5% per block, so multiplying it leaves the
+ * transaction room to be included through several full blocks.
+ * 
+ * @param baseFeePerGas Base fee of the next block in wei
+ * @param maxPriorityFeePerGas Priority fee in wei
+ * @param baseFeeMultiplier Multiplier for base fee growth
+ * @returns Max fee per gas in wei
+ */
+export function calculateMaxFeePerGas(
+  baseFeePerGas: string | number | bigint,
+  maxPriorityFeePerGas: string | number | bigint,
+  baseFeeMultiplier: number = 2
+): string {
+  return new BigNumber(baseFeePerGas.toString())
+    .times(baseFeeMultiplier)
+    .plus(maxPriorityFeePerGas.toString())
+    .integerValue(BigNumber.ROUND_CEIL)
+    .toFixed(0);
+}
+
 /**
  * Calculate gas price for Ethereum transactions with surge pricing protection
  * 
+ * @deprecated Assumes pre-London legacy pricing. Use
+ * `calculateMaxFeePerGas`, or `getGasFees` to derive EIP-1559 fees from
+ * the chain.
+ * 
  * @param baseGasPrice Base gas price in wei or gwei
  * @param maxMultiplier Maximum multiplier for gas price 
  * @param isGwei Whether the base price is in gwei
@@ -268,6 +308,13 @@ export function validateCarbonMetadata(metadata: any): string | null {
   if (!metadata.serialNumber) {
     return "Serial number is required";
   }
+
+  if (metadata.serialRange !== undefined) {
+    const { start, end } = metadata.serialRange;
+    if (!Number.isSafeInteger(start) || !Number.isSafeInteger(end) || start < 0 || end < start) {
+      return "Serial range must be whole numbers with start <= end";
+    }
+  }
   
   return null;
 }
@@ -300,13 +347,11 @@ export function getExplorerUrl(chainType: ChainType, txId: string, isTestnet: bo
       return isTestnet
         ? `https://testnet.algoexplorer.io/tx/${txId}`
         : `https://algoexplorer.io/tx/${txId}`;
-      
-    case ChainType.ETHEREUM:
-      return isTestnet
-        ? `https://sepolia.etherscan.io/tx/${txId}`
-        : `https://etherscan.io/tx/${txId}`;
         
-    default:
-      return "#";
+    default: {
+      const network = EVM_NETWORKS[chainType];
+      const explorerUrl = isTestnet ? network?.testnetExplorerUrl : network?.explorerUrl;
+      return explorerUrl ? `${explorerUrl}/tx/${txId}` : "#";
+    }
   }
 }
@@ -0,0 +1,246 @@
+import algosdk from "algosdk";
+import { ethers } from "ethers";
+import { BigNumber } from "bignumber.js";
+import {
+  signTransaction,
+  verifySignature,
+  verifyTransaction,
+} from "./verification";
+import {
+  BridgeConfig,
+  BridgeStatus,
+  BridgeTransaction,
+  ChainType,
+} from "./types";
+
+jest.mock("./amounts", () => ({
+  ...jest.requireActual("./amounts"),
+  resolveAssetDecimals: jest.fn().mockResolvedValue(undefined),
+}));
+
+const escrowAddress = algosdk.getApplicationAddress(1234);
+
+const config = {
+  algorand: {
+    nodeUrl: "http://localhost:4001",
+    indexerUrl: "http://localhost:8980",
+    escrowAppId: 1234,
+    carbonAssetId: 5678,
+    tokenId: 5678,
+    escrowAddress,
+    decimals: 0,
+    genesisId: "testnet-v1.0",
+  },
+  targetChain: {
+    chainType: ChainType.ETHEREUM,
+    rpcUrl: "http://localhost:8545",
+    bridgeContractAddress: "0x0000000000000000000000000000000000000002",
+    tokenContractAddress: "0x0000000000000000000000000000000000000003",
+    decimals: 18,
+  },
+  verifiers: [],
+  minVerifierSignatures: 2,
+  bridgeFee: 0,
+  timeoutBlocks: 150,
+} as unknown as BridgeConfig;
+
+/**
+ * Build a lock of 10 credits minted on Ethereum
+ */
+function lock(): BridgeTransaction {
+  return {
+    id: "bridge-1",
+    sourceChain: ChainType.ALGORAND,
+    targetChain: ChainType.ETHEREUM,
+    sourceAssetId: "5678",
+    targetAssetId: "0x0000000000000000000000000000000000000003",
+    amount: new BigNumber(10),
+    sender: algosdk.generateAccount().addr,
+    receiver: "0x000000000000000000000000000000000000dEaD",
+    status: BridgeStatus.LOCKED,
+    sourceTransactionId: "LOCKTXID",
+    timestamp: 1700000000000,
+    nonce: 100,
+  };
+}
+
+/**
+ * Stub a fetch response from a verifier node
+ */
+function response(status: number, body: any): Response {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    json: async () => body,
+  } as Response;
+}
+
+describe("verifier signatures", () => {
+  const verifier = ethers.Wallet.createRandom();
+  const other = ethers.Wallet.createRandom();
+
+  it("accepts an Ethereum signature from the signing key only", async () => {
+    const signature = await signTransaction(
+      lock(),
+      verifier.privateKey,
+      config
+    );
+
+    expect(verifySignature(lock(), signature, verifier.address, config)).toBe(
+      true
+    );
+    expect(verifySignature(lock(), signature, other.address, config)).toBe(
+      false
+    );
+  });
+
+  it("accepts an Algorand signature from the signing key only", async () => {
+    const account = algosdk.generateAccount();
+    const release = {
+      ...lock(),
+      sourceChain: ChainType.ETHEREUM,
+      targetChain: ChainType.ALGORAND,
+      receiver: algosdk.generateAccount().addr,
+    };
+
+    const signature = await signTransaction(
+      release,
+      algosdk.secretKeyToMnemonic(account.sk),
+      config
+    );
+
+    expect(verifySignature(release, signature, account.addr, config)).toBe(
+      true
+    );
+    expect(
+      verifySignature(
+        release,
+        signature,
+        algosdk.generateAccount().addr,
+        config
+      )
+    ).toBe(false);
+  });
+
+  it("rejects a signature over another transaction", async () => {
+    const signature = await signTransaction(
+      lock(),
+      verifier.privateKey,
+      config
+    );
+
+    expect(
+      verifySignature(
+        { ...lock(), amount: new BigNumber(11) },
+        signature,
+        verifier.address,
+        config
+      )
+    ).toBe(false);
+  });
+});
+
+describe("verifyTransaction", () => {
+  const verifier = ethers.Wallet.createRandom();
+  const other = ethers.Wallet.createRandom();
+  let signature: string;
+
+  beforeEach(async () => {
+    signature = await signTransaction(lock(), verifier.privateKey, config);
+
+    jest
+      .spyOn(algosdk.Indexer.prototype, "lookupTransactionByID")
+      .mockReturnValue({
+        do: async () => ({
+          transaction: {
+            "confirmed-round": 101,
+            "tx-type": "axfer",
+            "asset-transfer-transaction": {
+              "asset-id": 5678,
+              receiver: escrowAddress,
+              amount: 10,
+            },
+          },
+        }),
+      } as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("counts one signature per registered signer", async () => {
+    jest.spyOn(global, "fetch").mockImplementation(async (url: any) => {
+      if (String(url).startsWith("http://down")) {
+        return response(500, { error: "Verifier unavailable" });
+      }
+      return response(200, { signature });
+    });
+
+    const result = await verifyTransaction(lock(), {
+      ...config,
+      verifierNodes: [
+        { url: "http://verifier-1", ethereumAddress: verifier.address },
+        {
+          url: "http://verifier-2",
+          ethereumAddress: verifier.address.toLowerCase(),
+        },
+        { url: "http://verifier-3", ethereumAddress: other.address },
+        { url: "http://down" },
+      ],
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.error).toBe(
+      "Only 1 of 2 required verifier signatures were valid"
+    );
+    expect(result.signedBy).toEqual([
+      {
+        verifier: "http://verifier-1",
+        signer: verifier.address,
+        signature,
+      },
+    ]);
+    expect(result.rejected).toEqual([
+      {
+        verifier: "http://verifier-2",
+        reason: `Duplicate signature from ${verifier.address.toLowerCase()}`,
+      },
+      {
+        verifier: "http://verifier-3",
+        reason: `Signature does not match registered key ${other.address}`,
+      },
+      {
+        verifier: "http://down",
+        reason: "HTTP 500: Verifier unavailable",
+      },
+    ]);
+  });
+
+  it("reaches quorum with signatures from distinct signers", async () => {
+    const otherSignature = await signTransaction(
+      lock(),
+      other.privateKey,
+      config
+    );
+    jest.spyOn(global, "fetch").mockImplementation(async (url: any) =>
+      response(200, {
+        signature: String(url).startsWith("http://verifier-1")
+          ? signature
+          : otherSignature,
+      })
+    );
+
+    const result = await verifyTransaction(lock(), {
+      ...config,
+      verifierNodes: [
+        { url: "http://verifier-1", ethereumAddress: verifier.address },
+        { url: "http://verifier-2", ethereumAddress: other.address },
+      ],
+    });
+
+    expect(result.isValid).toBe(true);
+    expect(result.signatures).toEqual([signature, otherSignature]);
+    expect(result.rejected).toEqual([]);
+  });
+});
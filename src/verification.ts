@@ -1,4 +1,3 @@
-import { createHash } from "crypto";
 import algosdk from "algosdk";
 import { ethers } from "ethers";
 import {
@@ -7,9 +6,25 @@ import {
   VerificationResult,
   ChainType,
   BridgeDirection,
+  VerifierNode,
+  VerifierRejection,
+  VerifierSignature,
 } from "./types";
 import { bridgeEvents, BridgeEventType } from "./events";
-import { isTransactionTimedOut, createTransactionHash } from "./utils";
+import { getBridgeContractABI } from "./chains/ethereum/contracts";
+import { toStoredTransaction } from "./storage/serialization";
+import {
+  ATTESTATION_TYPES,
+  BridgeAttestation,
+  createAttestation,
+  encodeAlgorandAttestation,
+  getAttestationDomain,
+} from "./attestation";
+import { getRefundTransaction, isRefundable } from "./timeouts";
+import { resolveAssetDecimals, toBaseUnits } from "./amounts";
+import { EMPTY_METADATA_HASH, verifyMetadataCommitment } from "./metadata";
+import { getTransactionConfig } from "./config";
+import { checkChainId, isEvmChain } from "./chains/ethereum/networks";
 
 /**
  * Verify bridge transaction
@@ -23,18 +38,6 @@ export async function verifyTransaction(
   config: BridgeConfig
 ): Promise<VerificationResult> {
   try {
-    // Check if transaction has timed out
-    if (isTransactionTimedOut(transaction.timestamp, 3600000)) {
-      // 1 hour timeout
-      bridgeEvents.emitBridgeEvent(BridgeEventType.TIMEOUT, transaction);
-      return {
-        isValid: false,
-        signatures: [],
-        timestamp: Date.now(),
-        error: "Transaction timed out",
-      };
-    }
-
     // Determine transaction direction
     const direction =
       transaction.sourceChain === ChainType.ALGORAND
@@ -62,7 +65,11 @@ export async function verifyTransaction(
     }
 
     // Collect signatures from verifiers
-    const signatures = await collectVerifierSignatures(transaction, config);
+    const { signedBy, rejected } = await collectVerifierSignatures(
+      transaction,
+      getTransactionConfig(config, transaction)
+    );
+    const signatures = signedBy.map((entry) => entry.signature);
 
     // Check if we have enough signatures
     const hasEnoughSignatures =
@@ -72,6 +79,8 @@ export async function verifyTransaction(
     bridgeEvents.emitBridgeEvent(BridgeEventType.VERIFICATION, transaction, {
       isValid: hasEnoughSignatures,
       signatures,
+      signedBy,
+      rejected,
       timestamp: Date.now(),
     });
 
@@ -79,6 +88,11 @@ export async function verifyTransaction(
       isValid: hasEnoughSignatures,
       signatures,
       timestamp: Date.now(),
+      error: hasEnoughSignatures
+        ? undefined
+        : `Only ${signatures.length} of ${config.minVerifierSignatures} required verifier signatures were valid`,
+      signedBy,
+      rejected,
     };
   } catch (error: any) {
     console.error("Error verifying transaction:", error);
@@ -91,6 +105,76 @@ export async function verifyTransaction(
   }
 }
 
+/**
+ * Verify a refund of a timed out bridge transaction
+ *
+ * The source transaction is verified as usual, then checked on-chain to be
+ * past `timeoutBlocks` with no mint or release, before verifiers are asked
+ * to sign the refund.
+ *
+ * @param transaction Timed out bridge transaction
+ * @param config Bridge configuration
+ * @returns Verification result for the refund
+ */
+export async function verifyRefund(
+  transaction: BridgeTransaction,
+  config: BridgeConfig
+): Promise<VerificationResult> {
+  try {
+    const isValid =
+      transaction.sourceChain === ChainType.ALGORAND
+        ? await verifyAlgorandTransaction(transaction, config)
+        : await verifyTargetChainTransaction(transaction, config);
+
+    if (!isValid) {
+      return {
+        isValid: false,
+        signatures: [],
+        timestamp: Date.now(),
+        error: "Transaction verification failed",
+      };
+    }
+
+    if (!(await isRefundable(transaction, config))) {
+      return {
+        isValid: false,
+        signatures: [],
+        timestamp: Date.now(),
+        error: "Transaction is not refundable",
+      };
+    }
+
+    // Verifiers sign the refund, but re-verify the original transaction
+    const { signedBy, rejected } = await collectVerifierSignatures(
+      getRefundTransaction(transaction),
+      getTransactionConfig(config, transaction),
+      transaction
+    );
+    const signatures = signedBy.map((entry) => entry.signature);
+    const hasEnoughSignatures =
+      signatures.length >= config.minVerifierSignatures;
+
+    return {
+      isValid: hasEnoughSignatures,
+      signatures,
+      timestamp: Date.now(),
+      error: hasEnoughSignatures
+        ? undefined
+        : `Only ${signatures.length} of ${config.minVerifierSignatures} required verifier signatures were valid`,
+      signedBy,
+      rejected,
+    };
+  } catch (error: any) {
+    console.error("Error verifying refund:", error);
+    return {
+      isValid: false,
+      signatures: [],
+      timestamp: Date.now(),
+      error: error.message || "Unknown verification error",
+    };
+  }
+}
+
 /**
  * Verify transaction on Algorand blockchain
  *
@@ -98,7 +182,7 @@ export async function verifyTransaction(
  * @param config Bridge configuration
  * @returns True if transaction is valid
  */
-async function verifyAlgorandTransaction(
+export async function verifyAlgorandTransaction(
   transaction: BridgeTransaction,
   config: BridgeConfig
 ): Promise<boolean> {
@@ -108,15 +192,25 @@ async function verifyAlgorandTransaction(
       return false;
     }
 
-    // Connect to Algorand node and indexer
-    const algodClient = new algosdk.Algodv2(
-      config.algorand.token,
-      config.algorand.nodeUrl,
-      config.algorand.port
+    if (!verifyMetadataCommitment(transaction)) {
+      console.error("Metadata does not match its committed hash");
+      return false;
+    }
+
+    if (transaction.metadata?.retirementStatus) {
+      console.error("Retired carbon credits cannot be bridged");
+      return false;
+    }
+
+    await resolveAssetDecimals(config);
+    const expectedAmount = toBaseUnits(
+      transaction.amount,
+      config.algorand.decimals!
     );
-    
+
+    // Connect to Algorand indexer
     const indexerClient = new algosdk.Indexer(
-      config.algorand.token,
+      config.algorand.token ?? "",
       config.algorand.indexerUrl,
       config.algorand.port
     );
@@ -139,6 +233,12 @@ async function verifyAlgorandTransaction(
 
     // For asset transfers (ASA operations)
     if (txn['tx-type'] === 'axfer') {
+      // Metadata commitments are only carried by lock calls
+      if (transaction.metadataHash !== undefined) {
+        console.error("Metadata hash cannot be verified from an asset transfer");
+        return false;
+      }
+
       // Verify it's the correct asset 
       if (txn['asset-transfer-transaction']['asset-id'] !== config.algorand.tokenId) {
         console.error("Invalid asset ID in transaction");
@@ -152,10 +252,7 @@ async function verifyAlgorandTransaction(
       }
       
       // Verify amount
-      const assetAmount = txn['asset-transfer-transaction']['amount'];
-      const expectedAmount = Math.floor(
-        Number(transaction.amount ?? 0) * Math.pow(10, config.algorand.decimals ?? 0)
-      );
+      const assetAmount = BigInt(txn['asset-transfer-transaction']['amount']);
       
       if (assetAmount !== expectedAmount) {
         console.error(`Amount mismatch: expected ${expectedAmount}, got ${assetAmount}`);
@@ -193,21 +290,80 @@ async function verifyAlgorandTransaction(
       // Get app call arguments
       const appArgs = txn['application-transaction']['application-args'] || [];
       
-      // Verify the first argument is the "bridge" method (depends on your contract)
+      // Verify the first argument is the escrow's "lock" method
       if (appArgs.length < 1 || 
-          Buffer.from(appArgs[0], 'base64').toString() !== 'bridge') {
+          Buffer.from(appArgs[0], 'base64').toString() !== 'lock') {
         console.error("Invalid method call in application transaction");
         return false;
       }
       
-      // Parse and verify other arguments like amount, receiver, etc.
-      // The exact parsing depends on how your contract encodes these values
-      
-      // For example, if args[1] is amount, args[2] is receiver address:
+      // Lock calls carry the bridge ID and target chain receiver
       if (appArgs.length < 3) {
         console.error("Insufficient arguments in application call");
         return false;
       }
+
+      if (Buffer.from(appArgs[1], 'base64').toString() !== transaction.id) {
+        console.error("Bridge ID mismatch in lock call");
+        return false;
+      }
+
+      if (Buffer.from(appArgs[2], 'base64').toString() !== transaction.receiver) {
+        console.error("Receiver mismatch in lock call");
+        return false;
+      }
+
+      if (txn.sender !== transaction.sender) {
+        console.error("Sender mismatch in lock call");
+        return false;
+      }
+
+      // The optional fourth argument commits to the carbon credit metadata;
+      // an empty hash only pads the arguments before a named target chain
+      const committedHash = appArgs[3]
+        ? `0x${Buffer.from(appArgs[3], 'base64').toString('hex')}`
+        : undefined;
+      const lockedMetadataHash =
+        committedHash !== EMPTY_METADATA_HASH ? committedHash : undefined;
+      if (lockedMetadataHash !== transaction.metadataHash?.toLowerCase()) {
+        console.error("Metadata hash mismatch in lock call");
+        return false;
+      }
+
+      // Locks for a target chain other than the primary one name it in the
+      // optional fifth argument
+      const lockedTargetChain = appArgs[4]
+        ? Buffer.from(appArgs[4], 'base64').toString()
+        : config.targetChain.chainType;
+      if (lockedTargetChain !== transaction.targetChain) {
+        console.error("Target chain mismatch in lock call");
+        return false;
+      }
+
+      // The locked amount is carried by the asset transfer in the same group
+      const transferResponse = await indexerClient
+        .searchForTransactions()
+        .round(txn['confirmed-round'])
+        .txType('axfer')
+        .assetID(config.algorand.carbonAssetId)
+        .address(algosdk.getApplicationAddress(config.algorand.escrowAppId))
+        .addressRole('receiver')
+        .do();
+
+      const assetTransfer = (transferResponse.transactions || []).find(
+        (transfer: any) => txn.group && transfer.group === txn.group
+      );
+
+      if (!assetTransfer) {
+        console.error("No escrow asset transfer found in lock group");
+        return false;
+      }
+
+      const lockedAmount = BigInt(assetTransfer['asset-transfer-transaction']['amount']);
+      if (lockedAmount !== expectedAmount) {
+        console.error(`Amount mismatch: expected ${expectedAmount}, got ${lockedAmount}`);
+        return false;
+      }
       
       // All checks passed
       return true;
@@ -229,19 +385,30 @@ async function verifyAlgorandTransaction(
  * @param config Bridge configuration
  * @returns True if transaction is valid
  */
-async function verifyTargetChainTransaction(
+export async function verifyTargetChainTransaction(
   transaction: BridgeTransaction,
   config: BridgeConfig
 ): Promise<boolean> {
   try {
-    // Connect to the target chain RPC
-    const provider = new ethers.JsonRpcProvider(config.targetChain.rpcUrl);
+    // Connect to the chain the burn happened on
+    const chainConfig = getTransactionConfig(config, transaction);
+    const provider = new ethers.JsonRpcProvider(chainConfig.targetChain.rpcUrl);
 
     if (!transaction.sourceTransactionId) {
       console.error("Missing source transaction ID");
       return false;
     }
 
+    // Burns release the underlying ASA and carry no metadata commitment
+    if (transaction.metadataHash !== undefined || transaction.metadata) {
+      console.error("Burn transactions cannot carry carbon credit metadata");
+      return false;
+    }
+
+    // Refuse receipts from an RPC serving another network
+    await checkChainId(provider, chainConfig);
+    await resolveAssetDecimals(chainConfig);
+
     // Fetch the transaction receipt
     const receipt = await provider.getTransactionReceipt(transaction.sourceTransactionId);
     
@@ -259,7 +426,7 @@ async function verifyTargetChainTransaction(
     }
     
     // Verify the transaction was sent to the bridge contract
-    const bridgeContractAddress = config.targetChain.bridgeContractAddress;
+    const bridgeContractAddress = chainConfig.targetChain.bridgeContractAddress;
     if (tx.to?.toLowerCase() !== bridgeContractAddress.toLowerCase()) {
       console.error(`Transaction not sent to bridge contract. Expected: ${bridgeContractAddress}, Got: ${tx.to}`);
       return false;
@@ -277,10 +444,8 @@ async function verifyTargetChainTransaction(
     
     // Parse event data to verify details using a more robust approach
     try {
-      // Define the expected event interface
-      const bridgeInterface = new ethers.Interface([
-        "event TokenBridgeRequest(address indexed sender, string indexed receiver, uint256 amount, uint256 nonce)"
-      ]);
+      // Parse logs with the bridge contract ABI
+      const bridgeInterface = new ethers.Interface(getBridgeContractABI());
       
       let foundValidEvent = false;
       
@@ -302,40 +467,49 @@ async function verifyTargetChainTransaction(
             continue;
           }
           
-          if (!parsedLog || parsedLog.name !== "TokenBridgeRequest") {
+          // Retirements are burns that emit TokensRetired instead
+          const expectedEvent = transaction.retirement ? "TokensRetired" : "TokensBurned";
+          if (!parsedLog || parsedLog.name !== expectedEvent) {
             continue;
           }
           
           // Normalize values for comparison
+          const eventBridgeId: string = parsedLog.args.bridgeId;
           const eventSender = parsedLog.args.sender.toLowerCase();
-          const eventReceiver = parsedLog.args.receiver;
-          const eventAmount = parsedLog.args.amount;
-          const eventNonce = parsedLog.args.nonce;
+          const eventAmount: bigint = parsedLog.args.amount;
           
           // Convert transaction amount to the same unit for comparison
-          const transactionAmountBN = ethers.parseUnits(
-            transaction.amount.toString(), 
-            config.targetChain.decimals
+          const transactionAmountBN = toBaseUnits(
+            transaction.amount,
+            chainConfig.targetChain.decimals!
           );
           
           // Check all parameters match
-          if (eventSender !== transaction.sender.toLowerCase()) {
-            console.log(`Sender mismatch: ${eventSender} vs ${transaction.sender.toLowerCase()}`);
+          if (eventBridgeId !== transaction.id) {
+            console.log(`Bridge ID mismatch for ${transaction.id}`);
             continue;
           }
           
-          if (eventReceiver !== transaction.receiver) {
-            console.log(`Receiver mismatch: ${eventReceiver} vs ${transaction.receiver}`);
+          if (eventSender !== transaction.sender.toLowerCase()) {
+            console.log(`Sender mismatch: ${eventSender} vs ${transaction.sender.toLowerCase()}`);
             continue;
           }
           
-          if (!eventAmount.eq(transactionAmountBN)) {
-            console.log(`Amount mismatch: ${eventAmount.toString()} vs ${transactionAmountBN.toString()}`);
+          if (transaction.retirement) {
+            if (
+              parsedLog.args.beneficiary !== transaction.retirement.beneficiary ||
+              parsedLog.args.reason !== transaction.retirement.reason
+            ) {
+              console.log(`Retirement details mismatch for ${transaction.id}`);
+              continue;
+            }
+          } else if (parsedLog.args.algorandReceiver !== transaction.receiver) {
+            console.log(`Receiver mismatch: ${parsedLog.args.algorandReceiver} vs ${transaction.receiver}`);
             continue;
           }
           
-          if (eventNonce.toString() !== transaction.nonce.toString()) {
-            console.log(`Nonce mismatch: ${eventNonce.toString()} vs ${transaction.nonce.toString()}`);
+          if (eventAmount !== transactionAmountBN) {
+            console.log(`Amount mismatch: ${eventAmount.toString()} vs ${transactionAmountBN.toString()}`);
             continue;
           }
           
@@ -365,156 +539,218 @@ async function verifyTargetChainTransaction(
 }
 
 /**
- * Collect signatures from verifiers
+ * Get the chain whose keys verifiers sign a transaction with
+ *
+ * Signatures are checked by the contract that mints or releases the credits,
+ * so they are made with the key type of the target chain.
  *
  * @param transaction Bridge transaction
+ * @returns Signing chain
+ */
+export function getSigningChain(transaction: BridgeTransaction): ChainType {
+  return transaction.targetChain;
+}
+
+/**
+ * Get the verifier nodes to request signatures from
+ *
  * @param config Bridge configuration
- * @returns Array of signatures
+ * @returns Verifier nodes, or none if `verifierNodes` is not configured
+ */
+export function getVerifierNodes(config: BridgeConfig): VerifierNode[] {
+  return config.verifierNodes ?? [];
+}
+
+/**
+ * Get the registered key a verifier must sign a transaction with
+ *
+ * @param node Verifier node
+ * @param transaction Bridge transaction
+ * @returns Registered address or undefined if none is registered
+ */
+function getRegisteredVerifierKey(
+  node: VerifierNode,
+  transaction: BridgeTransaction
+): string | undefined {
+  const signingChain = getSigningChain(transaction);
+  if (signingChain === ChainType.ALGORAND) {
+    return node.algorandAddress;
+  }
+
+  // Every EVM chain is signed with the verifier's Ethereum key
+  return isEvmChain(signingChain) ? node.ethereumAddress : undefined;
+}
+
+/**
+ * Collect signatures from verifiers
+ *
+ * Each signature is checked against the responding verifier's registered
+ * key, and only one signature per key is counted.
+ *
+ * @param transaction Bridge transaction to sign
+ * @param config Bridge configuration
+ * @param refundOf Timed out transaction, when `transaction` is its refund
+ * @returns Accepted signatures and rejected verifier responses
  */
 async function collectVerifierSignatures(
   transaction: BridgeTransaction,
-  config: BridgeConfig
-): Promise<string[]> {
-  // Create a hash of the transaction for signing
-  const transactionHash = createTransactionHash(
-    transaction.sourceChain,
-    transaction.targetChain,
-    transaction.sender,
-    transaction.receiver,
-    transaction.amount.toString(),
-    transaction.nonce
-  );
+  config: BridgeConfig,
+  refundOf?: BridgeTransaction
+): Promise<{ signedBy: VerifierSignature[]; rejected: VerifierRejection[] }> {
+  // Build the attestation verifiers are asked to sign
+  const attestation = createAttestation(transaction, config);
 
-  const signatures: string[] = [];
-  const verifierPromises: Promise<string | null>[] = [];
+  const nodes = getVerifierNodes(config);
   const timeoutMs = 30000; // 30 second timeout for verifiers to respond
-  
+
   // Request signatures from all verifiers
-  for (const verifierUrl of config.verifiers) {
-    verifierPromises.push(
-      requestVerifierSignature(verifierUrl, transactionHash, timeoutMs)
-    );
-  }
+  const results = await Promise.allSettled(
+    nodes.map((node) =>
+      requestVerifierSignature(
+        node.url,
+        refundOf ?? transaction,
+        attestation,
+        timeoutMs,
+        refundOf !== undefined
+      )
+    )
+  );
 
-  // Wait for all verifiers to respond (with timeout handling)
-  const results = await Promise.all(verifierPromises);
-  
-  // Filter out null responses (failed or timed out requests)
-  signatures.push(...results.filter(sig => sig !== null) as string[]);
+  const signedBy: VerifierSignature[] = [];
+  const rejected: VerifierRejection[] = [];
+  const seenSigners = new Set<string>();
+
+  results.forEach((result, i) => {
+    const node = nodes[i];
+    const reject = (reason: string) => {
+      console.error(`Rejected signature from verifier ${node.url}: ${reason}`);
+      rejected.push({ verifier: node.url, reason });
+    };
+
+    if (result.status === "rejected") {
+      reject(result.reason?.message || "Unknown error");
+      return;
+    }
+
+    const registeredKey = getRegisteredVerifierKey(node, transaction);
+    if (!registeredKey) {
+      reject(`No registered ${getSigningChain(transaction)} key`);
+      return;
+    }
+
+    if (!verifySignature(transaction, result.value, registeredKey, config)) {
+      reject(`Signature does not match registered key ${registeredKey}`);
+      return;
+    }
+
+    // Ethereum addresses are case-insensitive
+    const signerKey = isEvmChain(getSigningChain(transaction))
+        ? registeredKey.toLowerCase()
+        : registeredKey;
+    if (seenSigners.has(signerKey)) {
+      reject(`Duplicate signature from ${registeredKey}`);
+      return;
+    }
 
-  console.log(`Collected ${signatures.length} valid signatures from ${config.verifiers.length} verifiers`);
+    seenSigners.add(signerKey);
+    signedBy.push({
+      verifier: node.url,
+      signer: registeredKey,
+      signature: result.value,
+    });
+  });
+
+  console.log(`Collected ${signedBy.length} valid signatures from ${nodes.length} verifiers`);
 
-  return signatures;
+  return { signedBy, rejected };
 }
 
 /**
  * Request a signature from a verifier node
+ *
+ * The full transaction is sent along with the attestation so the verifier
+ * can re-verify it against both chains and check it derives the same
+ * attestation from its own configuration before signing.
  * 
  * @param verifierUrl URL of the verifier node
- * @param transactionHash Hash of the transaction to sign
+ * @param transaction Bridge transaction to verify
+ * @param attestation Attestation to sign
  * @param timeoutMs Timeout in milliseconds
- * @returns Signature or null if request failed
+ * @param refund True if the attestation is for the refund of the transaction
+ * @returns Signature
+ * @throws Error describing why no signature was returned
  */
 async function requestVerifierSignature(
   verifierUrl: string, 
-  transactionHash: string,
-  timeoutMs: number
-): Promise<string | null> {
+  transaction: BridgeTransaction,
+  attestation: BridgeAttestation,
+  timeoutMs: number,
+  refund = false
+): Promise<string> {
+  // Create a controller for aborting the fetch
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  
   try {
-    // Create a controller for aborting the fetch
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+    // Use fetch with abort controller for better timeout handling
+    const response = await fetch(`${verifierUrl}/sign`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        attestation,
+        transaction: toStoredTransaction(transaction),
+        ...(refund ? { refund: true } : {})
+      }),
+      signal: controller.signal
+    });
     
-    try {
-      // Use fetch with abort controller for better timeout handling
-      const response = await fetch(`${verifierUrl}/sign`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          transactionHash
-        }),
-        signal: controller.signal
-      });
-      
-      // Clear the timeout as we got a response
-      clearTimeout(timeoutId);
-      
-      if (!response.ok) {
-        console.error(`Error from verifier ${verifierUrl}: HTTP ${response.status}`);
-        return null;
-      }
-      
-      const data = await response.json();
-      
-      // Verify the signature format is valid
-      if (typeof data === 'object' && data !== null && 'signature' in data && typeof data.signature === 'string') {
-        console.error(`Invalid signature format from verifier ${verifierUrl}`);
-        return null;
-      }
-      
-      // Add additional signature validation if needed
-      if (typeof data === 'object' && data !== null && 'signature' in data && typeof data.signature === 'string') {
-        return data.signature;
-      }
-      console.error(`Invalid signature format from verifier ${verifierUrl}`);
-      return null;
-    } catch (error) {
-      // Clear the timeout if there was an error
-      clearTimeout(timeoutId);
-      
-      if (error instanceof Error && error.name === 'AbortError') {
-        console.error(`Request to verifier ${verifierUrl} timed out after ${timeoutMs}ms`);
-      } else {
-        console.error(`Error requesting signature from ${verifierUrl}:`, error);
-      }
-      return null;
+    if (!response.ok) {
+      const body: any = await response.json().catch(() => ({}));
+      throw new Error(
+        `HTTP ${response.status}${body.error ? `: ${body.error}` : ''}`
+      );
     }
+    
+    const data = await response.json();
+    
+    // Verify the signature format is valid
+    if (typeof data === 'object' && data !== null && 'signature' in data && typeof data.signature === 'string') {
+      return data.signature;
+    }
+    throw new Error('Invalid signature format');
   } catch (error) {
-    console.error(`Unexpected error with verifier ${verifierUrl}:`, error);
-    return null;
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new Error(`Timed out after ${timeoutMs}ms`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
   }
 }
 
 /**
- * Create a mock signature (for example purposes only)
+ * Sign the attestation for a bridge transaction with private key
  *
- * @param message Message to sign
- * @param signer Signer address
- * @returns Mock signature
- */
-function createMockSignature(message: string, signer: string): string {
-  return createHash("sha256")
-    .update(message)
-    .update(signer)
-    .update(Date.now().toString())
-    .digest("hex");
-}
-
-/**
- * Sign bridge transaction with private key
+ * Ethereum keys sign the EIP-712 typed attestation; Algorand keys sign its
+ * canonical byte encoding with `signBytes`.
  *
  * @param transaction Bridge transaction
  * @param privateKey Private key for signing
+ * @param config Bridge configuration defining the attestation domain
  * @returns Signature
  */
 export async function signTransaction(
   transaction: BridgeTransaction,
-  privateKey: string
+  privateKey: string,
+  config: BridgeConfig
 ): Promise<string> {
-  // Create a hash of the transaction
-  const transactionHash = createTransactionHash(
-    transaction.sourceChain,
-    transaction.targetChain,
-    transaction.sender,
-    transaction.receiver,
-    transaction.amount.toString(),
-    transaction.nonce
-  );
+  const attestation = createAttestation(transaction, config);
 
-  // Sign the transaction hash based on the source chain
-  if (transaction.sourceChain === ChainType.ALGORAND) {
+  // Sign with the key type of the chain that checks the signature
+  const signingChain = getSigningChain(transaction);
+  if (signingChain === ChainType.ALGORAND) {
     try {
       // Handle different formats of Algorand private keys
       let sk: Uint8Array;
@@ -538,57 +774,55 @@ export async function signTransaction(
         }
       }
       
-      // Sign message with Algorand key
+      // Sign the canonical attestation bytes with Algorand key
       const signedBytes = algosdk.signBytes(
-        new Uint8Array(Buffer.from(transactionHash)),
+        encodeAlgorandAttestation(attestation),
         sk
       );
       return Buffer.from(signedBytes).toString('base64');
     } catch (error: any) {
       throw new Error(`Algorand signing error: ${error.message}`);
     }
-  } else if (transaction.sourceChain === ChainType.ETHEREUM) {
+  } else if (isEvmChain(signingChain)) {
     try {
       // Create Ethereum wallet from private key
       const wallet = new ethers.Wallet(privateKey);
       
-      // Sign the message properly using signMessage which returns a Promise
-      const messageBytes = ethers.toUtf8Bytes(transactionHash);
-      return await wallet.signMessage(messageBytes);
+      // Sign the typed attestation
+      return await wallet.signTypedData(
+        getAttestationDomain(config),
+        ATTESTATION_TYPES,
+        attestation
+      );
     } catch (error: any) {
       throw new Error(`Ethereum signing error: ${error.message}`);
     }
   } else {
-    throw new Error(`Unsupported chain type: ${transaction.sourceChain}`);
+    throw new Error(`Unsupported chain type: ${signingChain}`);
   }
 }
 
 /**
- * Verify signature of a bridge transaction
+ * Verify a signature over the attestation for a bridge transaction
  *
  * @param transaction Bridge transaction
  * @param signature Signature to verify
  * @param publicKey Public key or address of the signer
+ * @param config Bridge configuration defining the attestation domain
  * @returns True if signature is valid
  */
 export function verifySignature(
   transaction: BridgeTransaction,
   signature: string,
-  publicKey: string
+  publicKey: string,
+  config: BridgeConfig
 ): boolean {
   try {
-    // Create a hash of the transaction
-    const transactionHash = createTransactionHash(
-      transaction.sourceChain,
-      transaction.targetChain,
-      transaction.sender,
-      transaction.receiver,
-      transaction.amount.toString(),
-      transaction.nonce
-    );
+    const attestation = createAttestation(transaction, config);
 
-    // Verify the signature based on the source chain
-    if (transaction.sourceChain === ChainType.ALGORAND) {
+    // Verify the signature with the key type of the signing chain
+    const signingChain = getSigningChain(transaction);
+    if (signingChain === ChainType.ALGORAND) {
       try {
         // Convert signature from base64 to bytes
         const signatureBytes = Buffer.from(signature, 'base64');
@@ -604,27 +838,28 @@ export function verifySignature(
           pkBytes = new Uint8Array(algosdk.decodeAddress(publicKey).publicKey);
         }
         
-        // Convert to base64 which is what verifyBytes expects
-        const pkBase64 = Buffer.from(pkBytes).toString('base64');
+        // verifyBytes expects the signer's address
+        const signerAddress = algosdk.encodeAddress(pkBytes);
         
         // Use algosdk to verify the signature
         return algosdk.verifyBytes(
-          new Uint8Array(Buffer.from(transactionHash)),
+          encodeAlgorandAttestation(attestation),
           signatureBytes,
-          pkBase64
+          signerAddress
         );
       } catch (error) {
         console.error("Algorand signature verification error:", error);
         return false;
       }
-    } else if (transaction.sourceChain === ChainType.ETHEREUM) {
+    } else if (isEvmChain(signingChain)) {
       try {
-        // For Ethereum, we need to use the same message format as during signing
-        const messageBytes = ethers.toUtf8Bytes(transactionHash);
-        const msgHash = ethers.hashMessage(messageBytes);
-        
-        // Recover the address from the signature
-        const recoveredAddress = ethers.recoverAddress(msgHash, signature);
+        // Recover the signer of the typed attestation
+        const recoveredAddress = ethers.verifyTypedData(
+          getAttestationDomain(config),
+          ATTESTATION_TYPES,
+          attestation,
+          signature
+        );
         
         // Compare to the provided public key (which should be an Ethereum address)
         return recoveredAddress.toLowerCase() === publicKey.toLowerCase();
@@ -633,7 +868,7 @@ export function verifySignature(
         return false;
       }
     } else {
-      throw new Error(`Unsupported chain type: ${transaction.sourceChain}`);
+      throw new Error(`Unsupported chain type: ${signingChain}`);
     }
   } catch (error) {
     console.error("Signature verification failed:", error);
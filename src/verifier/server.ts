@@ -0,0 +1,289 @@
+import express, { NextFunction, Request, Response } from "express";
+import algosdk from "algosdk";
+import { ethers } from "ethers";
+import BigNumber from "bignumber.js";
+import { BridgeConfig, BridgeTransaction, ChainType } from "../types";
+import {
+  createBridgeConfig,
+  getChainConfig,
+  getTargetChainConfigs,
+  getTransactionConfig,
+  loadConfigFromEnv,
+} from "../config";
+import { fromStoredTransaction } from "../storage/serialization";
+import {
+  attestationsEqual,
+  BridgeAttestation,
+  createAttestation,
+} from "../attestation";
+import { resolveAssetDecimals } from "../amounts";
+import {
+  getSigningChain,
+  signTransaction,
+  verifyAlgorandTransaction,
+  verifyTargetChainTransaction,
+} from "../verification";
+import {
+  getRefundTransaction,
+  isOpenOnTargetChain,
+  isRefundable,
+  isRefundedOnSourceChain,
+} from "../timeouts";
+import { isEvmChain } from "../chains/ethereum/networks";
+
+/**
+ * Signing keys held by a verifier node
+ *
+ * A node only signs transactions for the chains it holds a key for.
+ */
+export interface VerifierNodeKeys {
+  algorandMnemonic?: string; // Signs transactions released on Algorand
+  ethereumPrivateKey?: string; // Signs transactions minted on Ethereum
+}
+
+/**
+ * Wrap an async route handler so rejections reach the error middleware
+ *
+ * @param handler Async route handler
+ * @returns Express route handler
+ */
+function asyncHandler(
+  handler: (req: Request, res: Response) => Promise<void>
+): (req: Request, res: Response, next: NextFunction) => void {
+  return (req, res, next) => {
+    handler(req, res).catch(next);
+  };
+}
+
+/**
+ * Check on-chain that a bridge transaction may still be completed
+ *
+ * @param transaction Bridge transaction
+ * @param config Bridge configuration
+ * @returns True if its source record shows no refund and its target chain
+ * no mint, release or retirement
+ */
+async function isOpenOnBothChains(
+  transaction: BridgeTransaction,
+  config: BridgeConfig
+): Promise<boolean> {
+  if (await isRefundedOnSourceChain(transaction, config)) {
+    console.error(`Bridge ${transaction.id} was already refunded`);
+    return false;
+  }
+  return isOpenOnTargetChain(transaction, config);
+}
+
+/**
+ * Parse the bridge transaction from a signing request
+ *
+ * @param body Request body
+ * @returns Bridge transaction or null if malformed
+ */
+function parseSignRequest(body: any): BridgeTransaction | null {
+  if (!body || typeof body !== "object" || !body.transaction) {
+    return null;
+  }
+
+  const transaction = fromStoredTransaction(body.transaction);
+  if (
+    typeof transaction.id !== "string" ||
+    typeof transaction.sender !== "string" ||
+    typeof transaction.receiver !== "string" ||
+    !transaction.sourceChain ||
+    !transaction.targetChain ||
+    transaction.amount === undefined
+  ) {
+    return null;
+  }
+
+  // Accept plain decimal amounts as well as tagged BigNumbers
+  transaction.amount = new BigNumber(transaction.amount);
+  if (!transaction.amount.isFinite() || transaction.amount.lte(0)) {
+    return null;
+  }
+
+  return transaction;
+}
+
+/**
+ * Create a verifier node application
+ *
+ * The node answers the `/sign` requests sent by `verifyTransaction` and
+ * `verifyRefund`. Each request is re-verified independently against both
+ * chains: the source transaction must be confirmed, and the destination
+ * chain must not show the bridge as minted, released or retired. The node
+ * refuses to sign anything it cannot confirm.
+ *
+ * @param config Bridge configuration used to reach both chains
+ * @param keys Verifier signing keys
+ * @returns Express application
+ */
+export function createVerifierServer(
+  config: BridgeConfig,
+  keys: VerifierNodeKeys
+): express.Express {
+  const app = express();
+  app.use(express.json());
+
+  const algorandAddress = keys.algorandMnemonic
+    ? algosdk.mnemonicToSecretKey(keys.algorandMnemonic).addr
+    : undefined;
+  const ethereumAddress = keys.ethereumPrivateKey
+    ? new ethers.Wallet(keys.ethereumPrivateKey).address
+    : undefined;
+
+  app.get("/health", (_req, res) => {
+    res.json({ status: "ok", algorandAddress, ethereumAddress });
+  });
+
+  app.post(
+    "/sign",
+    asyncHandler(async (req, res) => {
+      const transaction = parseSignRequest(req.body);
+      if (!transaction) {
+        res.status(400).json({ error: "A valid transaction is required" });
+        return;
+      }
+
+      // Refund requests carry the timed out transaction; the node signs
+      // the refund back to its sender
+      const refund = req.body.refund === true;
+      const signedTransaction = refund
+        ? getRefundTransaction(transaction)
+        : transaction;
+
+      // Transactions for a chain this node does not serve are rejected
+      let chainConfig: BridgeConfig;
+      try {
+        chainConfig = getTransactionConfig(config, transaction);
+      } catch (error: any) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+
+      // The attestation is rebuilt from this node's own configuration; a
+      // mismatch means the caller targets a different deployment or asset
+      await resolveAssetDecimals(chainConfig);
+      let attestation: BridgeAttestation;
+      try {
+        attestation = createAttestation(signedTransaction, chainConfig);
+      } catch (error: any) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      if (
+        req.body.attestation !== undefined &&
+        !attestationsEqual(req.body.attestation, attestation)
+      ) {
+        res.status(400).json({ error: "Attestation mismatch" });
+        return;
+      }
+
+      const signingChain = getSigningChain(signedTransaction);
+      let privateKey: string | undefined;
+      let signer: string | undefined;
+      if (signingChain === ChainType.ALGORAND) {
+        privateKey = keys.algorandMnemonic;
+        signer = algorandAddress;
+      } else if (isEvmChain(signingChain)) {
+        privateKey = keys.ethereumPrivateKey;
+        signer = ethereumAddress;
+      }
+
+      if (!privateKey) {
+        res.status(422).json({
+          error: `No verifier key for chain ${signingChain}`,
+        });
+        return;
+      }
+
+      let isValid =
+        transaction.sourceChain === ChainType.ALGORAND
+          ? await verifyAlgorandTransaction(transaction, config)
+          : await verifyTargetChainTransaction(transaction, config);
+
+      // A refund is only signed once the timeout has passed on-chain, the
+      // source record is not refunded yet and the target chain shows no
+      // mint, release or retirement. Anything else is only signed while the
+      // source record shows no refund and the target chain shows no mint,
+      // release or retirement for the bridge.
+      if (isValid) {
+        isValid = refund
+          ? await isRefundable(transaction, config)
+          : await isOpenOnBothChains(transaction, config);
+      }
+
+      if (!isValid) {
+        console.error(
+          `Refusing to sign unverified bridge transaction ${signedTransaction.id}`
+        );
+        res.status(422).json({
+          error: refund
+            ? "Refund could not be verified on-chain"
+            : "Transaction could not be verified on-chain",
+        });
+        return;
+      }
+
+      const signature = await signTransaction(
+        signedTransaction,
+        privateKey,
+        chainConfig
+      );
+      res.json({ signature, signer, attestation });
+    })
+  );
+
+  app.use(
+    (error: any, _req: Request, res: Response, _next: NextFunction): void => {
+      console.error("Verifier error:", error);
+      res.status(500).json({ error: error.message || "Unknown error" });
+    }
+  );
+
+  return app;
+}
+
+/**
+ * Start a verifier node configured from environment variables
+ *
+ * Signing keys are read from `VERIFIER_ALGORAND_MNEMONIC` and
+ * `VERIFIER_ETHEREUM_PRIVATE_KEY`.
+ *
+ * @param port Port to listen on
+ */
+export async function startVerifierServer(
+  port: number = parseInt(process.env.VERIFIER_PORT || "3100")
+): Promise<void> {
+  // A verifier node signs on its own and collects no signatures
+  const config = createBridgeConfig({
+    ...loadConfigFromEnv(),
+    minVerifierSignatures: 0,
+  });
+  const keys: VerifierNodeKeys = {
+    algorandMnemonic: process.env.VERIFIER_ALGORAND_MNEMONIC,
+    ethereumPrivateKey: process.env.VERIFIER_ETHEREUM_PRIVATE_KEY,
+  };
+
+  if (!keys.algorandMnemonic && !keys.ethereumPrivateKey) {
+    throw new Error("No verifier signing key configured");
+  }
+
+  // Fail fast if the configured decimals do not match the chains
+  for (const { chainType } of getTargetChainConfigs(config)) {
+    await resolveAssetDecimals(getChainConfig(config, chainType));
+  }
+
+  const app = createVerifierServer(config, keys);
+  app.listen(port, () => {
+    console.log(`Carbon bridge verifier listening on port ${port}`);
+  });
+}
+
+if (require.main === module) {
+  startVerifierServer().catch((error) => {
+    console.error("Failed to start verifier:", error);
+    process.exit(1);
+  });
+}